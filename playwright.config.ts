@@ -8,6 +8,8 @@ export default defineConfig({
   },
   use: {
     baseURL: 'http://127.0.0.1:4173',
+    // 表示言語はブラウザの言語で決まるので、テストは英語表示に固定する
+    locale: 'en-US',
     trace: 'on-first-retry',
   },
   webServer: {
@@ -0,0 +1,98 @@
+// 現代の国境データを簡略化した TopoJSON に変換して public/data/ に同梱する。
+// 国境線を共有アークとして持つので、簡略化しても隣国との間に隙間や重なりができない。
+// 出典: https://github.com/datasets/geo-countries (Natural Earth 由来, ODC-PDDL)
+// 地図パックの区画データ（都道府県・州など）の配布元は src/regionDatasets.json を参照
+//
+// 使い方: node scripts/build-geodata.mjs [--dataset countries] [--input countries.geojson] [--retain 0.1]
+//   --dataset countries（既定）か src/regionDatasets.json のキー（japan-prefectures など）
+//   --input   手元の GeoJSON を使う（省略時はダウンロード）
+//   --retain  残す頂点の割合（0〜1）
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+import { quantize } from 'topojson-client'
+import { topology } from 'topojson-server'
+import { presimplify, quantile, simplify, sphericalTriangleArea } from 'topojson-simplify'
+
+const SOURCE_URL = 'https://raw.githubusercontent.com/datasets/geo-countries/master/data/countries.geojson'
+// アプリが参照する属性だけを残す（src/geo.ts の GeoProperties）
+const KEPT_PROPERTIES = ['ADMIN', 'name', 'ISO_A3', 'ISO_A2', 'ISO3166-1-Alpha-2', 'ISO3166-1-Alpha-3']
+
+const rootDir = join(dirname(fileURLToPath(import.meta.url)), '..')
+
+const { values } = parseArgs({
+  options: {
+    dataset: { type: 'string', default: 'countries' },
+    input: { type: 'string' },
+    retain: { type: 'string', default: '0.1' },
+  },
+})
+const retain = Number(values.retain)
+if (!(retain > 0 && retain <= 1)) throw new Error(`--retain は 0〜1 で指定してください: ${values.retain}`)
+
+const dataset = values.dataset
+const regionDatasets = JSON.parse(await readFile(join(rootDir, 'src', 'regionDatasets.json'), 'utf8'))
+const region = dataset === 'countries' ? null : regionDatasets[dataset]
+if (dataset !== 'countries' && !region) throw new Error(`--dataset が不明です: ${dataset}`)
+const outName = `${dataset}.topo.json`
+const outFile = join(rootDir, 'public', 'data', outName)
+// アプリは国境データを objects.countries、区画データを objects.regions から読む（src/geoData.ts）
+const objectName = region ? 'regions' : 'countries'
+
+const loadSource = async () => {
+  if (values.input) return JSON.parse(await readFile(values.input, 'utf8'))
+  const res = await fetch(region?.url ?? SOURCE_URL)
+  if (!res.ok) throw new Error(`地図データの取得に失敗しました (${res.status})`)
+  return res.json()
+}
+
+// 海外領土や係争地も地図に描くので、名前のある国はすべて残す。出題するかは src/countryRegistry.ts で決める
+const isCountryIncluded = ({ geometry, properties = {} }) => {
+  if (geometry?.type !== 'Polygon' && geometry?.type !== 'MultiPolygon') return false
+  return Boolean(properties.ADMIN || properties.name)
+}
+
+// src/geoData.ts の normalizeRegions と同じ基準で除外する（対応表に無い区画はアプリ側で落とす）
+const isRegionIncluded = ({ geometry, properties = {} }) => {
+  if (geometry?.type !== 'Polygon' && geometry?.type !== 'MultiPolygon') return false
+  const name = properties[region.nameProperty]
+  return typeof name === 'string' && !region.excluded.includes(name)
+}
+
+const keptProperties = region ? [region.nameProperty] : KEPT_PROPERTIES
+
+const pickProperties = (properties) =>
+  Object.fromEntries(keptProperties.filter((key) => properties[key] != null).map((key) => [key, properties[key]]))
+
+const source = await loadSource()
+const features = source.features
+  .filter(region ? isRegionIncluded : isCountryIncluded)
+  .map(({ geometry, properties }) => ({ type: 'Feature', geometry, properties: pickProperties(properties) }))
+
+// 共有アークを正しく検出できるよう、細かいグリッドに揃えてからトポロジーを組む
+const presimplified = presimplify(
+  topology({ [objectName]: { type: 'FeatureCollection', features } }, 1e6),
+  sphericalTriangleArea,
+)
+
+// アーク1本だけで閉じた小さな島が線分に潰れないよう、最後まで残る頂点を2つ確保する
+for (const arc of presimplified.arcs) {
+  const first = arc[0]
+  const last = arc[arc.length - 1]
+  if (arc.length < 4 || first[0] !== last[0] || first[1] !== last[1]) continue
+  arc
+    .slice(1, -1)
+    .sort((a, b) => b[2] - a[2])
+    .slice(0, 2)
+    .forEach((point) => {
+      point[2] = Infinity
+    })
+}
+
+const simplified = quantize(simplify(presimplified, quantile(presimplified, retain)), 1e5)
+
+await mkdir(dirname(outFile), { recursive: true })
+const json = JSON.stringify(simplified)
+await writeFile(outFile, json)
+console.log(`saved ${features.length} ${objectName} to public/data/${outName} (${(json.length / 1024).toFixed(0)} KiB)`)
@@ -0,0 +1,18 @@
+// 歴史地図の GeoJSON を public/historical/ に取得して同梱する。
+// 出典: https://github.com/aourednik/historical-basemaps (GPL-3.0)
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const YEARS = [1914, 1938, 1945, 1960]
+const SOURCE_URL = 'https://raw.githubusercontent.com/aourednik/historical-basemaps/master/geojson'
+const outDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'historical')
+
+await mkdir(outDir, { recursive: true })
+for (const year of YEARS) {
+  const file = `world_${year}.geojson`
+  const res = await fetch(`${SOURCE_URL}/${file}`)
+  if (!res.ok) throw new Error(`${file} の取得に失敗しました (${res.status})`)
+  await writeFile(join(outDir, file), await res.text())
+  console.log(`saved ${file}`)
+}
@@ -0,0 +1,161 @@
+// AIヒント用の小さなプロキシサーバー。Gemini の API キーをサーバー側に置き、クライアントのバンドルに含めない。
+// 依存パッケージなしで動くので、Node.js が動く環境ならどこでも置ける（src/hintPrompts.json と一緒に置く）。
+// 任意の文章生成に使われないよう、クライアントからは国名・年代・言語などの材料だけを受け取り、
+// プロンプトはアプリと同じテンプレート（src/hintPrompts.json）からここで組み立てる。
+//
+// 使い方: GEMINI_API_KEY=... npm run hint-proxy
+//   PORT           待ち受けポート（既定 8787）
+//   GEMINI_MODEL   使うモデル（既定 gemini-2.5-flash-lite）
+//   ALLOWED_ORIGIN CORS で許可するオリジン（既定 http://localhost:5173）
+// クライアント側は .env に VITE_HINT_PROXY_URL=http://localhost:8787/hint を設定する
+import { readFile } from 'node:fs/promises'
+import { createServer } from 'node:http'
+
+const PORT = Number(process.env.PORT ?? 8787)
+const API_KEY = process.env.GEMINI_API_KEY
+const MODEL = process.env.GEMINI_MODEL ?? 'gemini-2.5-flash-lite'
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN ?? 'http://localhost:5173'
+const MAX_BODY_BYTES = 16 * 1024
+const PROMPTS = JSON.parse(await readFile(new URL('../src/hintPrompts.json', import.meta.url), 'utf8'))
+const LANGUAGES = ['ja', 'en']
+// 国名・宗主国名・答えに当たった語は、地名に使われる文字だけを許す（指示文を書き込めないように）
+const MAX_NAME_LENGTH = 60
+const NAME_PATTERN = /^[\p{L}\p{M}\p{N} .,'’()&-]+$/u
+const MAX_ISSUES = 10
+
+if (!API_KEY) {
+  console.error('GEMINI_API_KEY が設定されていません')
+  process.exit(1)
+}
+
+// 本文が MAX_BODY_BYTES を超えたときのエラー。413 を返す目印にする
+class BodyTooLargeError extends Error {}
+
+// 上限を超えたら読み込みをやめる。ソケットはここでは切らず、413 を送ってから閉じる
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let size = 0
+    const chunks = []
+    const onData = (chunk) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        req.off('data', onData)
+        req.pause()
+        reject(new BodyTooLargeError('Request body too large'))
+        return
+      }
+      chunks.push(chunk)
+    }
+    req.on('data', onData)
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    req.on('error', reject)
+  })
+
+const isName = (value) => typeof value === 'string' && value.length <= MAX_NAME_LENGTH && NAME_PATTERN.test(value)
+
+// 答えの語（detail）をプロンプトに入れるのは name・capital・demonym のときだけ
+const isIssue = (issue) =>
+  Object.hasOwn(PROMPTS.en.issues, issue?.kind) &&
+  (!['name', 'capital', 'demonym'].includes(issue.kind) || isName(issue.detail))
+
+// src/hints.ts の HintQuery
+const isQuery = ({ name, era, sovereign, language, subject, issues }) =>
+  isName(name) &&
+  (era === 'modern' || Number.isInteger(era)) &&
+  (sovereign === null || isName(sovereign)) &&
+  LANGUAGES.includes(language) &&
+  (subject === null || Object.hasOwn(PROMPTS.subjects, subject)) &&
+  Array.isArray(issues) &&
+  issues.length <= MAX_ISSUES &&
+  issues.every(isIssue)
+
+// src/hints.ts の buildHintPrompt と同じ組み立て
+const fillTemplate = (template, values) => template.replace(/\{(\w+)\}/g, (match, key) => String(values[key] ?? match))
+
+const buildCorrectionPrompt = (issues, language) => {
+  const texts = PROMPTS[language]
+  const reasons = new Set(
+    issues.map(({ kind, detail }) =>
+      ['name', 'capital', 'demonym'].includes(kind)
+        ? fillTemplate(texts.reason, { label: texts.issues[kind], detail })
+        : texts.issues[kind],
+    ),
+  )
+  return fillTemplate(texts.correction, { reasons: [...reasons].join(texts.reasonSeparator) })
+}
+
+const buildHintPrompt = ({ name, era, sovereign, language, subject, issues }) => {
+  const texts = PROMPTS[language]
+  const subjectTexts = subject ? PROMPTS.subjects[subject][language] : null
+  const noun = subjectTexts?.noun ?? texts.noun
+  const label = `${noun.charAt(0).toUpperCase()}${noun.slice(1)}`
+  const systemPrompt = fillTemplate(texts.system, {
+    levels: PROMPTS.levels,
+    noun,
+    eraInstruction: era === 'modern' ? '' : fillTemplate(texts.eraInstruction, { era }),
+    subjectInstruction: subjectTexts ? `\n${subjectTexts.instruction}` : '',
+  })
+  const userPrompt =
+    era === 'modern'
+      ? fillTemplate(texts.user, { label, name })
+      : fillTemplate(texts.historicalUser, { label, name, era }) +
+        (sovereign ? fillTemplate(texts.sovereign, { sovereign }) : '')
+  return {
+    systemPrompt,
+    userPrompt: issues.length > 0 ? `${userPrompt}\n${buildCorrectionPrompt(issues, language)}` : userPrompt,
+  }
+}
+
+// close を付けると、送り終えてから接続を閉じる（読み残した本文があるとき）
+const send = (res, status, body, { close = false } = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    ...(close ? { Connection: 'close' } : {}),
+  })
+  res.end(body === undefined ? undefined : JSON.stringify(body), () => {
+    if (close) res.socket?.destroy()
+  })
+}
+
+const generate = async (systemPrompt, userPrompt) => {
+  const res = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${MODEL}:generateContent`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-goog-api-key': API_KEY },
+    body: JSON.stringify({
+      contents: [{ parts: [{ text: userPrompt }] }],
+      systemInstruction: { parts: [{ text: systemPrompt }] },
+      generationConfig: { responseMimeType: 'application/json' },
+    }),
+  })
+  if (!res.ok) throw new Error(`Gemini request failed (${res.status})`)
+  const result = await res.json()
+  return result.candidates?.[0]?.content?.parts?.[0]?.text ?? null
+}
+
+createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204)
+  if (req.method !== 'POST' || req.url !== '/hint') return send(res, 404, { error: 'Not found' })
+  let body
+  try {
+    body = JSON.parse(await readBody(req))
+  } catch (err) {
+    if (err instanceof BodyTooLargeError) return send(res, 413, { error: 'Request body too large' }, { close: true })
+    if (err instanceof SyntaxError) return send(res, 400, { error: 'Invalid JSON' })
+    console.error('Hint proxy request error:', err)
+    return send(res, 400, { error: 'Invalid request' })
+  }
+  if (!isQuery(body ?? {})) return send(res, 400, { error: 'Invalid hint request' })
+  const { systemPrompt, userPrompt } = buildHintPrompt(body)
+  try {
+    // クライアントはモデル名をキャッシュのキーに使うので、設定と合っているか確かめられるよう返す
+    send(res, 200, { text: await generate(systemPrompt, userPrompt), model: MODEL })
+  } catch (err) {
+    console.error('Hint proxy error:', err)
+    send(res, 502, { error: 'Hint generation failed' })
+  }
+}).listen(PORT, () => {
+  console.log(`hint proxy listening on http://localhost:${PORT}/hint (model: ${MODEL})`)
+})
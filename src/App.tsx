@@ -10,746 +10,1509 @@ import {
   Maximize,
   Menu,
   Target,
+  Timer,
+  Trophy,
+  SlidersHorizontal,
+  BarChart3,
+  Compass,
 } from 'lucide-react'
-
-type Geometry =
-  | { type: 'Polygon'; coordinates: number[][][] }
-  | { type: 'MultiPolygon'; coordinates: number[][][][] }
-
-type GeoProperties = {
-  ADMIN?: string
-  name?: string
-  ISO_A3?: string
-  ISO_A2?: string
-  'ISO3166-1-Alpha-2'?: string
-  'ISO3166-1-Alpha-3'?: string
-}
-
-type GeoFeature = {
-  type: 'Feature'
-  geometry: Geometry
-  properties: GeoProperties
-}
-
-type RawGeoFeature = {
-  geometry?: Geometry | null
-  properties?: GeoProperties
-}
-
-type RawGeoCollection = {
-  type: 'FeatureCollection'
-  features: RawGeoFeature[]
-}
-
-type GeoCollection = {
-  type: 'FeatureCollection'
-  features: GeoFeature[]
-}
-
-type Hint = {
-  main_hint: string
-  summary: string
-}
-
-type Feedback = {
-  isCorrect: boolean
-  message: string
-}
-
-type PathDatum = {
-  id: string
-  name: string
-  d: string
-}
-
-const isGeometrySupported = (geometry: RawGeoFeature['geometry']): geometry is Geometry =>
-  Boolean(geometry && (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon'))
-
-const hasName = (properties?: GeoProperties) => Boolean(properties?.ADMIN || properties?.name)
-
-const getEnglishName = (properties: GeoProperties) => properties.ADMIN || properties.name || 'Unknown'
-
-const getCountryId = (properties: GeoProperties) =>
-  properties.ISO_A3 || properties['ISO3166-1-Alpha-3'] || properties.name || properties.ADMIN || 'unknown'
-
-const getJapaneseName = (properties: GeoProperties) => {
-  const rawRegion = properties['ISO3166-1-Alpha-2'] || properties.ISO_A2
-  const regionCode = rawRegion?.toUpperCase()
-  if (regionCode && /^[A-Z]{2}$/.test(regionCode) && typeof Intl.DisplayNames !== 'undefined') {
-    const display = new Intl.DisplayNames('ja', { type: 'region' }).of(regionCode)
-    if (display) return display
-  }
-  return getEnglishName(properties)
-}
-
-const extractPoints = (geometry: Geometry) => {
-  if (geometry.type === 'Polygon') return geometry.coordinates.flat()
-  return geometry.coordinates.flatMap((polygon) => polygon.flat())
-}
-
-const buildFallbackHint = (feature: GeoFeature): Hint => {
-  const points = extractPoints(feature.geometry)
-  const name = getJapaneseName(feature.properties)
-  if (points.length === 0) {
-    return {
-      summary: `${name} / 解説準備中`,
-      main_hint: `${name}の解説を表示するにはAIヒントを生成してください。`,
-    }
-  }
-  let minLat = Infinity
-  let maxLat = -Infinity
-  let minLon = Infinity
-  let maxLon = -Infinity
-  for (const [lon, lat] of points) {
-    minLat = Math.min(minLat, lat)
-    maxLat = Math.max(maxLat, lat)
-    minLon = Math.min(minLon, lon)
-    maxLon = Math.max(maxLon, lon)
-  }
-  const centerLat = (minLat + maxLat) / 2
-  const centerLon = (minLon + maxLon) / 2
-  const latLabel = centerLat >= 0 ? '北半球' : '南半球'
-  const lonLabel = centerLon >= 0 ? '東半球' : '西半球'
-  const extentArea = Math.abs((maxLat - minLat) * (maxLon - minLon))
-  const sizeLabel = extentArea < 20 ? '小さめ' : extentArea < 80 ? '中規模' : '広い'
-  const shapeLabel =
-    feature.geometry.type === 'MultiPolygon' && feature.geometry.coordinates.length > 1
-      ? '島が点在する国'
-      : 'ひと続きの陸地を持つ国'
-  return {
-    summary: `${name} / ${latLabel}・${lonLabel} / ${sizeLabel}`,
-    main_hint: `${name}は${latLabel}・${lonLabel}に位置し、${shapeLabel}で、${sizeLabel}な国です。`,
-  }
-}
-
-const isCoordinateHint = (value: string) =>
-  /緯度|経度|北緯|南緯|東経|西経|°/.test(value)
-
-const MAP_WIDTH = 800
-const MAP_HEIGHT = 400
-
-const project = (coords: number[]) => {
-  const lon = coords[0]
-  const lat = coords[1]
-  const x = (lon + 180) * (MAP_WIDTH / 360)
-  const y = (90 - lat) * (MAP_HEIGHT / 180)
-  return [x, y]
-}
-
-const getProjectedBounds = (feature: GeoFeature) => {
-  const points = extractPoints(feature.geometry)
-  if (points.length === 0) return null
-  let minX = Infinity
-  let maxX = -Infinity
-  let minY = Infinity
-  let maxY = -Infinity
-  for (const [lon, lat] of points) {
-    const [x, y] = project([lon, lat])
-    minX = Math.min(minX, x)
-    maxX = Math.max(maxX, x)
-    minY = Math.min(minY, y)
-    maxY = Math.max(maxY, y)
-  }
-  return { minX, maxX, minY, maxY }
-}
+import {
+  DEFAULT_SESSION_CONFIG,
+  MODE_OPTIONS,
+  ROUND_OPTIONS,
+  TIME_LIMIT_OPTIONS,
+  advanceQuestion,
+  createSession,
+  formatSeconds,
+  getCorrectPoints,
+  getElapsedMs,
+  getRemainingMs,
+  isSessionComplete,
+  recordAnswer,
+  resolveTotalRounds,
+  startQuestionTimer,
+  summarizeSession,
+  type Session,
+  type SessionConfig,
+} from './session.ts'
+import { drawNext, loadScheduler, recordReview, saveScheduler } from './deck.ts'
+import {
+  getAlpha2,
+  getCountryId,
+  getLocalizedName,
+  type GeoCollection,
+  type GeoFeature,
+} from './geo.ts'
+import { ERA_OPTIONS, loadGeoData, type MapEra } from './geoData.ts'
+import { PROJECTION_OPTIONS, getFocusCenter, type ProjectionId, type Rotation } from './projection.ts'
+import { CONTINENTS, SUBREGIONS, getContinent, type Continent } from './regions.ts'
+import {
+  DEFAULT_POOL_FILTER,
+  DIFFICULTIES,
+  filterPool,
+  getDifficultyTiers,
+  toggleValue,
+  type PoolFilter,
+} from './pool.ts'
+import {
+  getMastery,
+  getWeakestCountries,
+  loadProfile,
+  recordAttempt,
+  recordGame,
+  saveProfile,
+} from './profile.ts'
+import ProfilePanel from './ProfilePanel.tsx'
+import ProgressPanel from './ProgressPanel.tsx'
+import ExploreCard from './ExploreCard.tsx'
+import SilhouetteChoices from './SilhouetteChoices.tsx'
+import { pickSilhouetteChoices } from './silhouette.ts'
+import NameAnswerForm from './NameAnswerForm.tsx'
+import { buildNameIndex, matchCountryName } from './nameMatch.ts'
+import { buildAdjacency, getNeighbors } from './neighbors.ts'
+import { QUESTION_TYPE_OPTIONS, pickQuestionType, type QuestionType } from './questions.ts'
+import { getCapital } from './capitals.ts'
+import QuestionPrompt from './QuestionPrompt.tsx'
+import { ANSWER_COLORS, FEEDBACK_COLORS, MASTERY_COLORS } from './palette.ts'
+import { createHintProvider, getCachedHint, getHint, type Hint } from './hints.ts'
+import { buildHintLadder } from './hintLadder.ts'
+import { LOCALE_OPTIONS, LocaleContext, loadLocale, saveLocale } from './i18n.ts'
+import { MESSAGES } from './messages.ts'
+import WorldMap, { type CountryStyle, type WorldMapHandle } from './WorldMap.tsx'
+import { MAP_RENDERERS, type MapRenderer } from './mapGeometry.ts'
+import { MAP_INSETS } from './insets.ts'
+import { MAP_PACKS, MAP_PACK_OPTIONS, isPackMember, type MapPackId } from './mapPacks.ts'
+import {
+  DEFAULT_INCLUSION_POLICY,
+  INCLUSION_POLICIES,
+  isIncluded,
+  type InclusionPolicy,
+} from './countryRegistry.ts'
+import { getFirebaseSettings } from './firebaseConfig.ts'
+import { pickRoomQuestions, type Room } from './room.ts'
+import type { RoomClient } from './roomService.ts'
+import RoomPanel, { type RoomPanelError } from './RoomPanel.tsx'
+import RoomScoreboard from './RoomScoreboard.tsx'
+import { createRandom } from './random.ts'
+import {
+  buildChallengeUrl,
+  buildShareText,
+  createCustomChallenge,
+  createDailyChallenge,
+  getChallengeConfig,
+  getDateKey,
+  loadDailyStreak,
+  parseChallengeParams,
+  pickChallengeQuestions,
+  recordDailyCompletion,
+  saveDailyStreak,
+  type Challenge,
+  type ChallengeRun,
+} from './challenge.ts'
+import ChallengePanel from './ChallengePanel.tsx'
+import CopyButton from './CopyButton.tsx'
+import { measureProximity } from './proximity.ts'
 
 // --- Configuration ---
-// .env 設定方法:
+// .env 設定方法（README の「AIヒント」を参照）:
 // 1) プロジェクト直下に .env を作成
-// 2) VITE_GEMINI_API_KEY=あなたのAPIキー を追加
+// 2) VITE_HINT_PROXY_URL / VITE_OPENAI_BASE_URL / VITE_GEMINI_API_KEY のいずれかを追加
 // 3) 開発サーバー/ビルドを再起動
-const apiKey = import.meta.env.VITE_GEMINI_API_KEY ?? ''
-const MODEL_NAME = 'gemini-2.5-flash-lite'
-const GEO_DATA_URL =
-  'https://raw.githubusercontent.com/datasets/geo-countries/master/data/countries.geojson'
+const hintProvider = createHintProvider(import.meta.env)
+// マルチプレイ（README の「マルチプレイ」を参照）。未設定なら null でスタート画面に出さない
+const firebaseSettings = getFirebaseSettings(import.meta.env)
+// 挑戦状のリンクと共有する結果に載せる URL（クエリを除いたこのページ）
+const appUrl = `${window.location.origin}${window.location.pathname}`
+
+// 読み込み前も同じ配列を渡し、WorldMap の投影の再計算を避ける
+const NO_FEATURES: GeoFeature[] = []
 
 const App = () => {
-  const [view, setView] = useState<'start' | 'quiz'>('start')
+  const [locale, setLocale] = useState(loadLocale)
+  const t = MESSAGES[locale]
+  const [view, setView] = useState<'start' | 'quiz' | 'results' | 'progress' | 'explore'>('start')
+  const [packId, setPackId] = useState<MapPackId>('world')
+  const [era, setEra] = useState<MapEra>('modern')
   const [geoData, setGeoData] = useState<GeoCollection | null>(null)
   const [currentCountry, setCurrentCountry] = useState<GeoFeature | null>(null)
   const [hint, setHint] = useState<Hint | null>(null)
+  const [questionType, setQuestionType] = useState<QuestionType>('hint')
+  // シルエットモードの選択肢（正解を含む国の ID）
+  const [choiceIds, setChoiceIds] = useState<string[]>([])
+  // 開いたヒントの段（0 = 最初のヒントだけ）
+  const [hintLevel, setHintLevel] = useState(0)
   const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [feedback, setFeedback] = useState<Feedback | null>(null)
-  const [score, setScore] = useState(0)
+  const [loadFailed, setLoadFailed] = useState(false)
+  const [isRefreshingData, setIsRefreshingData] = useState(false)
+  const [dataNotice, setDataNotice] = useState<'refreshed' | 'refreshFailed' | null>(null)
+  const [sessionConfig, setSessionConfig] = useState<SessionConfig>(DEFAULT_SESSION_CONFIG)
+  const [session, setSession] = useState<Session>(() => createSession(DEFAULT_SESSION_CONFIG, 0))
+  const [now, setNow] = useState(() => Date.now())
+  const [scheduler, setScheduler] = useState(loadScheduler)
+  const [profile, setProfile] = useState(loadProfile)
+  const [poolFilter, setPoolFilter] = useState<PoolFilter>(DEFAULT_POOL_FILTER)
+  const [inclusionPolicy, setInclusionPolicy] = useState<InclusionPolicy>(DEFAULT_INCLUSION_POLICY)
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  // 苦手克服モードでは絞り込み設定より優先される
+  const [practicePool, setPracticePool] = useState<string[] | null>(null)
+  const [inspectedId, setInspectedId] = useState<string | null>(null)
   const [selectedId, setSelectedId] = useState<string | null>(null)
   const [isHintMinimized, setIsHintMinimized] = useState(false)
 
+  // --- Challenge State ---
+  // 出題中のデイリー・挑戦状。null は通常のゲーム
+  const [challengeRun, setChallengeRun] = useState<ChallengeRun | null>(null)
+  // リンクで届いた挑戦状、または自分で作った挑戦状
+  const [offeredChallenge, setOfferedChallenge] = useState(() => parseChallengeParams(window.location.search))
+  const [dailyStreak, setDailyStreak] = useState(loadDailyStreak)
+  const [todayKey] = useState(() => getDateKey(new Date()))
+
+  // --- Explore State ---
+  const [exploredId, setExploredId] = useState<string | null>(null)
+  // 表示中の国の AI の解説。key（年代・言語・国）が変わったら読み直す
+  const [exploreDescription, setExploreDescription] = useState<{ key: string; hint: Hint | null } | null>(null)
+  const [isDescribing, setIsDescribing] = useState(false)
+
   // --- Map State ---
-  const [transform, setTransform] = useState({ x: 0, y: 0, scale: 1.5 })
-  const [hoveredId, setHoveredId] = useState<string | null>(null)
-  const mapRef = useRef<HTMLDivElement | null>(null)
-  const pointers = useRef<Map<number, { x: number; y: number }>>(new Map())
-  const lastCenter = useRef<{ x: number; y: number } | null>(null)
-  const lastDist = useRef(0)
-  const dragState = useRef<{ start: { x: number; y: number } | null; moved: boolean }>({
-    start: null,
-    moved: false,
-  })
-  const suppressClick = useRef(false)
+  const [projectionId, setProjectionId] = useState<ProjectionId>('equirectangular')
+  const [mapRenderer, setMapRenderer] = useState<MapRenderer>('svg')
+  const [showInsets, setShowInsets] = useState(false)
+  const worldMapRef = useRef<WorldMapHandle | null>(null)
+
+  // --- Multiplayer Room ---
+  const [roomClient, setRoomClient] = useState<RoomClient | null>(null)
+  const [roomCode, setRoomCode] = useState<string | null>(null)
+  const [room, setRoom] = useState<Room | null>(null)
+  const [roomError, setRoomError] = useState<RoomPanelError | null>(null)
+  const [isConnectingRoom, setIsConnectingRoom] = useState(false)
+  // 画面に出したルームの問題番号。null はルームのゲームを始めていない
+  const shownRoomRound = useRef<number | null>(null)
+  const isRoomHost = room !== null && room.hostId === roomClient?.playerId
+
+  // ルームのゲーム中は、ホストが開始時に決めた地図パックと年代で遊ぶ。終わったら次のゲームのために自分の設定へ戻す
+  const roomSettings = room?.status === 'playing' ? room.settings : null
+  const pack = MAP_PACKS[roomSettings?.packId ?? packId]
+  // 年代を選べるのは世界の国境データだけ
+  const mapEra: MapEra = pack.dataset === 'countries' ? (roomSettings?.era ?? era) : 'modern'
 
   // --- Data Fetching ---
   useEffect(() => {
+    let cancelled = false
     const fetchGeoData = async () => {
       setLoading(true)
-      setError(null)
+      setLoadFailed(false)
+      setGeoData(null)
       try {
-        const res = await fetch(GEO_DATA_URL)
-        if (!res.ok) throw new Error('地図データの取得に失敗しました')
-        const data = (await res.json()) as RawGeoCollection
-        
-        // 除外リスト: 係争地域・非独立国・海外領土
-        const excludeList = new Set([
-          // 係争地域
-          'Scarborough Reef',
-          'Spratly Islands', 
-          'Paracel Islands',
-          'Siachen Glacier',
-          // 海外領土・従属地域
-          'Saint Helena',
-          'Ascension Island',
-          'Tristan da Cunha',
-          'Greenland',
-          'Faroe Islands',
-          'French Guiana',
-          'Guadeloupe',
-          'Martinique',
-          'Réunion',
-          'Mayotte',
-          'Saint Pierre and Miquelon',
-          'New Caledonia',
-          'French Polynesia',
-          'Wallis and Futuna',
-          'Puerto Rico',
-          'U.S. Virgin Islands',
-          'American Samoa',
-          'Guam',
-          'Northern Mariana Islands',
-          'Gibraltar',
-          'Falkland Islands',
-          'Bermuda',
-          'Cayman Islands',
-          'British Virgin Islands',
-          'Turks and Caicos Islands',
-          'Anguilla',
-          'Montserrat',
-          'Pitcairn Islands',
-          'Aruba',
-          'Curaçao',
-          'Sint Maarten',
-          'Caribbean Netherlands',
-          'Cook Islands',
-          'Niue',
-          'Tokelau',
-          'Hong Kong',
-          'Macao',
-          'Indian Ocean Territories',
-          'Ashmore and Cartier Islands',
-          'Coral Sea Islands',
-          'Christmas Island',
-          'Cocos Islands',
-          'Norfolk Island',
-          'Heard Island and McDonald Islands',
-          'Svalbard',
-          'Jan Mayen',
-          'Bouvet Island',
-          'Akrotiri',
-          'Dhekelia',
-        ])
-        
-        const valid = (data.features ?? [])
-          .map((feature): GeoFeature | null => {
-            if (!isGeometrySupported(feature.geometry) || !hasName(feature.properties)) return null
-            
-            const name = feature.properties?.ADMIN || feature.properties?.name || ''
-            const iso3 = feature.properties?.ISO_A3 || feature.properties?.['ISO3166-1-Alpha-3'] || ''
-            
-            // 除外リストに含まれる or ISO_A3が無効 ("-99"など)
-            if (excludeList.has(name) || iso3 === '-99' || iso3 === '-1') return null
-            
-            return {
-              type: 'Feature',
-              geometry: feature.geometry,
-              properties: feature.properties ?? {},
-            }
-          })
-          .filter((feature): feature is GeoFeature => feature !== null)
-        setGeoData({ type: 'FeatureCollection', features: valid })
+        const data = await loadGeoData(mapEra, 'bundled', pack)
+        if (cancelled) return
+        setGeoData(data)
+        // 地図パックを切り替えたら、その範囲が収まる位置から始める
+        worldMapRef.current?.reset()
       } catch (err) {
-        const message = err instanceof Error ? err.message : '地図データの取得に失敗しました'
-        setError(message)
+        if (!cancelled) setLoadFailed(true)
         console.error('Map data fetch error:', err)
       } finally {
-        setLoading(false)
+        if (!cancelled) setLoading(false)
       }
     }
     fetchGeoData()
-  }, [])
-
-  const pathData = useMemo<PathDatum[]>(() => {
-    if (!geoData || !geoData.features) return []
-    return geoData.features.flatMap((feature) => {
-      const { type, coordinates } = feature.geometry
-      const renderPolygon = (poly: number[][][]) =>
-        poly.map((ring) => `M${ring.map((point) => project(point).join(',')).join(' L')}Z`).join(' ')
-      let d = ''
-      if (type === 'Polygon') d = renderPolygon(coordinates)
-      else if (type === 'MultiPolygon') d = coordinates.map(renderPolygon).join(' ')
-      if (!d) return []
-      return [
-        {
-          id: getCountryId(feature.properties),
-          name: getJapaneseName(feature.properties),
-          d,
-        },
-      ]
-    })
-  }, [geoData])
-
-  // --- Interaction Logic ---
-  const getCenter = (pts: Map<number, { x: number; y: number }>) => {
-    const arr = Array.from(pts.values())
-    if (arr.length === 1) return { x: arr[0].x, y: arr[0].y }
-    if (arr.length >= 2) return { x: (arr[0].x + arr[1].x) / 2, y: (arr[0].y + arr[1].y) / 2 }
-    return { x: 0, y: 0 }
-  }
+    return () => {
+      cancelled = true
+    }
+  }, [mapEra, pack])
 
-  const getDist = (pts: Map<number, { x: number; y: number }>) => {
-    const arr = Array.from(pts.values())
-    if (arr.length < 2) return 0
-    return Math.hypot(arr[0].x - arr[1].x, arr[0].y - arr[1].y)
-  }
+  // 言語を切り替えても読み込み失敗の表示が追従するよう、メッセージは描画時に組み立てる
+  const error = loadFailed ? (mapEra === 'modern' ? t.mapLoadFailed : t.historicalMapMissing(mapEra)) : null
 
-  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
-    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
-    lastCenter.current = getCenter(pointers.current)
-    if (pointers.current.size === 2) lastDist.current = getDist(pointers.current)
-    if (pointers.current.size === 1) {
-      dragState.current = { start: { x: e.clientX, y: e.clientY }, moved: false }
-    } else {
-      dragState.current.moved = true
-    }
-    const target = e.target as Element | null
-    if (target?.setPointerCapture) {
-      target.setPointerCapture(e.pointerId)
-    } else {
-      e.currentTarget.setPointerCapture(e.pointerId)
+  useEffect(() => {
+    saveLocale(locale)
+    document.documentElement.lang = locale
+  }, [locale])
+
+  // 同梱データは簡略化済みで更新も遅れるので、配布元の最新データに差し替えられるようにする（このセッションのみ）
+  const refreshGeoData = async () => {
+    setIsRefreshingData(true)
+    setDataNotice(null)
+    try {
+      const data = await loadGeoData('modern', 'remote', pack)
+      setGeoData(data)
+      setDataNotice('refreshed')
+    } catch (err) {
+      setDataNotice('refreshFailed')
+      console.error('Map data refresh error:', err)
+    } finally {
+      setIsRefreshingData(false)
     }
   }
 
-  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
-    if (!pointers.current.has(e.pointerId) || !lastCenter.current || !mapRef.current) return
-    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
-    const center = getCenter(pointers.current)
-
-    if (pointers.current.size === 1) {
-      const dx = center.x - lastCenter.current.x
-      const dy = center.y - lastCenter.current.y
-      const start = dragState.current.start
-      if (start && !dragState.current.moved) {
-        const movedDist = Math.hypot(e.clientX - start.x, e.clientY - start.y)
-        if (movedDist > 6) dragState.current.moved = true
-      }
-      
-      // viewBox方式では、画面座標の移動量をスケールに応じて変換
-      const rect = mapRef.current.getBoundingClientRect()
-      const svgDx = (dx / rect.width) * (800 / transform.scale) * transform.scale
-      const svgDy = (dy / rect.height) * (400 / transform.scale) * transform.scale
-      
-      setTransform((prev) => ({ ...prev, x: prev.x + svgDx, y: prev.y + svgDy }))
-    } else if (pointers.current.size === 2) {
-      dragState.current.moved = true
-      const dist = getDist(pointers.current)
-      if (lastDist.current > 0 && mapRef.current) {
-        const rect = mapRef.current.getBoundingClientRect()
-        const cx = center.x - rect.left
-        const cy = center.y - rect.top
-        
-        // 画面座標をSVG座標に変換
-        const svgX = (cx / rect.width) * (800 / transform.scale) + (-transform.x / transform.scale)
-        const svgY = (cy / rect.height) * (400 / transform.scale) + (-transform.y / transform.scale)
-        
-        const scaleFactor = dist / lastDist.current
-        setTransform((prev) => {
-          const nextScale = Math.max(1.5, Math.min(20, prev.scale * scaleFactor))
-          
-          // SVG座標を保持
-          const newX = -(svgX - (cx / rect.width) * (800 / nextScale)) * nextScale
-          const newY = -(svgY - (cy / rect.height) * (400 / nextScale)) * nextScale
-          
-          return {
-            scale: nextScale,
-            x: newX,
-            y: newY,
-          }
+  const resetView = () => worldMapRef.current?.reset()
+
+  // --- Quiz Logic ---
+  // 最後に始めたヒントの取得の番号。次の問題へ進んだあとに届いた前の国のヒントは捨てる
+  const hintRequest = useRef(0)
+
+  const generateAIHint = useCallback(
+    async (feature: GeoFeature, mapEra: MapEra) => {
+      const request = ++hintRequest.current
+      setLoading(true)
+      setHint(null)
+      try {
+        const next = await getHint(hintProvider, {
+          feature,
+          era: mapEra,
+          language: locale,
+          subject: pack.hintSubject,
         })
+        if (request === hintRequest.current) setHint(next)
+      } finally {
+        if (request === hintRequest.current) setLoading(false)
       }
-      lastDist.current = dist
-    }
-    lastCenter.current = center
-  }
+    },
+    [locale, pack],
+  )
 
-  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
-    pointers.current.delete(e.pointerId)
-    if (dragState.current.moved) {
-      suppressClick.current = true
-    }
-    if (pointers.current.size === 1) lastCenter.current = getCenter(pointers.current)
-    if (pointers.current.size === 0) {
-      lastCenter.current = null
-      dragState.current = { start: null, moved: false }
-    } else if (pointers.current.size === 1) {
-      dragState.current = { start: getCenter(pointers.current), moved: false }
-    }
-  }
+  const feedback = session.feedback
+  const questionStartedAt = session.questionStartedAt
+  const timeLimitSec = session.config.timeLimitSec
+  const remainingMs = getRemainingMs(session, now)
+  const featureById = useMemo(
+    () => new Map((geoData?.features ?? []).map((feature) => [getCountryId(feature.properties), feature])),
+    [geoData],
+  )
 
-  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
-    if (!mapRef.current) return
-    e.preventDefault()
-    const rect = mapRef.current.getBoundingClientRect()
-    const cx = e.clientX - rect.left
-    const cy = e.clientY - rect.top
-    
-    // 画面座標をSVG座標に変換
-    const svgX = (cx / rect.width) * (800 / transform.scale) + (-transform.x / transform.scale)
-    const svgY = (cy / rect.height) * (400 / transform.scale) + (-transform.y / transform.scale)
-    
-    // デバイス判定: タッチデバイスかPCか
-    const isTouchDevice = window.matchMedia('(pointer: coarse)').matches || navigator.maxTouchPoints > 0
-    const sensitivity = isTouchDevice ? 0.012 : 0.005
-    
-    const zoomFactor = Math.exp(-e.deltaY * sensitivity)
-    setTransform((prev) => {
-      const nextScale = Math.max(1.5, Math.min(20, prev.scale * zoomFactor))
-      
-      // SVG座標を保持したまま、新しいtransformを計算
-      const newX = -(svgX - (cx / rect.width) * (800 / nextScale)) * nextScale
-      const newY = -(svgY - (cy / rect.height) * (400 / nextScale)) * nextScale
-      
-      return {
-        scale: nextScale,
-        x: newX,
-        y: newY,
-      }
+  const difficultyTiers = useMemo(() => getDifficultyTiers(geoData?.features ?? []), [geoData])
+
+  // 地域の対応表は現代の国の ISO コード前提なので、歴史地図や都道府県・州では難易度だけで絞り込む
+  const canFilterByRegion = packId === 'world' && mapEra === 'modern'
+  const effectiveFilter = useMemo(
+    () => (canFilterByRegion ? poolFilter : { ...poolFilter, continents: [], subregions: [] }),
+    [canFilterByRegion, poolFilter],
+  )
+
+  // 現代の国境データでは、海外領土や承認が限られる国を出すかをプレイヤーが選ぶ
+  const isPlayable = useCallback(
+    (id: string, policy: InclusionPolicy) =>
+      pack.dataset !== 'countries' || mapEra !== 'modern' || isIncluded(id, policy),
+    [pack, mapEra],
+  )
+
+  // 出題対象は地図パックの対象で絞り込み後の国だけ。地図の描画は全ての国を対象にする
+  const poolIds = useMemo(
+    () =>
+      filterPool(geoData?.features ?? [], effectiveFilter, difficultyTiers)
+        .map((feature) => getCountryId(feature.properties))
+        .filter((id) => isPackMember(pack, id) && isPlayable(id, inclusionPolicy)),
+    [geoData, effectiveFilter, difficultyTiers, pack, isPlayable, inclusionPolicy],
+  )
+
+  const questionPool = practicePool ?? poolIds
+
+  const adjacency = useMemo(() => buildAdjacency(geoData?.features ?? []), [geoData])
+
+  // シルエットモードの外れの選択肢は、絞り込みに関わらず出題できる国から選ぶ
+  const choiceFeatures = useMemo(
+    () =>
+      (geoData?.features ?? []).filter((feature) => {
+        const id = getCountryId(feature.properties)
+        return isPackMember(pack, id) && isPlayable(id, inclusionPolicy)
+      }),
+    [geoData, pack, isPlayable, inclusionPolicy],
+  )
+
+  const nameIndex = useMemo(() => buildNameIndex(geoData?.features ?? []), [geoData])
+  const nameSuggestions = useMemo(
+    () =>
+      Array.from(
+        new Set((geoData?.features ?? []).map((feature) => getLocalizedName(feature.properties, locale))),
+      ).sort((a, b) => a.localeCompare(b, locale)),
+    [geoData, locale],
+  )
+
+  const practiceIds = useMemo(
+    () => getWeakestCountries(profile, 10).map(([id]) => id).filter((id) => featureById.has(id)),
+    [profile, featureById],
+  )
+
+  const toggleContinent = (continent: Continent) =>
+    setPoolFilter((prev) => {
+      const continents = toggleValue(prev.continents, continent)
+      const subregions = prev.subregions.filter((id) =>
+        SUBREGIONS.some((subregion) => subregion.id === id && continents.includes(subregion.continent)),
+      )
+      return { ...prev, continents, subregions }
     })
-  }
 
-  const resetView = () => setTransform({ x: 0, y: 0, scale: 1.5 })
+  useEffect(() => {
+    saveScheduler(scheduler)
+  }, [scheduler])
 
-  // --- Quiz Logic ---
-  const generateAIHint = useCallback(async (feature: GeoFeature) => {
-    setLoading(true)
-    setHint(null)
-    const countryName = getEnglishName(feature.properties)
-    const systemPrompt = `地理専門家として、指定国について簡潔な2文解説を生成。
-    国名は必ず含める。緯度経度に触れない。
-    歴史・文化・地形から1～2項目で、100文字以内。
-    JSONのみ: {"main_hint": "簡潔な解説", "summary": "短いキャッチ"}` 
+  useEffect(() => {
+    saveProfile(profile)
+  }, [profile])
 
-    try {
-      if (!apiKey) {
-        setHint(buildFallbackHint(feature))
-        return
-      }
-      const res = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${MODEL_NAME}:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: `国: ${countryName}` }] }],
-            systemInstruction: { parts: [{ text: systemPrompt }] },
-            generationConfig: { responseMimeType: 'application/json' },
-          }),
-        },
+  useEffect(() => {
+    saveDailyStreak(dailyStreak)
+  }, [dailyStreak])
+
+  const getCountryName = useCallback(
+    (countryId: string) => {
+      const feature = featureById.get(countryId)
+      return feature ? getLocalizedName(feature.properties, locale) : countryId
+    },
+    [featureById, locale],
+  )
+
+  const hintLadder = useMemo(() => {
+    if (!hint || !currentCountry) return []
+    const countryId = getCountryId(currentCountry.properties)
+    return buildHintLadder(
+      hint,
+      {
+        countryId,
+        capital: getCapital(countryId, locale),
+        neighborNames: getNeighbors(adjacency, countryId).map(getCountryName),
+      },
+      t,
+      locale,
+    )
+  }, [hint, currentCountry, adjacency, getCountryName, t, locale])
+  const revealedHints = hintLadder.slice(0, hintLevel + 1)
+  // ヒントの最後の段まで開いたら、正解の国がある大陸を地図上で強調する
+  const highlightedContinent =
+    currentCountry && revealedHints.some((step) => step.kind === 'highlight')
+      ? getContinent(getCountryId(currentCountry.properties))
+      : null
+  const isLadderQuestion = session.config.mode === 'click' && questionType === 'hint'
+  // 国を選んで答えられる画面だけ、各国をキーボード・スクリーンリーダーから操作できるようにする
+  const isMapInteractive =
+    view === 'progress' || view === 'explore' || (view === 'quiz' && session.config.mode === 'click')
+  const hintsUsed = isLadderQuestion ? hintLevel : 0
+
+  // ルームやチャレンジでは全員が同じお題・選択肢になるよう、問題ごとに決まった random を渡す
+  const presentQuestion = useCallback(
+    (feature: GeoFeature, config: SessionConfig, random?: () => number) => {
+      setCurrentCountry(feature)
+      setSession((prev) => advanceQuestion(prev))
+      setSelectedId(null)
+      setIsHintMinimized(false)
+      setHintLevel(0)
+      // 名前入力モードのヒントは国名を含むため出さない
+      const type =
+        config.mode === 'click' ? pickQuestionType(config.questionType, feature, adjacency, random) : 'hint'
+      setQuestionType(type)
+      setChoiceIds(
+        config.mode === 'silhouette' ? pickSilhouetteChoices(feature, choiceFeatures, adjacency, random) : [],
       )
-      const result = (await res.json()) as {
-        candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>
+      if (config.mode === 'click' && type === 'hint') {
+        generateAIHint(feature, mapEra)
+      } else {
+        // 取得中のヒントがあっても、この問題には出さない
+        hintRequest.current++
+        setHint(null)
+        setLoading(false)
       }
-      const text = result.candidates?.[0]?.content?.parts?.[0]?.text
-      if (text) {
-        const parsed = JSON.parse(text) as Hint
-        if (isCoordinateHint(parsed.main_hint) || isCoordinateHint(parsed.summary)) {
-          setHint(buildFallbackHint(feature))
-        } else {
-          setHint(parsed)
+    },
+    [adjacency, choiceFeatures, mapEra, generateAIHint],
+  )
+
+  const startNewQuestion = useCallback(() => {
+    // チャレンジは開始時に決めた順に出す
+    if (challengeRun) {
+      const round = session.answers.length
+      const feature = featureById.get(challengeRun.questionIds[round])
+      if (feature) presentQuestion(feature, session.config, createRandom(`${challengeRun.challenge.seed}:${round}`))
+      return
+    }
+    if (questionPool.length === 0) return
+    const previousId = currentCountry ? getCountryId(currentCountry.properties) : null
+    const next = drawNext(scheduler, questionPool, { exclude: previousId })
+    const feature = next.id ? featureById.get(next.id) : undefined
+    if (!feature) return
+    setScheduler(next.state)
+    presentQuestion(feature, session.config)
+  }, [challengeRun, featureById, questionPool, currentCountry, scheduler, session, presentQuestion])
+
+  // ルームの問題はホストが進める。問題番号が変わったら、全員の画面に同じ国を同じお題で出す
+  const syncRoomQuestion = useCallback(
+    (current: Room) => {
+      if (current.status !== 'playing' || !current.settings) {
+        // 最後の問題に答えないうちにホストが終えたら、そのまま結果へ
+        if (current.status === 'finished' && shownRoomRound.current !== null && !isSessionComplete(session)) {
+          setView('results')
         }
+        shownRoomRound.current = null
+        return
+      }
+      if (shownRoomRound.current === current.round) return
+      const feature = featureById.get(current.questionIds[current.round])
+      // 参加者の端末でホストの地図パックを読み込み終えるまで待つ
+      if (!feature) return
+      const config: SessionConfig = {
+        mode: 'click',
+        questionType: current.settings.questionType,
+        rounds: 'all',
+        timeLimitSec: current.settings.timeLimitSec,
+      }
+      if (shownRoomRound.current === null) {
+        setPracticePool(null)
+        setChallengeRun(null)
+        setSession(createSession(config, current.questionIds.length))
+        resetView()
+        setView('quiz')
       }
-    } catch (e) {
-      console.error('AI hint error:', e)
-      setHint(buildFallbackHint(feature))
+      shownRoomRound.current = current.round
+      presentQuestion(feature, config, createRandom(`${current.code}:${current.round}`))
+    },
+    [featureById, session, presentQuestion],
+  )
+
+  useEffect(() => {
+    if (room) syncRoomQuestion(room)
+  }, [room, syncRoomQuestion])
+
+  useEffect(() => {
+    if (!roomClient || !roomCode) return
+    return roomClient.subscribe(roomCode, (next) => {
+      setRoom(next)
+      if (next) return
+      // ホストが退出してルームが消えた
+      shownRoomRound.current = null
+      setRoomCode(null)
+      setRoomError('closed')
+    })
+  }, [roomClient, roomCode])
+
+  // firebase の SDK はマルチプレイを使うときに初めて読み込む
+  const withRoomClient = async (action: (client: RoomClient) => Promise<void>) => {
+    if (!firebaseSettings) return
+    setIsConnectingRoom(true)
+    setRoomError(null)
+    try {
+      const { connectRoomClient } = await import('./roomService.ts')
+      const client = await connectRoomClient(firebaseSettings)
+      setRoomClient(client)
+      await action(client)
+    } catch (err) {
+      console.error('Room connection error:', err)
+      setRoomError('unavailable')
     } finally {
-      setLoading(false)
+      setIsConnectingRoom(false)
     }
-  }, [])
+  }
 
-  const startNewQuestion = useCallback(() => {
-    if (!geoData) return
-    const random = geoData.features[Math.floor(Math.random() * geoData.features.length)]
-    setCurrentCountry(random)
-    setFeedback(null)
+  const createRoom = (name: string) =>
+    withRoomClient(async (client) => {
+      setRoomCode(await client.createRoom(name))
+    })
+
+  const joinRoom = (code: string, name: string) =>
+    withRoomClient(async (client) => {
+      const joinError = await client.joinRoom(code, name)
+      if (joinError) setRoomError(joinError)
+      else setRoomCode(code)
+    })
+
+  const startRoomGame = () => {
+    // 問題は読み込み済みの地図データから選ぶので、送る地図パックと年代もそのデータに揃える
+    if (!room || !roomClient || poolIds.length === 0) return
+    const questionIds = pickRoomQuestions(poolIds, resolveTotalRounds(sessionConfig.rounds, poolIds.length))
+    roomClient
+      .startRoom(
+        room.code,
+        {
+          packId: pack.id,
+          era: mapEra,
+          questionType: sessionConfig.questionType,
+          timeLimitSec: sessionConfig.timeLimitSec,
+        },
+        questionIds,
+      )
+      .catch((err) => console.error('Room start error:', err))
+  }
+
+  const leaveRoom = () => {
+    if (!room || !roomClient) return
+    const current = room
+    shownRoomRound.current = null
+    setRoomCode(null)
+    setRoom(null)
+    roomClient
+      .leaveRoom(current)
+      .catch((err) => console.error('Room leave error:', err))
+      // 自分が閉じたルームを「ホストが閉じた」と表示しない
+      .finally(() => setRoomError(null))
+  }
+
+  const startGame = (practice: string[] | null) => {
+    const pool = practice ?? poolIds
+    if (pool.length === 0) return
+    setPracticePool(practice)
+    setChallengeRun(null)
+    setSession(createSession(sessionConfig, pool.length))
+    setCurrentCountry(null)
     setSelectedId(null)
-    setIsHintMinimized(false)
-    generateAIHint(random)
-  }, [geoData, generateAIHint])
+    resetView()
+    setView('quiz')
+  }
+
+  // チャレンジは世界の国・現代の地図で、その日・そのリンクの種から問題を決める
+  const canPlayChallenge = pack.id === 'world' && mapEra === 'modern' && geoData !== null
+
+  const startChallenge = (challenge: Challenge) => {
+    // 誰が開いても同じ問題になるよう、出題する国の方針は既定のものに固定する
+    const challengePool = filterPool(geoData?.features ?? [], challenge.filter, difficultyTiers)
+      .map((feature) => getCountryId(feature.properties))
+      .filter((id) => isPlayable(id, DEFAULT_INCLUSION_POLICY))
+    const questionIds = pickChallengeQuestions(challengePool, challenge.seed)
+    if (questionIds.length === 0) return
+    setPracticePool(null)
+    setChallengeRun({ challenge, questionIds })
+    setSession(createSession(getChallengeConfig(challenge), questionIds.length))
+    setCurrentCountry(null)
+    setSelectedId(null)
+    resetView()
+    setView('quiz')
+  }
 
   useEffect(() => {
-    if (view === 'quiz' && geoData && !currentCountry) {
+    if (view === 'quiz' && !room && (challengeRun || questionPool.length > 0) && !currentCountry) {
       startNewQuestion()
     }
-  }, [view, geoData, currentCountry, startNewQuestion])
+  }, [view, room, challengeRun, questionPool, currentCountry, startNewQuestion])
+
+  // ヒントが表示された時点から回答時間を計測
+  useEffect(() => {
+    if (view !== 'quiz' || !currentCountry || loading || feedback || questionStartedAt !== null) return
+    const startedAt = Date.now()
+    setNow(startedAt)
+    setSession((prev) => startQuestionTimer(prev, startedAt))
+  }, [view, currentCountry, loading, feedback, questionStartedAt])
+
+  // selected が null の場合は時間切れ、または入力した名前がどの国にも当たらなかった
+  const answerQuestion = useCallback(
+    (selected: { id: string; name: string } | null, timedOut = false) => {
+      if (!currentCountry || feedback) return
+      const correctName = getLocalizedName(currentCountry.properties, locale)
+      const targetId = getCountryId(currentCountry.properties)
+      const isCorrect = selected?.id === targetId
+      const message = timedOut
+        ? t.timedOutMessage(correctName)
+        : isCorrect
+          ? t.correctMessage
+          : !selected
+            ? t.wrongMessage(correctName)
+            : session.config.mode !== 'click'
+              ? t.wrongTypedMessage(selected.name, correctName)
+              : t.wrongClickedMessage(selected.name, correctName)
+      const elapsedMs = getElapsedMs(session, Date.now())
+      const selectedCountryId = selected?.id ?? null
+      const selectedFeature = selectedCountryId ? featureById.get(selectedCountryId) : undefined
+      const proximity =
+        selectedFeature && !isCorrect ? measureProximity(selectedFeature, currentCountry, adjacency) : null
+      setSelectedId(selectedCountryId)
+      const roomRound = shownRoomRound.current
+      if (room && roomClient && roomRound !== null) {
+        roomClient
+          .submitAnswer(room.code, roomRound, { countryId: selectedCountryId, isCorrect })
+          .catch((err) => console.error('Room answer error:', err))
+      }
+      setScheduler((prev) => recordReview(prev, targetId, isCorrect))
+      setProfile((prev) =>
+        recordAttempt(prev, { countryId: targetId, isCorrect, elapsedMs, selectedId: selectedCountryId }),
+      )
+      setSession((prev) =>
+        recordAnswer(
+          prev,
+          {
+            countryId: targetId,
+            countryName: correctName,
+            selectedId: selectedCountryId,
+            selectedName: selected?.name ?? null,
+            isCorrect,
+            timedOut,
+            elapsedMs,
+            hintsUsed,
+          },
+          message,
+          proximity,
+        ),
+      )
+    },
+    [currentCountry, feedback, session, hintsUsed, locale, t, featureById, adjacency, room, roomClient],
+  )
+
+  useEffect(() => {
+    if (view !== 'quiz' || timeLimitSec === null || questionStartedAt === null || feedback) return
+    const timer = window.setInterval(() => {
+      const current = Date.now()
+      setNow(current)
+      if (current - questionStartedAt >= timeLimitSec * 1000) answerQuestion(null, true)
+    }, 200)
+    return () => window.clearInterval(timer)
+  }, [view, timeLimitSec, questionStartedAt, feedback, answerQuestion])
 
   const handleCountryClick = (id: string, name: string) => {
-    if (feedback || loading || pointers.current.size > 1 || !currentCountry) return
-    if (suppressClick.current) {
-      suppressClick.current = false
+    if (view === 'progress') {
+      setInspectedId(id)
       return
     }
-    const correctName = getJapaneseName(currentCountry.properties)
-    const targetId = getCountryId(currentCountry.properties)
-    if (!targetId) return
-    const isCorrect = id === targetId
-
-    setSelectedId(id)
-    setFeedback({
-      isCorrect,
-      message: isCorrect
-        ? '正解！'
-        : `違います。そこは「${name}」です。正解の「${correctName}」はここでした。`,
+    if (view === 'explore') {
+      setExploredId(id)
+      return
+    }
+    if (view !== 'quiz' || session.config.mode !== 'click') return
+    if (feedback || loading || !currentCountry) return
+    answerQuestion({ id, name })
+  }
+
+  const handleTypedAnswer = (value: string) => {
+    if (!currentCountry) return
+    const match = matchCountryName(value, nameIndex, getCountryId(currentCountry.properties))
+    answerQuestion(match ? { id: match.id, name: getCountryName(match.id) } : null)
+  }
+
+  // ルームではホストだけが全員の問題を進める。参加者は最後の問題のあとで結果へ進める
+  const canGoNext = !room || isRoomHost || isSessionComplete(session)
+
+  // 挑戦状はリンクごと、デイリーはページの URL を添えて共有する
+  const shareText = challengeRun
+    ? buildShareText(
+        challengeRun.challenge,
+        session.answers,
+        session.score,
+        challengeRun.challenge.kind === 'custom' ? buildChallengeUrl(challengeRun.challenge, appUrl) : appUrl,
+      )
+    : ''
+
+  const handleNext = () => {
+    if (room && isRoomHost) roomClient?.advanceRoom(room).catch((err) => console.error('Room advance error:', err))
+    if (isSessionComplete(session)) {
+      setProfile((prev) => recordGame(prev, session.score))
+      const dailyDate = challengeRun?.challenge.date
+      if (dailyDate) setDailyStreak((prev) => recordDailyCompletion(prev, dailyDate))
+      setView('results')
+      return
+    }
+    if (!room) startNewQuestion()
+  }
+
+  const summary = useMemo(() => summarizeSession(session), [session])
+
+  // --- Explore ---
+  const exploredFeature = view === 'explore' && exploredId ? (featureById.get(exploredId) ?? null) : null
+  const exploreKey = exploredFeature ? [mapEra, locale, exploredId].join(':') : null
+
+  // 解説は AI を呼ばずにキャッシュから読む。無ければカードのボタンで作る
+  useEffect(() => {
+    if (!exploredFeature || !exploreKey) return
+    let cancelled = false
+    getCachedHint(hintProvider, {
+      feature: exploredFeature,
+      era: mapEra,
+      language: locale,
+      subject: pack.hintSubject,
+    }).then((hint) => {
+      if (!cancelled) setExploreDescription({ key: exploreKey, hint })
     })
+    return () => {
+      cancelled = true
+    }
+  }, [exploredFeature, exploreKey, mapEra, locale, pack])
 
-    if (isCorrect) setScore((prev) => prev + 10)
+  const describeExplored = async () => {
+    if (!exploredFeature || !exploreKey) return
+    setIsDescribing(true)
+    try {
+      const hint = await getHint(hintProvider, {
+        feature: exploredFeature,
+        era: mapEra,
+        language: locale,
+        subject: pack.hintSubject,
+      })
+      setExploreDescription({ key: exploreKey, hint })
+    } finally {
+      setIsDescribing(false)
+    }
+  }
+
+  const exploreNeighbor = (id: string) => {
+    setExploredId(id)
+    worldMapRef.current?.flyTo(id, { padding: 80 })
   }
 
   useEffect(() => {
-    if (!feedback || !currentCountry || !mapRef.current) return
+    if (!feedback || !currentCountry) return
+    // 近くの国と間違えたときは、選んだ国と正解の国の両方が見えるように寄せる
     const targetId = getCountryId(currentCountry.properties)
-    const raf = requestAnimationFrame(() => {
-      const svg = mapRef.current?.querySelector('svg')
-      if (!svg) return
-      const path = svg.querySelector(`path[data-country-id="${targetId}"]`) as SVGGraphicsElement | null
-      let bounds = null as { minX: number; maxX: number; minY: number; maxY: number } | null
-      if (path) {
-        const bbox = path.getBBox()
-        bounds = {
-          minX: bbox.x,
-          maxX: bbox.x + bbox.width,
-          minY: bbox.y,
-          maxY: bbox.y + bbox.height,
-        }
-      } else {
-        bounds = getProjectedBounds(currentCountry)
+    worldMapRef.current?.flyTo(feedback.proximity && selectedId ? [targetId, selectedId] : targetId, { padding: 40 })
+  }, [feedback, currentCountry, selectedId])
+
+  // 名前入力モードでは出題と同時に対象の国へ寄せる。周辺国も見えるよう余白を広めに取る
+  useEffect(() => {
+    if (view !== 'quiz' || session.config.mode !== 'type' || !currentCountry || feedback) return
+    worldMapRef.current?.flyTo(getCountryId(currentCountry.properties), { padding: 160 })
+  }, [view, session.config.mode, currentCountry, feedback])
+
+  const guessArc = useMemo<[Rotation, Rotation] | null>(() => {
+    const selectedFeature = selectedId ? featureById.get(selectedId) : undefined
+    if (view !== 'quiz' || !feedback?.proximity || !selectedFeature || !currentCountry) return null
+    return [getFocusCenter(selectedFeature), getFocusCenter(currentCountry)]
+  }, [view, feedback, selectedId, featureById, currentCountry])
+
+  // 画面ごとの国の塗り分け。キーボードで選んでいる国の縁取りは WorldMap 側で重ねる
+  const getCountryStyle = (id: string, { hovered }: { hovered: boolean }): CountryStyle => {
+    const targetId = currentCountry ? getCountryId(currentCountry.properties) : undefined
+    const isTarget = id === targetId
+    const isSelected = id === selectedId
+    if (view === 'progress') {
+      return {
+        fill: MASTERY_COLORS[getMastery(profile.countries[id])],
+        stroke: id === inspectedId ? '#0f172a' : hovered ? '#0ea5e9' : '#94a3b8',
       }
-      if (!bounds) return
-      
-      // viewBox方式での計算
-      const containerWidth = mapRef.current?.clientWidth ?? 0
-      const containerHeight = mapRef.current?.clientHeight ?? 0
-      if (!containerWidth || !containerHeight) return
-      
-      const padding = 40
-      const width = Math.max(1, bounds.maxX - bounds.minX)
-      const height = Math.max(1, bounds.maxY - bounds.minY)
-      
-      // 国の中心をSVG座標で計算
-      const centerX = (bounds.minX + bounds.maxX) / 2
-      const centerY = (bounds.minY + bounds.maxY) / 2
-      
-      // パディングを考慮したスケール計算
-      const scaleX = 800 / (width + padding * 2 / containerWidth * 800)
-      const scaleY = 400 / (height + padding * 2 / containerHeight * 400)
-      const nextScale = Math.max(1.5, Math.min(20, Math.min(scaleX, scaleY)))
-      
-      // 新しいviewBoxの中心を計算
-      const newViewWidth = 800 / nextScale
-      const newViewHeight = 400 / nextScale
-      const newX = -(centerX - newViewWidth / 2) * nextScale
-      const newY = -(centerY - newViewHeight / 2) * nextScale
-      
-      setTransform({
-        scale: nextScale,
-        x: newX,
-        y: newY,
-      })
-    })
-    return () => cancelAnimationFrame(raf)
-  }, [feedback, currentCountry, pathData])
+    }
+    if (view === 'explore') {
+      if (id === exploredId) return { fill: '#3b82f6', stroke: '#1d4ed8' }
+      if (hovered) return { fill: '#e0f2fe', stroke: '#0ea5e9' }
+      return { fill: '#f0f4f8', stroke: '#94a3b8' }
+    }
+    if (feedback) {
+      if (isTarget) return ANSWER_COLORS.correct
+      if (isSelected) return ANSWER_COLORS.wrong
+      return { fill: '#f0f4f8', stroke: '#94a3b8' }
+    }
+    if (isTarget && session.config.mode === 'type' && view === 'quiz') return { fill: '#f59e0b', stroke: '#b45309' }
+    if (isSelected) return { fill: '#3b82f6', stroke: '#94a3b8' }
+    if (hovered) return { fill: '#e0f2fe', stroke: '#0ea5e9' }
+    if (highlightedContinent && getContinent(id) === highlightedContinent) return { fill: '#fef3c7', stroke: '#f59e0b' }
+    return { fill: '#f0f4f8', stroke: '#94a3b8' }
+  }
 
   return (
-    <div className="fixed inset-0 bg-white text-slate-900 font-sans overflow-hidden select-none touch-none">
-      {/* Map Layer */}
-      <div
-        ref={mapRef}
-        className="absolute inset-0 z-0 bg-sky-100 transition-colors duration-500"
-        onPointerDown={handlePointerDown}
-        onPointerMove={handlePointerMove}
-        onPointerUp={handlePointerUp}
-        onPointerCancel={handlePointerUp}
-        onWheel={handleWheel}
-      >
-        <svg
-          viewBox={`${-transform.x / transform.scale} ${-transform.y / transform.scale} ${800 / transform.scale} ${400 / transform.scale}`}
-          className="w-full h-full drop-shadow-sm"
-          shapeRendering="crispEdges"
-        >
-          <rect x="-1000" y="-1000" width="3000" height="3000" fill="#d4e9f7" />
-            {pathData.map((path) => {
-              const targetId = currentCountry ? getCountryId(currentCountry.properties) : undefined
-              const isTarget = path.id === targetId
-              const isSelected = path.id === selectedId
-              const isHovered = path.id === hoveredId
-
-              let fill = '#f0f4f8'
-              let stroke = '#94a3b8'
-
-              if (feedback) {
-                if (isTarget) fill = '#22c55e'
-                else if (isSelected) fill = '#ef4444'
-              } else if (isSelected) {
-                fill = '#3b82f6'
-              } else if (isHovered) {
-                fill = '#e0f2fe'
-                stroke = '#0ea5e9'
-              }
-
-              return (
-                <path
-                  key={path.id}
-                  d={path.d}
-                  data-country-id={path.id}
-                  fill={fill}
-                  stroke={stroke}
-                  strokeWidth={1.5 / transform.scale}
-                  className="cursor-pointer"
-                  style={{ transition: 'fill 0.15s ease-out, stroke 0.15s ease-out' }}
-                  onPointerEnter={() => !feedback && setHoveredId(path.id)}
-                  onPointerLeave={() => setHoveredId(null)}
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    handleCountryClick(path.id, path.name)
-                  }}
-                />
-              )
-            })}
-          </svg>
-      </div>
-
-      {/* Overlay: Navigation */}
-      <div className="absolute top-0 left-0 right-0 p-4 pointer-events-none flex justify-between items-start z-20">
-        <div className="pointer-events-auto bg-white/80 backdrop-blur-xl px-4 py-2 rounded-2xl shadow-xl border border-white/50 flex items-center gap-3">
+    <LocaleContext.Provider value={locale}>
+      <div className="fixed inset-0 bg-white text-slate-900 font-sans overflow-hidden select-none touch-none">
+        {/* Overlay: Navigation */}
+        <div className="absolute top-0 left-0 right-0 p-4 pointer-events-none flex justify-between items-start z-20">
+          <div className="pointer-events-auto bg-white/80 backdrop-blur-xl px-4 py-2 rounded-2xl shadow-xl border border-white/50 flex items-center gap-3">
+            <button
+              onClick={() => setView('start')}
+              className="p-1 hover:bg-slate-100 rounded-lg"
+              aria-label={t.openMenu}
+            >
+              <Menu size={20} className="text-slate-600" />
+            </button>
+            <div className="h-4 w-px bg-slate-200" />
+            {view === 'progress' ? (
+              <div className="flex items-center gap-2">
+                <BarChart3 className="text-blue-600" size={18} />
+                <span className="font-black text-sm">{t.progress}</span>
+              </div>
+            ) : view === 'explore' ? (
+              <div className="flex items-center gap-2">
+                <Compass className="text-blue-600" size={18} />
+                <span className="font-black text-sm">{t.explore}</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Award className="text-amber-500" size={18} />
+                <span className="font-black text-sm tabular-nums" aria-label={t.score}>
+                  {session.score}
+                </span>
+              </div>
+            )}
+            {view === 'quiz' && (
+              <>
+                <div className="h-4 w-px bg-slate-200" />
+                <span className="font-black text-sm tabular-nums text-slate-500" aria-label={t.round}>
+                  {Math.min(session.answers.length + (feedback ? 0 : 1), session.totalRounds)}/{session.totalRounds}
+                </span>
+              </>
+            )}
+            {view === 'quiz' && remainingMs !== null && (
+              <>
+                <div className="h-4 w-px bg-slate-200" />
+                <div
+                  className={`flex items-center gap-1 font-black text-sm tabular-nums ${
+                    remainingMs <= 5000 && !feedback ? 'text-red-500' : 'text-slate-600'
+                  }`}
+                  aria-label={t.timeRemaining}
+                >
+                  <Timer size={16} />
+                  {Math.ceil(remainingMs / 1000)}
+                </div>
+              </>
+            )}
+          </div>
           <button
-            onClick={() => setView('start')}
-            className="p-1 hover:bg-slate-100 rounded-lg"
-            aria-label="Open menu"
+            onClick={() => worldMapRef.current?.reset({ animate: true })}
+            className="pointer-events-auto bg-white/80 backdrop-blur-xl p-3 rounded-2xl shadow-xl border border-white/50 text-slate-600 active:scale-90 transition-transform"
+            aria-label={t.resetMapView}
           >
-            <Menu size={20} className="text-slate-600" />
+            <Maximize size={20} />
           </button>
-          <div className="h-4 w-px bg-slate-200" />
-          <div className="flex items-center gap-2">
-            <Award className="text-amber-500" size={18} />
-            <span className="font-black text-sm tabular-nums">{score}</span>
-          </div>
         </div>
-        <button
-          onClick={resetView}
-          className="pointer-events-auto bg-white/80 backdrop-blur-xl p-3 rounded-2xl shadow-xl border border-white/50 text-slate-600 active:scale-90 transition-transform"
-          aria-label="Reset map view"
-        >
-          <Maximize size={20} />
-        </button>
-      </div>
 
-      {/* Overlay: Hint Panel */}
-      {view === 'quiz' && (
-        <div
-          className={`absolute bottom-6 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-lg transition-all duration-500 z-30 ${
-            feedback ? 'translate-y-0' : isHintMinimized ? 'translate-y-[calc(100%-3rem)]' : ''
-          }`}
-        >
-          <div className="bg-white/95 backdrop-blur-2xl shadow-2xl rounded-[2.5rem] border border-white overflow-hidden">
-            <div
-              className="px-6 py-3 bg-slate-50/50 flex justify-between items-center cursor-pointer"
-              onClick={() => !feedback && setIsHintMinimized(!isHintMinimized)}
-            >
-              <div className="flex items-center gap-2 text-blue-600">
-                <Target size={16} />
-                <span className="text-xs font-bold">ヒント</span>
+        {/* Overlay: Room Scoreboard */}
+        {view === 'quiz' && room && (
+          <div className="absolute top-20 right-4 z-20 w-56">
+            <RoomScoreboard room={room} playerId={roomClient?.playerId ?? null} showRoundWinner={!!feedback} />
+          </div>
+        )}
+
+        {/* Overlay: Hint Panel */}
+        {view === 'quiz' && (
+          <div
+            className={`absolute bottom-6 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-lg transition-all duration-500 z-30 ${
+              feedback ? 'translate-y-0' : isHintMinimized ? 'translate-y-[calc(100%-3rem)]' : ''
+            }`}
+          >
+            <div className="bg-white/95 backdrop-blur-2xl shadow-2xl rounded-[2.5rem] border border-white overflow-hidden">
+              <button
+                type="button"
+                className="w-full px-6 py-3 bg-slate-50/50 flex justify-between items-center cursor-pointer"
+                onClick={() => !feedback && setIsHintMinimized(!isHintMinimized)}
+                aria-expanded={feedback ? true : !isHintMinimized}
+                aria-controls="hint-panel-body"
+              >
+                <div className="flex items-center gap-2 text-blue-600">
+                  <Target size={16} />
+                  <span className="text-xs font-bold">{t.hint}</span>
+                </div>
+                {!feedback && (
+                  <ChevronRight
+                    className={`transition-transform duration-300 ${isHintMinimized ? '-rotate-90' : 'rotate-90'} text-slate-400`}
+                  />
+                )}
+              </button>
+
+              {/* 読み込み・ヒントの追加・正誤の結果をスクリーンリーダーに読み上げさせる */}
+              <div id="hint-panel-body" className="p-4 select-text touch-auto" aria-live="polite">
+                {loading ? (
+                  <div className="py-8 flex flex-col items-center gap-4">
+                    <Loader2 className="animate-spin text-blue-600" size={32} />
+                    <p className="text-[10px] font-black text-blue-600 animate-pulse tracking-widest">
+                      {t.fetchingHint}
+                    </p>
+                  </div>
+                ) : error ? (
+                  <div className="text-center p-4 text-red-500 font-bold">{error}</div>
+                ) : feedback ? (
+                  <div className="space-y-4 animate-in zoom-in-95 duration-300">
+                    <div
+                      className="flex items-center gap-4 p-5 rounded-3xl text-white"
+                      style={{ backgroundColor: feedback.isCorrect ? FEEDBACK_COLORS.correct : FEEDBACK_COLORS.wrong }}
+                    >
+                      {feedback.isCorrect ? <CheckCircle2 size={32} /> : <XCircle size={32} />}
+                      <div>
+                        <p className="font-black text-xl leading-none">{feedback.isCorrect ? t.correct : t.wrong}</p>
+                        <p className="text-sm opacity-90 font-medium mt-1">{feedback.message}</p>
+                      </div>
+                    </div>
+                    {feedback.proximity && (
+                      <div className="flex flex-wrap items-center gap-2 px-2 text-xs font-bold text-slate-600">
+                        <span>
+                          {t.distanceOff(
+                            new Intl.NumberFormat(locale).format(Math.round(feedback.proximity.distanceKm / 10) * 10),
+                            t.directions[feedback.proximity.direction],
+                          )}
+                        </span>
+                        <span className="px-2 py-1 rounded-full bg-slate-900 text-white font-black tabular-nums">
+                          {t.availablePoints(feedback.points)}
+                        </span>
+                        {feedback.proximity.isNeighbor && (
+                          <span className="px-2 py-1 rounded-full bg-slate-100 font-black">{t.neighborBonus}</span>
+                        )}
+                        {feedback.proximity.sameContinent && (
+                          <span className="px-2 py-1 rounded-full bg-slate-100 font-black">{t.continentBonus}</span>
+                        )}
+                      </div>
+                    )}
+                    {/* キーボードで回答したあと、そのまま Enter で次へ進めるようにする */}
+                    <button
+                      onClick={handleNext}
+                      disabled={!canGoNext}
+                      autoFocus
+                      className="w-full bg-slate-900 text-white font-black py-5 rounded-[1.5rem] shadow-xl hover:bg-slate-800 transition-all active:scale-95 flex items-center justify-center gap-3 text-lg disabled:opacity-50 disabled:active:scale-100"
+                    >
+                      {!canGoNext ? (
+                        t.waitingForNext
+                      ) : isSessionComplete(session) ? (
+                        <>
+                          {t.seeResults} <Trophy size={20} />
+                        </>
+                      ) : (
+                        <>
+                          {t.nextChallenge} <RefreshCw size={20} />
+                        </>
+                      )}
+                    </button>
+                  </div>
+                ) : (
+                  <div className="space-y-2 animate-in fade-in duration-500">
+                    {session.config.mode === 'silhouette' ? (
+                      <SilhouetteChoices
+                        choices={choiceIds.map((id) => ({ id, name: getCountryName(id) }))}
+                        onChoose={answerQuestion}
+                      />
+                    ) : session.config.mode === 'type' ? (
+                      <>
+                        <p className="text-slate-700 text-sm leading-snug font-semibold">
+                          {t.nameItPrompt}
+                        </p>
+                        <NameAnswerForm
+                          key={currentCountry ? getCountryId(currentCountry.properties) : 'none'}
+                          suggestions={nameSuggestions}
+                          onSubmit={handleTypedAnswer}
+                        />
+                      </>
+                    ) : (
+                      <QuestionPrompt
+                        type={questionType}
+                        hintSteps={revealedHints}
+                        availablePoints={getCorrectPoints(hintsUsed)}
+                        onMoreHint={
+                          hintLevel < hintLadder.length - 1 ? () => setHintLevel((prev) => prev + 1) : null
+                        }
+                        nextPenalty={getCorrectPoints(hintsUsed) - getCorrectPoints(hintsUsed + 1)}
+                        capital={currentCountry ? getCapital(getCountryId(currentCountry.properties), locale) : null}
+                        alpha2={currentCountry ? getAlpha2(currentCountry.properties) : null}
+                        neighborNames={
+                          currentCountry
+                            ? getNeighbors(adjacency, getCountryId(currentCountry.properties)).map(getCountryName)
+                            : []
+                        }
+                      />
+                    )}
+                  </div>
+                )}
               </div>
-              {!feedback && (
-                <ChevronRight
-                  className={`transition-transform duration-300 ${isHintMinimized ? '-rotate-90' : 'rotate-90'} text-slate-400`}
-                />
-              )}
             </div>
+          </div>
+        )}
+
+        {/* Overlay: Progress Panel */}
+        {view === 'progress' && (
+          <ProgressPanel
+            profile={profile}
+            inspectedId={inspectedId}
+            getName={getCountryName}
+            practiceCount={practiceIds.length}
+            onPractice={() => startGame(practiceIds)}
+          />
+        )}
+
+        {/* Overlay: Explore Card */}
+        {view === 'explore' && (
+          <ExploreCard
+            feature={exploredFeature}
+            capital={exploredId ? getCapital(exploredId, locale) : null}
+            neighbors={
+              exploredId ? getNeighbors(adjacency, exploredId).map((id) => ({ id, name: getCountryName(id) })) : []
+            }
+            description={exploreDescription?.key === exploreKey ? exploreDescription.hint : null}
+            isDescribing={isDescribing}
+            canDescribe={hintProvider !== null}
+            onDescribe={describeExplored}
+            onSelectNeighbor={exploreNeighbor}
+            onClose={() => setExploredId(null)}
+          />
+        )}
 
-            <div className="p-4 select-text touch-auto">
-              {loading ? (
-                <div className="py-8 flex flex-col items-center gap-4">
-                  <Loader2 className="animate-spin text-blue-600" size={32} />
-                  <p className="text-[10px] font-black text-blue-600 animate-pulse tracking-widest">
-                    FETCHING CONTEXT...
-                  </p>
+        {/* Start/Archive Screens */}
+        {(view === 'start' || view === 'results') && (
+          <div className="absolute inset-0 z-50 bg-white flex items-center justify-center p-8 overflow-y-auto touch-auto animate-in fade-in duration-300">
+            <div className="w-full max-w-md space-y-12">
+              <div className="text-center">
+                <div className="inline-block bg-blue-600 p-5 rounded-[2.5rem] shadow-2xl mb-6 rotate-3">
+                  <MapIcon className="text-white" size={48} />
                 </div>
-              ) : error ? (
-                <div className="text-center p-4 text-red-500 font-bold">{error}</div>
-              ) : feedback ? (
-                <div className="space-y-4 animate-in zoom-in-95 duration-300">
-                  <div
-                    className={`flex items-center gap-4 p-5 rounded-3xl ${feedback.isCorrect ? 'bg-green-500 text-white' : 'bg-red-500 text-white'}`}
-                  >
-                    {feedback.isCorrect ? <CheckCircle2 size={32} /> : <XCircle size={32} />}
-                    <div>
-                      <p className="font-black text-xl leading-none">{feedback.isCorrect ? 'SUCCESS' : 'WRONG'}</p>
-                      <p className="text-sm opacity-90 font-medium mt-1">{feedback.message}</p>
+                <h1 className="text-6xl font-black text-slate-900 tracking-tighter mb-2">
+                  Geo<span className="text-blue-600">Mind</span>
+                </h1>
+                <p className="text-slate-500 font-bold">{t.tagline}</p>
+              </div>
+              {view === 'start' && (
+                <div className="space-y-6">
+                  <div className="space-y-2">
+                    <p className="text-xs font-black text-slate-400 tracking-widest">{t.language}</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {LOCALE_OPTIONS.map((option) => (
+                        <button
+                          key={option.id}
+                          lang={option.id}
+                          onClick={() => setLocale(option.id)}
+                          aria-pressed={locale === option.id}
+                          className={`py-3 rounded-2xl text-xs font-black transition-colors ${
+                            locale === option.id ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'
+                          }`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <p className="text-xs font-black text-slate-400 tracking-widest">{t.mapPack}</p>
+                    <div className="grid grid-cols-4 gap-2">
+                      {MAP_PACK_OPTIONS.map((option) => (
+                        <button
+                          key={option}
+                          onClick={() => {
+                            setPackId(option)
+                            setDataNotice(null)
+                          }}
+                          disabled={isRefreshingData}
+                          aria-pressed={packId === option}
+                          className={`py-3 rounded-2xl text-[10px] font-black transition-colors disabled:opacity-50 ${
+                            packId === option ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'
+                          }`}
+                        >
+                          {t.mapPacks[option]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    {pack.dataset === 'countries' && (
+                      <>
+                        <p className="text-xs font-black text-slate-400 tracking-widest">{t.map}</p>
+                        <div className="grid grid-cols-5 gap-2">
+                          {ERA_OPTIONS.map((option) => (
+                            <button
+                              key={option}
+                              onClick={() => {
+                                setEra(option)
+                                setDataNotice(null)
+                              }}
+                              disabled={isRefreshingData}
+                              aria-pressed={era === option}
+                              className={`py-3 rounded-2xl text-xs font-black transition-colors disabled:opacity-50 ${
+                                era === option ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'
+                              }`}
+                            >
+                              {option === 'modern' ? t.eraModern : option}
+                            </button>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                    {mapEra === 'modern' && (
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="text-[10px] font-bold text-slate-400">
+                          {dataNotice === 'refreshed'
+                            ? t.dataRefreshed
+                            : dataNotice === 'refreshFailed'
+                              ? t.dataRefreshFailed
+                              : t.bundledDataNotice}
+                        </p>
+                        <button
+                          onClick={refreshGeoData}
+                          disabled={loading || isRefreshingData}
+                          className="shrink-0 flex items-center gap-1 px-3 py-2 rounded-xl bg-slate-100 text-slate-600 text-[10px] font-black disabled:opacity-50"
+                        >
+                          <RefreshCw size={12} className={isRefreshingData ? 'animate-spin' : ''} />
+                          {t.refreshData}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {canFilterByRegion && (
+                    <div className="space-y-2">
+                      <p className="text-xs font-black text-slate-400 tracking-widest">{t.inclusionPolicy}</p>
+                      <div className="grid grid-cols-3 gap-2">
+                        {INCLUSION_POLICIES.map((option) => (
+                          <button
+                            key={option}
+                            onClick={() => setInclusionPolicy(option)}
+                            aria-pressed={inclusionPolicy === option}
+                            className={`py-3 rounded-2xl text-[10px] font-black transition-colors ${
+                              inclusionPolicy === option ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'
+                            }`}
+                          >
+                            {t.inclusionPolicies[option]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <p className="text-xs font-black text-slate-400 tracking-widest">{t.projection}</p>
+                    <div className="grid grid-cols-4 gap-2">
+                      {PROJECTION_OPTIONS.map((option) => (
+                        <button
+                          key={option}
+                          onClick={() => {
+                            setProjectionId(option)
+                            resetView()
+                          }}
+                          aria-pressed={projectionId === option}
+                          className={`py-3 rounded-2xl text-[10px] font-black transition-colors ${
+                            projectionId === option ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'
+                          }`}
+                        >
+                          {t.projections[option]}
+                        </button>
+                      ))}
                     </div>
                   </div>
-                  <button
-                    onClick={startNewQuestion}
-                    className="w-full bg-slate-900 text-white font-black py-5 rounded-[1.5rem] shadow-xl hover:bg-slate-800 transition-all active:scale-95 flex items-center justify-center gap-3 text-lg"
-                  >
-                    NEXT CHALLENGE <RefreshCw size={20} />
-                  </button>
+                  <div className="space-y-2">
+                    <p className="text-xs font-black text-slate-400 tracking-widest">{t.renderer}</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {MAP_RENDERERS.map((option) => (
+                        <button
+                          key={option}
+                          onClick={() => setMapRenderer(option)}
+                          aria-pressed={mapRenderer === option}
+                          className={`py-3 rounded-2xl text-[10px] font-black transition-colors ${
+                            mapRenderer === option ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'
+                          }`}
+                        >
+                          {t.renderers[option]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <p className="text-xs font-black text-slate-400 tracking-widest">{t.insetMaps}</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[false, true].map((option) => (
+                        <button
+                          key={String(option)}
+                          onClick={() => setShowInsets(option)}
+                          aria-pressed={showInsets === option}
+                          className={`py-3 rounded-2xl text-[10px] font-black transition-colors ${
+                            showInsets === option ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'
+                          }`}
+                        >
+                          {option ? t.insetMapsOn : t.insetMapsOff}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <p className="text-xs font-black text-slate-400 tracking-widest">{t.mode}</p>
+                    <div className="grid grid-cols-3 gap-2">
+                      {MODE_OPTIONS.map((mode) => (
+                        <button
+                          key={mode}
+                          onClick={() => setSessionConfig((prev) => ({ ...prev, mode }))}
+                          aria-pressed={sessionConfig.mode === mode}
+                          className={`py-3 rounded-2xl font-black transition-colors ${
+                            sessionConfig.mode === mode ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'
+                          }`}
+                        >
+                          {t.modes[mode]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {sessionConfig.mode === 'click' && (
+                    <div className="space-y-2">
+                      <p className="text-xs font-black text-slate-400 tracking-widest">{t.question}</p>
+                      <div className="grid grid-cols-5 gap-2">
+                        {QUESTION_TYPE_OPTIONS.map((option) => (
+                          <button
+                            key={option}
+                            onClick={() => setSessionConfig((prev) => ({ ...prev, questionType: option }))}
+                            aria-pressed={sessionConfig.questionType === option}
+                            className={`py-3 rounded-2xl text-xs font-black transition-colors ${
+                              sessionConfig.questionType === option
+                                ? 'bg-slate-900 text-white'
+                                : 'bg-slate-100 text-slate-600'
+                            }`}
+                          >
+                            {t.questionTypes[option]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <p className="text-xs font-black text-slate-400 tracking-widest">{t.rounds}</p>
+                    <div className="grid grid-cols-3 gap-2">
+                      {ROUND_OPTIONS.map((rounds) => (
+                        <button
+                          key={rounds}
+                          onClick={() => setSessionConfig((prev) => ({ ...prev, rounds }))}
+                          aria-pressed={sessionConfig.rounds === rounds}
+                          className={`py-3 rounded-2xl font-black transition-colors ${
+                            sessionConfig.rounds === rounds ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'
+                          }`}
+                        >
+                          {rounds === 'all' ? t.allRounds : rounds}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <p className="text-xs font-black text-slate-400 tracking-widest">{t.timeLimit}</p>
+                    <div className="grid grid-cols-4 gap-2">
+                      {TIME_LIMIT_OPTIONS.map((timeLimitSec) => (
+                        <button
+                          key={timeLimitSec ?? 'off'}
+                          onClick={() => setSessionConfig((prev) => ({ ...prev, timeLimitSec }))}
+                          aria-pressed={sessionConfig.timeLimitSec === timeLimitSec}
+                          className={`py-3 rounded-2xl font-black transition-colors ${
+                            sessionConfig.timeLimitSec === timeLimitSec
+                              ? 'bg-slate-900 text-white'
+                              : 'bg-slate-100 text-slate-600'
+                          }`}
+                        >
+                          {timeLimitSec === null ? t.noTimeLimit : t.seconds(timeLimitSec)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <button
+                      onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+                      aria-expanded={isSettingsOpen}
+                      className="w-full flex items-center justify-between text-xs font-black text-slate-400 tracking-widest"
+                    >
+                      <span className="flex items-center gap-2">
+                        <SlidersHorizontal size={14} /> {t.questionPool}
+                      </span>
+                      <span className="tabular-nums text-slate-600">
+                        {geoData ? `${poolIds.length} / ${geoData.features.length}` : '-'}
+                      </span>
+                    </button>
+                    {isSettingsOpen && (
+                      <div className="space-y-3 max-h-64 overflow-y-auto rounded-2xl bg-slate-50 p-3">
+                        {canFilterByRegion ? (
+                          <>
+                            <div className="flex flex-wrap gap-2">
+                              {CONTINENTS.map((continent) => (
+                                <button
+                                  key={continent.id}
+                                  onClick={() => toggleContinent(continent.id)}
+                                  aria-pressed={poolFilter.continents.includes(continent.id)}
+                                  className={`px-3 py-1.5 rounded-full text-xs font-bold transition-colors ${
+                                    poolFilter.continents.includes(continent.id)
+                                      ? 'bg-blue-600 text-white'
+                                      : 'bg-white text-slate-600'
+                                  }`}
+                                >
+                                  {continent.label[locale]}
+                                </button>
+                              ))}
+                            </div>
+                            {poolFilter.continents.length > 0 && (
+                              <div className="flex flex-wrap gap-2">
+                                {SUBREGIONS.filter((subregion) => poolFilter.continents.includes(subregion.continent)).map(
+                                  (subregion) => (
+                                    <button
+                                      key={subregion.id}
+                                      onClick={() =>
+                                        setPoolFilter((prev) => ({
+                                          ...prev,
+                                          subregions: toggleValue(prev.subregions, subregion.id),
+                                        }))
+                                      }
+                                      aria-pressed={poolFilter.subregions.includes(subregion.id)}
+                                      className={`px-3 py-1.5 rounded-full text-xs font-bold transition-colors ${
+                                        poolFilter.subregions.includes(subregion.id)
+                                          ? 'bg-sky-500 text-white'
+                                          : 'bg-white text-slate-500'
+                                      }`}
+                                    >
+                                      {subregion.label[locale]}
+                                    </button>
+                                  ),
+                                )}
+                              </div>
+                            )}
+                          </>
+                        ) : (
+                          <p className="text-xs font-bold text-slate-400">
+                            {mapEra === 'modern' ? t.packFilterUnavailable : t.historicalFilterUnavailable}
+                          </p>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                          {DIFFICULTIES.map((difficulty) => (
+                            <button
+                              key={difficulty}
+                              onClick={() =>
+                                setPoolFilter((prev) => ({
+                                  ...prev,
+                                  difficulties: toggleValue(prev.difficulties, difficulty),
+                                }))
+                              }
+                              aria-pressed={poolFilter.difficulties.includes(difficulty)}
+                              className={`px-3 py-1.5 rounded-full text-xs font-bold transition-colors ${
+                                poolFilter.difficulties.includes(difficulty)
+                                  ? 'bg-amber-500 text-white'
+                                  : 'bg-white text-slate-600'
+                              }`}
+                            >
+                              {t.difficulties[difficulty]}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                  <ProfilePanel profile={profile} getName={getCountryName} onImport={setProfile} />
+                  {!room && (
+                    <ChallengePanel
+                      todayKey={todayKey}
+                      streak={dailyStreak}
+                      challenge={offeredChallenge}
+                      challengeUrl={offeredChallenge ? buildChallengeUrl(offeredChallenge, appUrl) : null}
+                      available={canPlayChallenge}
+                      onDaily={() => startChallenge(createDailyChallenge(todayKey))}
+                      onCreate={() => setOfferedChallenge(createCustomChallenge(sessionConfig.mode, effectiveFilter))}
+                      onPlay={startChallenge}
+                    />
+                  )}
+                  {firebaseSettings && (
+                    <RoomPanel
+                      room={room}
+                      playerId={roomClient?.playerId ?? null}
+                      connecting={isConnectingRoom}
+                      error={roomError}
+                      startDisabled={poolIds.length === 0}
+                      onCreate={createRoom}
+                      onJoin={joinRoom}
+                      onStart={startRoomGame}
+                      onLeave={leaveRoom}
+                    />
+                  )}
+                  {error && <p className="text-center text-red-500 font-bold">{error}</p>}
+                  {!room && (
+                    <button
+                      onClick={() => startGame(null)}
+                      disabled={poolIds.length === 0}
+                      className="w-full bg-blue-600 text-white font-black py-6 rounded-[2rem] shadow-2xl hover:scale-105 active:scale-95 transition-all text-2xl disabled:opacity-50 disabled:hover:scale-100"
+                    >
+                      {geoData ? t.startGame : t.loadingMap}
+                    </button>
+                  )}
+                  <div className="grid grid-cols-2 gap-3">
+                    <button
+                      onClick={() => {
+                        setInspectedId(null)
+                        resetView()
+                        setView('progress')
+                      }}
+                      disabled={!geoData}
+                      className="w-full bg-slate-100 text-slate-700 font-black py-4 rounded-[1.5rem] active:scale-95 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                      <BarChart3 size={18} /> {t.progress}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setExploredId(null)
+                        resetView()
+                        setView('explore')
+                      }}
+                      disabled={!geoData}
+                      className="w-full bg-slate-100 text-slate-700 font-black py-4 rounded-[1.5rem] active:scale-95 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                      <Compass size={18} /> {t.explore}
+                    </button>
+                  </div>
                 </div>
-              ) : (
-                <div className="space-y-2 animate-in fade-in duration-500">
-                  <p className="text-slate-700 text-sm leading-snug font-semibold max-h-32 overflow-y-auto pr-2">
-                    {hint?.main_hint || 'ターゲットを探索中...'}
-                  </p>
+              )}
+              {view === 'results' && (
+                <div className="space-y-6">
+                  {room && <RoomScoreboard room={room} playerId={roomClient?.playerId ?? null} showRoundWinner={false} />}
+                  {challengeRun && (
+                    <div className="space-y-2 rounded-2xl bg-slate-50 p-4">
+                      <div className="flex items-center justify-between">
+                        <p className="text-xs font-black text-slate-400 tracking-widest">{t.shareResult}</p>
+                        <CopyButton text={shareText} className="px-3 py-2 bg-white text-slate-600" />
+                      </div>
+                      <pre className="whitespace-pre-wrap break-all text-sm font-bold text-slate-700">{shareText}</pre>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-3 gap-2 text-center">
+                    <div className="bg-slate-50 rounded-2xl p-3">
+                      <p className="text-[10px] font-black text-slate-400 tracking-widest">{t.score}</p>
+                      <p className="text-2xl font-black tabular-nums">{session.score}</p>
+                    </div>
+                    <div className="bg-slate-50 rounded-2xl p-3">
+                      <p className="text-[10px] font-black text-slate-400 tracking-widest">{t.accuracy}</p>
+                      <p className="text-2xl font-black tabular-nums">{Math.round(summary.accuracy * 100)}%</p>
+                    </div>
+                    <div className="bg-slate-50 rounded-2xl p-3">
+                      <p className="text-[10px] font-black text-slate-400 tracking-widest">{t.avgTime}</p>
+                      <p className="text-2xl font-black tabular-nums">{formatSeconds(summary.averageMs)}</p>
+                    </div>
+                  </div>
+                  <ol className="max-h-48 overflow-y-auto space-y-1 text-sm">
+                    {session.answers.map((answer, index) => (
+                      <li key={`${answer.countryId}-${index}`} className="flex items-center gap-2">
+                        {answer.isCorrect ? (
+                          <CheckCircle2 size={16} className="shrink-0" style={{ color: FEEDBACK_COLORS.correct }} />
+                        ) : (
+                          <XCircle size={16} className="shrink-0" style={{ color: FEEDBACK_COLORS.wrong }} />
+                        )}
+                        <span className="font-semibold truncate">{getCountryName(answer.countryId)}</span>
+                        {answer.hintsUsed > 0 && (
+                          <span className="text-[10px] font-black text-slate-400">{t.hintsUsed(answer.hintsUsed)}</span>
+                        )}
+                        <span className="ml-auto tabular-nums text-slate-400">
+                          {answer.timedOut ? t.timedOut : formatSeconds(answer.elapsedMs)}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                  {summary.missed.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-xs font-black text-slate-400 tracking-widest">{t.missed}</p>
+                      <p className="text-sm font-semibold text-slate-700">
+                        {summary.missed.map((answer) => getCountryName(answer.countryId)).join(t.listSeparator)}
+                      </p>
+                    </div>
+                  )}
+                  {/* ルームではメニューに戻ってホストが次のゲームを始める */}
+                  <div className={`grid gap-2 ${room ? 'grid-cols-1' : 'grid-cols-2'}`}>
+                    <button
+                      onClick={() => setView('start')}
+                      className="bg-slate-100 text-slate-700 font-black py-4 rounded-[1.5rem] active:scale-95 transition-all"
+                    >
+                      {t.menu}
+                    </button>
+                    {!room && (
+                      <button
+                        onClick={() => (challengeRun ? startChallenge(challengeRun.challenge) : startGame(practicePool))}
+                        className="bg-blue-600 text-white font-black py-4 rounded-[1.5rem] shadow-xl active:scale-95 transition-all"
+                      >
+                        {t.playAgain}
+                      </button>
+                    )}
+                  </div>
                 </div>
               )}
             </div>
           </div>
-        </div>
-      )}
-
-      {/* Start/Archive Screens */}
-      {view !== 'quiz' && (
-        <div className="absolute inset-0 z-50 bg-white flex items-center justify-center p-8 animate-in fade-in duration-300">
-          <div className="w-full max-w-md space-y-12">
-            <div className="text-center">
-              <div className="inline-block bg-blue-600 p-5 rounded-[2.5rem] shadow-2xl mb-6 rotate-3">
-                <MapIcon className="text-white" size={48} />
-              </div>
-              <h1 className="text-6xl font-black text-slate-900 tracking-tighter mb-2">
-                Geo<span className="text-blue-600">Mind</span>
-              </h1>
-              <p className="text-slate-500 font-bold">AI Historical Geography Quiz</p>
-            </div>
-            {view === 'start' && (
-              <button
-                onClick={() => {
-                  setView('quiz')
-                  startNewQuestion()
-                }}
-                className="w-full bg-blue-600 text-white font-black py-6 rounded-[2rem] shadow-2xl hover:scale-105 active:scale-95 transition-all text-2xl"
-              >
-                START GAME
-              </button>
-            )}
-          </div>
-        </div>
-      )}
-    </div>
+        )}
+        {/* Map Layer */}
+        {/* 操作パネルを先に Tab で選べるよう、DOM 上は最後に置く（重なり順は z-index で決まる） */}
+        <WorldMap
+          ref={worldMapRef}
+          features={geoData?.features ?? NO_FEATURES}
+          projectionId={projectionId}
+          renderer={mapRenderer}
+          interactive={isMapInteractive}
+          hoverEnabled={view === 'progress' || view === 'explore' || !feedback}
+          getCountryStyle={getCountryStyle}
+          getCountryLabel={
+            view === 'progress' ? (id, name) => `${name}: ${t.mastery[getMastery(profile.countries[id])]}` : undefined
+          }
+          onCountryClick={handleCountryClick}
+          insets={showInsets ? MAP_INSETS : undefined}
+          guessArc={guessArc}
+          home={pack.home}
+          maxZoom={pack.maxZoom}
+          showLabels={view === 'explore'}
+          silhouette={
+            view === 'quiz' && session.config.mode === 'silhouette' && currentCountry
+              ? { countryId: getCountryId(currentCountry.properties), revealed: feedback !== null }
+              : null
+          }
+        />
+      </div>
+    </LocaleContext.Provider>
   )
 }
 
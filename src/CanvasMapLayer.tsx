@@ -0,0 +1,131 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { getViewTransform, getVisibleBounds, type Camera, type Viewport } from './camera.ts'
+import { getLodLevel, getLodTolerance, simplifyRing, type ProjectedShape } from './mapGeometry.ts'
+import { ANSWER_COLORS, FOCUS_STROKE, GUESS_LINE_STROKE } from './palette.ts'
+import { searchRTree, type RTree } from './spatialIndex.ts'
+import type { CountryStyle, GuessLine } from './WorldMap.tsx'
+
+type CanvasShape = ProjectedShape & { id: string }
+
+type CanvasMapLayerProps = {
+  shapes: CanvasShape[]
+  index: RTree<number>
+  camera: Camera
+  spherePath: string
+  hoveredId: string | null
+  focusedId: string | null
+  getCountryStyle: (countryId: string, state: { hovered: boolean }) => CountryStyle
+  guessLine: GuessLine | null
+}
+
+const toPath2D = (rings: number[][], tolerance: number) => {
+  const path = new Path2D()
+  for (const ring of rings) {
+    const points = simplifyRing(ring, tolerance)
+    path.moveTo(points[0], points[1])
+    for (let i = 2; i < points.length; i += 2) path.lineTo(points[i], points[i + 1])
+    path.closePath()
+  }
+  return path
+}
+
+// SVG の <path> を並べる代わりに1枚の canvas に描く。パン・ズームのたびに React の要素を作り直さず、
+// 画面に映っている国だけを倍率に応じて簡略化した形で描き直す
+const CanvasMapLayer = ({
+  shapes,
+  index,
+  camera,
+  spherePath,
+  hoveredId,
+  focusedId,
+  getCountryStyle,
+  guessLine,
+}: CanvasMapLayerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const [viewport, setViewport] = useState<Viewport | null>(null)
+  const pixelRatio = typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1
+
+  // 簡略化した形は倍率の段が変わったときだけ作り直す
+  const lodLevel = getLodLevel(camera.scale)
+  const paths = useMemo(
+    () => shapes.map((shape) => toPath2D(shape.rings, getLodTolerance(lodLevel))),
+    [shapes, lodLevel],
+  )
+
+  const sphere = useMemo(() => new Path2D(spherePath), [spherePath])
+  const guessPath = useMemo(() => (guessLine ? new Path2D(guessLine.d) : null), [guessLine])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect
+      setViewport(width && height ? { width, height } : null)
+    })
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d')
+    if (!context || !viewport) return
+    const { k, x, y } = getViewTransform(camera, viewport)
+    context.setTransform(1, 0, 0, 1, 0, 0)
+    context.fillStyle = '#f1f5f9'
+    context.fillRect(0, 0, context.canvas.width, context.canvas.height)
+    context.setTransform(pixelRatio * k, 0, 0, pixelRatio * k, pixelRatio * x, pixelRatio * y)
+    context.fillStyle = '#d4e9f7'
+    context.fill(sphere)
+
+    const visible = [...new Set(searchRTree(index, getVisibleBounds(camera, viewport)))].sort((a, b) => a - b)
+    context.lineJoin = 'round'
+    let focused: number | null = null
+    for (const i of visible) {
+      const { id } = shapes[i]
+      if (id === focusedId) focused = i
+      const style = getCountryStyle(id, { hovered: id === hoveredId })
+      context.fillStyle = style.fill
+      context.fill(paths[i], 'evenodd')
+      context.strokeStyle = style.stroke
+      context.lineWidth = 1.5 / camera.scale
+      context.setLineDash(style.dash?.split(' ').map((length) => Number(length) / camera.scale) ?? [])
+      context.stroke(paths[i])
+    }
+    // キーボードで選んでいる国の縁取りは、隣の国に隠れないよう最後に描く
+    if (focused !== null) {
+      context.strokeStyle = FOCUS_STROKE
+      context.lineWidth = 3 / camera.scale
+      context.setLineDash([])
+      context.stroke(paths[focused])
+    }
+    if (guessLine && guessPath) {
+      context.strokeStyle = GUESS_LINE_STROKE
+      context.lineWidth = 2 / camera.scale
+      context.setLineDash([6 / camera.scale, 4 / camera.scale])
+      context.stroke(guessPath)
+      const ends: [[number, number] | null, string][] = [
+        [guessLine.from, ANSWER_COLORS.wrong.stroke],
+        [guessLine.to, ANSWER_COLORS.correct.stroke],
+      ]
+      for (const [point, color] of ends) {
+        if (!point) continue
+        context.fillStyle = color
+        context.beginPath()
+        context.arc(point[0], point[1], 4 / camera.scale, 0, 2 * Math.PI)
+        context.fill()
+      }
+    }
+  }, [camera, viewport, pixelRatio, sphere, paths, shapes, index, hoveredId, focusedId, getCountryStyle, guessLine, guessPath])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={Math.round((viewport?.width ?? 0) * pixelRatio)}
+      height={Math.round((viewport?.height ?? 0) * pixelRatio)}
+      className="w-full h-full drop-shadow-sm"
+      aria-hidden
+    />
+  )
+}
+
+export default CanvasMapLayer
@@ -0,0 +1,105 @@
+import { CalendarDays, Flame, Swords } from 'lucide-react'
+import CopyButton from './CopyButton.tsx'
+import { useLocale, useMessages } from './i18n.ts'
+import { getCurrentStreak, type Challenge, type DailyStreak } from './challenge.ts'
+import { CONTINENTS, SUBREGIONS } from './regions.ts'
+
+type ChallengePanelProps = {
+  todayKey: string
+  streak: DailyStreak
+  // リンクで届いた、または自分で作った挑戦状
+  challenge: Challenge | null
+  challengeUrl: string | null
+  // 世界の国・現代の地図を読み込んでいるときだけ遊べる
+  available: boolean
+  onDaily: () => void
+  onCreate: () => void
+  onPlay: (challenge: Challenge) => void
+}
+
+// スタート画面のデイリーチャレンジと挑戦状の欄
+const ChallengePanel = ({
+  todayKey,
+  streak,
+  challenge,
+  challengeUrl,
+  available,
+  onDaily,
+  onCreate,
+  onPlay,
+}: ChallengePanelProps) => {
+  const t = useMessages()
+  const locale = useLocale()
+  const current = getCurrentStreak(streak, todayKey)
+  const isDailyDone = streak.lastDate === todayKey
+
+  const describeRegion = (target: Challenge) => {
+    const { continents, subregions } = target.filter
+    const labels =
+      subregions.length > 0
+        ? SUBREGIONS.filter((subregion) => subregions.includes(subregion.id)).map((subregion) => subregion.label[locale])
+        : CONTINENTS.filter((continent) => continents.includes(continent.id)).map((continent) => continent.label[locale])
+    return labels.length > 0 ? labels.join(t.listSeparator) : t.wholeWorld
+  }
+
+  return (
+    <div className="space-y-3 rounded-2xl bg-slate-50 p-4">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 text-xs font-black text-slate-400 tracking-widest">
+          <CalendarDays size={14} /> {t.daily}
+        </p>
+        <p className="flex items-center gap-2 text-[10px] font-black text-slate-500">
+          <span className={`flex items-center gap-1 ${isDailyDone ? 'text-orange-500' : ''}`}>
+            <Flame size={12} /> {t.streak(current)}
+          </span>
+          <span className="text-slate-400">{t.bestStreak(streak.best)}</span>
+        </p>
+      </div>
+      <p className="text-xs font-bold text-slate-500">{t.dailyDescription(todayKey)}</p>
+      <button
+        onClick={onDaily}
+        disabled={!available}
+        className="w-full bg-orange-500 text-white font-black py-3 rounded-xl text-xs active:scale-95 transition-all disabled:opacity-50"
+      >
+        {t.startDaily}
+      </button>
+      {challenge && challengeUrl && (
+        <div className="space-y-2 rounded-xl bg-white p-3">
+          <p className="flex items-center gap-2 text-[10px] font-black text-slate-400 tracking-widest">
+            <Swords size={12} /> {t.challenge}
+          </p>
+          <p className="text-xs font-bold text-slate-700">
+            {t.challengeSummary(t.modes[challenge.mode], describeRegion(challenge))}
+          </p>
+          <div className="flex gap-2">
+            <input
+              value={challengeUrl}
+              readOnly
+              aria-label={t.challenge}
+              onFocus={(e) => e.target.select()}
+              className="min-w-0 flex-1 rounded-lg bg-slate-50 px-2 py-1 text-[10px] font-bold text-slate-500 outline-none"
+            />
+            <CopyButton text={challengeUrl} className="shrink-0 px-3 bg-slate-100 text-slate-600" />
+          </div>
+          <button
+            onClick={() => onPlay(challenge)}
+            disabled={!available}
+            className="w-full bg-slate-900 text-white font-black py-3 rounded-xl text-xs active:scale-95 transition-all disabled:opacity-50"
+          >
+            {t.playChallenge}
+          </button>
+        </div>
+      )}
+      <button
+        onClick={onCreate}
+        disabled={!available}
+        className="w-full bg-slate-200 text-slate-700 font-black py-3 rounded-xl text-xs active:scale-95 transition-all disabled:opacity-50"
+      >
+        {t.createChallenge}
+      </button>
+      {!available && <p className="text-center text-[10px] font-bold text-slate-400">{t.challengeUnavailable}</p>}
+    </div>
+  )
+}
+
+export default ChallengePanel
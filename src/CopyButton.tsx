@@ -0,0 +1,36 @@
+import { useState } from 'react'
+import { Check, Copy } from 'lucide-react'
+import { useMessages } from './i18n.ts'
+
+type CopyButtonProps = {
+  text: string
+  className?: string
+}
+
+// クリップボードに書き込み、少しの間「コピーしました」と出す
+const CopyButton = ({ text, className = '' }: CopyButtonProps) => {
+  const t = useMessages()
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(true)
+      window.setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      console.error('Clipboard write error:', err)
+    }
+  }
+
+  return (
+    <button
+      onClick={handleCopy}
+      className={`flex items-center justify-center gap-1 rounded-xl text-[10px] font-black transition-colors ${className}`}
+      aria-live="polite"
+    >
+      {copied ? <Check size={12} /> : <Copy size={12} />} {copied ? t.copied : t.copy}
+    </button>
+  )
+}
+
+export default CopyButton
@@ -0,0 +1,129 @@
+import { Sparkles, X } from 'lucide-react'
+import { getAlpha2, getLocalizedName, type GeoFeature } from './geo.ts'
+import type { Hint } from './hints.ts'
+import { useLocale, useMessages } from './i18n.ts'
+import { getAreaKm2 } from './proximity.ts'
+import { getFlagEmoji } from './questions.ts'
+
+type ExploreCardProps = {
+  feature: GeoFeature | null
+  capital: string | null
+  neighbors: Array<{ id: string; name: string }>
+  // キャッシュ済みの AI の解説。読み込み中・未作成なら null
+  description: Hint | null
+  isDescribing: boolean
+  // AI のプロバイダーが設定されていて、まだ解説が無いときだけ作れる
+  canDescribe: boolean
+  onDescribe: () => void
+  onSelectNeighbor: (countryId: string) => void
+  onClose: () => void
+}
+
+// 探検モードで選んだ国の情報カード
+const ExploreCard = ({
+  feature,
+  capital,
+  neighbors,
+  description,
+  isDescribing,
+  canDescribe,
+  onDescribe,
+  onSelectNeighbor,
+  onClose,
+}: ExploreCardProps) => {
+  const t = useMessages()
+  const locale = useLocale()
+
+  if (!feature) {
+    return (
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-lg z-30">
+        <div className="bg-white/95 backdrop-blur-2xl shadow-2xl rounded-[2.5rem] border border-white p-5">
+          <p className="text-center text-xs font-bold text-slate-400">{t.tapCountryToExplore}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const alpha2 = getAlpha2(feature.properties)
+  const japaneseName = getLocalizedName(feature.properties, 'ja')
+  const englishName = getLocalizedName(feature.properties, 'en')
+  const area = new Intl.NumberFormat(locale).format(Math.round(getAreaKm2(feature) / 100) * 100)
+
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-lg z-30">
+      <div className="bg-white/95 backdrop-blur-2xl shadow-2xl rounded-[2.5rem] border border-white p-5 space-y-4 max-h-[60vh] overflow-y-auto touch-auto">
+        <div className="flex items-start gap-3">
+          {alpha2 && (
+            <span className="text-5xl leading-none" role="img" aria-label={t.flag}>
+              {getFlagEmoji(alpha2)}
+            </span>
+          )}
+          <div className="flex-1 min-w-0">
+            <p className="font-black text-lg leading-tight">{locale === 'ja' ? japaneseName : englishName}</p>
+            {japaneseName !== englishName && (
+              <p className="text-xs font-bold text-slate-400">{locale === 'ja' ? englishName : japaneseName}</p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-lg" aria-label={t.closeCard}>
+            <X size={18} className="text-slate-500" />
+          </button>
+        </div>
+        <dl className="grid grid-cols-2 gap-3 text-sm">
+          {capital && (
+            <div>
+              <dt className="text-[10px] font-black text-slate-400 tracking-widest">{t.capital}</dt>
+              <dd className="font-bold text-slate-700">{capital}</dd>
+            </div>
+          )}
+          <div>
+            <dt className="text-[10px] font-black text-slate-400 tracking-widest">{t.area}</dt>
+            <dd className="font-bold text-slate-700 tabular-nums">{t.areaKm2(area)}</dd>
+          </div>
+          <div className="col-span-2">
+            <dt className="text-[10px] font-black text-slate-400 tracking-widest">{t.neighbors}</dt>
+            <dd className="flex flex-wrap gap-1 mt-1">
+              {neighbors.length > 0 ? (
+                neighbors.map(({ id, name }) => (
+                  <button
+                    key={id}
+                    onClick={() => onSelectNeighbor(id)}
+                    className="px-2 py-1 rounded-full bg-slate-100 text-xs font-bold text-slate-600 hover:bg-slate-200"
+                  >
+                    {name}
+                  </button>
+                ))
+              ) : (
+                <span className="text-xs font-bold text-slate-400">{t.noNeighbors}</span>
+              )}
+            </dd>
+          </div>
+        </dl>
+        <div className="space-y-2">
+          <p className="text-[10px] font-black text-slate-400 tracking-widest">{t.aboutCountry}</p>
+          {description ? (
+            <>
+              <p className="text-sm font-semibold text-slate-700 leading-snug">{description.summary}</p>
+              <ul className="list-disc pl-5 space-y-1 text-xs font-medium text-slate-500">
+                {description.hints.map((hint) => (
+                  <li key={hint}>{hint}</li>
+                ))}
+              </ul>
+            </>
+          ) : canDescribe ? (
+            <button
+              onClick={onDescribe}
+              disabled={isDescribing}
+              className="w-full bg-slate-900 text-white font-black py-3 rounded-xl text-xs active:scale-95 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <Sparkles size={14} /> {isDescribing ? t.fetchingHint : t.describeCountry}
+            </button>
+          ) : (
+            <p className="text-xs font-bold text-slate-400">{t.noDescription}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ExploreCard
@@ -0,0 +1,92 @@
+import { geoBounds } from 'd3-geo'
+import { useMemo, useState } from 'react'
+import { getCountryId, getLocalizedName, type GeoFeature } from './geo.ts'
+import { useLocale, useMessages } from './i18n.ts'
+import type { MapInset } from './insets.ts'
+import { createInsetProjection, createPathGenerator } from './projection.ts'
+import type { CountryStyle } from './WorldMap.tsx'
+
+// 拡大図の大きさ（px）
+const INSET_WIDTH = 160
+const INSET_HEIGHT = 112
+
+type MapInsetsProps = {
+  insets: MapInset[]
+  features: GeoFeature[]
+  hoverEnabled: boolean
+  getCountryStyle: (countryId: string, state: { hovered: boolean }) => CountryStyle
+  onCountryClick: (countryId: string, name: string) => void
+}
+
+const overlaps = (feature: GeoFeature, [[west, south], [east, north]]: MapInset['bounds']) => {
+  const [[minLon, minLat], [maxLon, maxLat]] = geoBounds(feature)
+  // 日付変更線をまたぐ国は経度の範囲が逆転するので、経度では絞り込まない
+  const lonOverlaps = minLon > maxLon || (minLon <= east && maxLon >= west)
+  return lonOverlaps && minLat <= north && maxLat >= south
+}
+
+// 小さな島国が密集した地域の拡大図。キーボード・スクリーンリーダーでは本体の地図から選べるので、ここはポインター操作専用にする
+const MapInsets = ({ insets, features, hoverEnabled, getCountryStyle, onCountryClick }: MapInsetsProps) => {
+  const t = useMessages()
+  const locale = useLocale()
+  const [hoveredId, setHoveredId] = useState<string | null>(null)
+
+  const insetPaths = useMemo(
+    () =>
+      insets.map((inset) => {
+        const renderPath = createPathGenerator(createInsetProjection(inset.bounds, INSET_WIDTH, INSET_HEIGHT))
+        const paths = features.flatMap((feature) => {
+          if (!overlaps(feature, inset.bounds)) return []
+          const d = renderPath(feature)
+          if (!d) return []
+          return [{ id: getCountryId(feature.properties), name: getLocalizedName(feature.properties, locale), d }]
+        })
+        return { inset, paths }
+      }),
+    [insets, features, locale],
+  )
+
+  if (insets.length === 0) return null
+
+  return (
+    <div
+      className="absolute top-20 left-4 z-10 flex flex-col gap-2"
+      aria-hidden
+      onPointerDown={(e) => e.stopPropagation()}
+      onWheel={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {insetPaths.map(({ inset, paths }) => (
+        <figure
+          key={inset.id}
+          className="bg-white/80 backdrop-blur-xl rounded-2xl shadow-xl border border-white/50 overflow-hidden"
+        >
+          <svg width={INSET_WIDTH} height={INSET_HEIGHT} className="block bg-[#d4e9f7]">
+            {paths.map((path) => {
+              const style = getCountryStyle(path.id, { hovered: path.id === hoveredId })
+              return (
+                <path
+                  key={path.id}
+                  d={path.d}
+                  fill={style.fill}
+                  stroke={style.stroke}
+                  strokeWidth={1}
+                  strokeDasharray={style.dash}
+                  className="cursor-pointer"
+                  onPointerEnter={() => hoverEnabled && setHoveredId(path.id)}
+                  onPointerLeave={() => setHoveredId(null)}
+                  onClick={() => onCountryClick(path.id, path.name)}
+                />
+              )
+            })}
+          </svg>
+          <figcaption className="px-3 py-1 text-[10px] font-black text-slate-500 tracking-widest">
+            {t.insets[inset.id]}
+          </figcaption>
+        </figure>
+      ))}
+    </div>
+  )
+}
+
+export default MapInsets
@@ -0,0 +1,50 @@
+import { useState } from 'react'
+import { Send } from 'lucide-react'
+import { useMessages } from './i18n.ts'
+
+type NameAnswerFormProps = {
+  suggestions: string[]
+  onSubmit: (value: string) => void
+}
+
+const NameAnswerForm = ({ suggestions, onSubmit }: NameAnswerFormProps) => {
+  const t = useMessages()
+  const [value, setValue] = useState('')
+
+  return (
+    <form
+      className="flex gap-2"
+      onSubmit={(e) => {
+        e.preventDefault()
+        if (!value.trim()) return
+        onSubmit(value)
+        setValue('')
+      }}
+    >
+      <input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        list="country-name-suggestions"
+        autoFocus
+        autoComplete="off"
+        placeholder={t.countryNamePlaceholder}
+        aria-label={t.countryName}
+        className="flex-1 min-w-0 rounded-2xl bg-slate-100 px-4 py-3 font-bold text-slate-800 outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <datalist id="country-name-suggestions">
+        {suggestions.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+      <button
+        type="submit"
+        disabled={!value.trim()}
+        className="bg-blue-600 text-white font-black px-5 rounded-2xl active:scale-95 transition-all disabled:opacity-40 flex items-center gap-2"
+      >
+        {t.answer} <Send size={16} />
+      </button>
+    </form>
+  )
+}
+
+export default NameAnswerForm
@@ -0,0 +1,116 @@
+import { useRef, useState } from 'react'
+import { Download, Upload, User } from 'lucide-react'
+import { useMessages } from './i18n.ts'
+import {
+  exportProfile,
+  getAccuracy,
+  getAverageMs,
+  getMostConfused,
+  getWeakestCountries,
+  parseProfile,
+  summarizeProfile,
+  type Profile,
+} from './profile.ts'
+import { formatSeconds } from './session.ts'
+
+type ProfilePanelProps = {
+  profile: Profile
+  getName: (countryId: string) => string
+  onImport: (profile: Profile) => void
+}
+
+const ProfilePanel = ({ profile, getName, onImport }: ProfilePanelProps) => {
+  const t = useMessages()
+  const fileRef = useRef<HTMLInputElement | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const summary = summarizeProfile(profile)
+  const weakest = getWeakestCountries(profile, 5)
+
+  const handleExport = () => {
+    const blob = new Blob([exportProfile(profile)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `geomind-profile-${new Date().toISOString().slice(0, 10)}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      onImport(parseProfile(await file.text()))
+      setImportError(null)
+    } catch (err) {
+      console.error('Profile import error:', err)
+      setImportError(t.importFailed)
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-2xl bg-slate-50 p-4">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 text-xs font-black text-slate-400 tracking-widest">
+          <User size={14} /> {t.profile}
+        </p>
+        <div className="flex gap-1">
+          <button
+            onClick={handleExport}
+            className="p-2 rounded-lg text-slate-500 hover:bg-white"
+            aria-label={t.exportProfile}
+          >
+            <Download size={16} />
+          </button>
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="p-2 rounded-lg text-slate-500 hover:bg-white"
+            aria-label={t.importProfile}
+          >
+            <Upload size={16} />
+          </button>
+          <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+      <div className="grid grid-cols-4 gap-2 text-center">
+        <div>
+          <p className="text-[10px] font-black text-slate-400">{t.games}</p>
+          <p className="font-black tabular-nums">{profile.gamesPlayed}</p>
+        </div>
+        <div>
+          <p className="text-[10px] font-black text-slate-400">{t.best}</p>
+          <p className="font-black tabular-nums">{profile.bestScore}</p>
+        </div>
+        <div>
+          <p className="text-[10px] font-black text-slate-400">{t.accuracy}</p>
+          <p className="font-black tabular-nums">{Math.round(summary.accuracy * 100)}%</p>
+        </div>
+        <div>
+          <p className="text-[10px] font-black text-slate-400">{t.countries}</p>
+          <p className="font-black tabular-nums">{summary.countriesSeen}</p>
+        </div>
+      </div>
+      {weakest.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {weakest.map(([id, stats]) => {
+            const confused = getMostConfused(stats)
+            return (
+              <li key={id} className="flex items-center gap-2">
+                <span className="font-bold text-slate-700 truncate">{getName(id)}</span>
+                <span className="tabular-nums text-slate-400">
+                  {stats.correct}/{stats.attempts} ({Math.round(getAccuracy(stats) * 100)}%)
+                </span>
+                <span className="ml-auto tabular-nums text-slate-400">{formatSeconds(getAverageMs(stats))}</span>
+                {confused && <span className="text-red-400 truncate">↔ {getName(confused)}</span>}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+      {importError && <p className="text-xs font-bold text-red-500">{importError}</p>}
+    </div>
+  )
+}
+
+export default ProfilePanel
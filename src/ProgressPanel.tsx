@@ -0,0 +1,76 @@
+import { Dumbbell } from 'lucide-react'
+import { useMessages } from './i18n.ts'
+import {
+  getAccuracy,
+  getAverageMs,
+  getMastery,
+  getMostConfused,
+  type Mastery,
+  type Profile,
+} from './profile.ts'
+import { formatSeconds } from './session.ts'
+import { MASTERY_COLORS } from './palette.ts'
+
+type ProgressPanelProps = {
+  profile: Profile
+  inspectedId: string | null
+  getName: (countryId: string) => string
+  practiceCount: number
+  onPractice: () => void
+}
+
+const ProgressPanel = ({ profile, inspectedId, getName, practiceCount, onPractice }: ProgressPanelProps) => {
+  const t = useMessages()
+  const stats = inspectedId ? profile.countries[inspectedId] : undefined
+  const confused = stats ? getMostConfused(stats) : null
+
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-lg z-30">
+      <div className="bg-white/95 backdrop-blur-2xl shadow-2xl rounded-[2.5rem] border border-white p-5 space-y-4">
+        <div className="flex flex-wrap justify-center gap-3">
+          {(Object.keys(MASTERY_COLORS) as Mastery[]).map((mastery) => (
+            <span key={mastery} className="flex items-center gap-1.5 text-xs font-bold text-slate-600">
+              <span
+                className="inline-block w-3 h-3 rounded-sm border border-slate-300"
+                style={{ backgroundColor: MASTERY_COLORS[mastery] }}
+              />
+              {t.mastery[mastery]}
+            </span>
+          ))}
+        </div>
+        {inspectedId ? (
+          <div className="space-y-1 text-sm">
+            <p className="font-black text-lg">
+              {getName(inspectedId)}
+              <span className="ml-2 text-xs font-bold text-slate-400">{t.mastery[getMastery(stats)]}</span>
+            </p>
+            {stats ? (
+              <p className="text-slate-600 font-semibold tabular-nums">
+                {t.countryStats(
+                  stats.correct,
+                  stats.attempts,
+                  Math.round(getAccuracy(stats) * 100),
+                  formatSeconds(getAverageMs(stats)),
+                )}
+                {confused && t.mostConfused(getName(confused))}
+              </p>
+            ) : (
+              <p className="text-slate-400 font-semibold">{t.notAskedYet}</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-center text-xs font-bold text-slate-400">{t.tapCountryForStats}</p>
+        )}
+        <button
+          onClick={onPractice}
+          disabled={practiceCount === 0}
+          className="w-full bg-slate-900 text-white font-black py-4 rounded-[1.5rem] shadow-xl active:scale-95 transition-all flex items-center justify-center gap-3 disabled:opacity-40"
+        >
+          {t.practiceWeakest(practiceCount)} <Dumbbell size={18} />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ProgressPanel
@@ -0,0 +1,95 @@
+import type { HintStep } from './hintLadder.ts'
+import { useMessages } from './i18n.ts'
+import { getFlagEmoji, type QuestionType } from './questions.ts'
+
+type QuestionPromptProps = {
+  type: QuestionType
+  // 開いた分だけのヒント（漠然としたものが先頭）
+  hintSteps: HintStep[]
+  // 正解したときに得られる点数
+  availablePoints: number
+  // 次のヒントを開く。もう無ければ null
+  onMoreHint: (() => void) | null
+  nextPenalty: number
+  capital: string | null
+  alpha2: string | null
+  neighborNames: string[]
+}
+
+const QuestionPrompt = ({
+  type,
+  hintSteps,
+  availablePoints,
+  onMoreHint,
+  nextPenalty,
+  capital,
+  alpha2,
+  neighborNames,
+}: QuestionPromptProps) => {
+  const t = useMessages()
+  if (type === 'capital' && capital) {
+    return (
+      <p className="text-slate-700 text-sm leading-snug font-semibold">
+        {t.capitalQuestion[0]}
+        <span className="mx-1 text-lg font-black text-slate-900">{capital}</span>
+        {t.capitalQuestion[1]}
+      </p>
+    )
+  }
+  if (type === 'flag' && alpha2) {
+    return (
+      <div className="flex items-center gap-4">
+        <span className="text-6xl leading-none" role="img" aria-label={t.flag}>
+          {getFlagEmoji(alpha2)}
+        </span>
+        <p className="text-slate-700 text-sm leading-snug font-semibold">{t.flagQuestion}</p>
+      </div>
+    )
+  }
+  if (type === 'neighbors' && neighborNames.length > 0) {
+    return (
+      <div className="space-y-2">
+        <p className="text-slate-700 text-sm leading-snug font-semibold">{t.neighborsQuestion}</p>
+        <div className="flex flex-wrap gap-1.5">
+          {neighborNames.map((name) => (
+            <span key={name} className="px-2.5 py-1 rounded-full bg-slate-100 text-xs font-bold text-slate-700">
+              {name}
+            </span>
+          ))}
+        </div>
+      </div>
+    )
+  }
+  if (hintSteps.length === 0) {
+    return <p className="text-slate-700 text-sm leading-snug font-semibold">{t.searching}</p>
+  }
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-1.5 max-h-32 overflow-y-auto pr-2">
+        {hintSteps.map((step, index) => (
+          <li
+            key={index}
+            className={`text-sm leading-snug ${
+              index === hintSteps.length - 1 ? 'text-slate-700 font-semibold' : 'text-slate-400 font-medium'
+            }`}
+          >
+            {step.text}
+          </li>
+        ))}
+      </ol>
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs font-black text-amber-500 tabular-nums">{t.availablePoints(availablePoints)}</span>
+        {onMoreHint && (
+          <button
+            onClick={onMoreHint}
+            className="px-3 py-2 rounded-xl bg-slate-100 text-slate-600 text-[10px] font-black active:scale-95 transition-all"
+          >
+            {t.moreHint(nextPenalty)}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default QuestionPrompt
@@ -0,0 +1,155 @@
+import { useState } from 'react'
+import { Crown, LogOut, Users } from 'lucide-react'
+import { useMessages } from './i18n.ts'
+import {
+  MAX_PLAYER_NAME_LENGTH,
+  MAX_ROOM_PLAYERS,
+  MIN_ROOM_PLAYERS,
+  ROOM_CODE_LENGTH,
+  canStartRoom,
+  isRoomCode,
+  loadPlayerName,
+  normalizeRoomCode,
+  savePlayerName,
+  type Room,
+  type RoomJoinError,
+} from './room.ts'
+
+export type RoomPanelError = RoomJoinError | 'unavailable' | 'closed'
+
+type RoomPanelProps = {
+  room: Room | null
+  playerId: string | null
+  connecting: boolean
+  error: RoomPanelError | null
+  // 出題範囲が空のときなど、ホストの側で開始できない
+  startDisabled: boolean
+  onCreate: (name: string) => void
+  onJoin: (code: string, name: string) => void
+  onStart: () => void
+  onLeave: () => void
+}
+
+// スタート画面のマルチプレイ欄。ルームに入る前は作成・参加、入ったあとは参加者の一覧と開始ボタンを出す
+const RoomPanel = ({
+  room,
+  playerId,
+  connecting,
+  error,
+  startDisabled,
+  onCreate,
+  onJoin,
+  onStart,
+  onLeave,
+}: RoomPanelProps) => {
+  const t = useMessages()
+  const [name, setName] = useState(loadPlayerName)
+  const [code, setCode] = useState('')
+  const trimmedName = name.trim()
+
+  const withName = (action: (name: string) => void) => () => {
+    savePlayerName(trimmedName)
+    action(trimmedName)
+  }
+
+  if (room) {
+    const players = Object.entries(room.players).sort(([, a], [, b]) => a.joinedAt - b.joinedAt)
+    const isHost = room.hostId === playerId
+    return (
+      <div className="space-y-3 rounded-2xl bg-slate-50 p-4">
+        <div className="flex items-center justify-between">
+          <p className="flex items-center gap-2 text-xs font-black text-slate-400 tracking-widest">
+            <Users size={14} /> {t.roomCode}
+          </p>
+          <button
+            onClick={onLeave}
+            className="flex items-center gap-1 px-3 py-2 rounded-xl bg-white text-slate-600 text-[10px] font-black"
+          >
+            <LogOut size={12} /> {t.leaveRoom}
+          </button>
+        </div>
+        <p className="text-center text-4xl font-black tracking-[0.3em] tabular-nums select-all">{room.code}</p>
+        <p className="text-[10px] font-black text-slate-400 tracking-widest">
+          {t.roomPlayers(players.length, MAX_ROOM_PLAYERS)}
+        </p>
+        <ul className="space-y-1">
+          {players.map(([id, player]) => (
+            <li key={id} className="flex items-center gap-2 rounded-xl bg-white px-3 py-2 text-sm font-bold">
+              {id === room.hostId && <Crown size={14} className="text-amber-500" aria-label={t.roomHost} />}
+              <span className="truncate">{player.name}</span>
+              {id === playerId && <span className="ml-auto text-[10px] font-black text-blue-600">{t.you}</span>}
+            </li>
+          ))}
+        </ul>
+        {isHost ? (
+          <>
+            <button
+              onClick={onStart}
+              disabled={startDisabled || !canStartRoom(room)}
+              className="w-full bg-blue-600 text-white font-black py-4 rounded-[1.5rem] shadow-xl active:scale-95 transition-all disabled:opacity-50"
+            >
+              {t.startRoom}
+            </button>
+            {players.length < MIN_ROOM_PLAYERS && (
+              <p className="text-center text-[10px] font-bold text-slate-400">{t.needMorePlayers(MIN_ROOM_PLAYERS)}</p>
+            )}
+          </>
+        ) : (
+          <p className="text-center text-xs font-bold text-slate-500">{t.waitingForHost}</p>
+        )}
+      </div>
+    )
+  }
+
+  const normalizedCode = normalizeRoomCode(code)
+
+  return (
+    <div className="space-y-3 rounded-2xl bg-slate-50 p-4">
+      <p className="flex items-center gap-2 text-xs font-black text-slate-400 tracking-widest">
+        <Users size={14} /> {t.multiplayer}
+      </p>
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={MAX_PLAYER_NAME_LENGTH}
+        placeholder={t.playerName}
+        aria-label={t.playerName}
+        className="w-full rounded-xl bg-white px-3 py-2 text-sm font-bold outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <button
+        onClick={withName(onCreate)}
+        disabled={connecting || !trimmedName}
+        className="w-full bg-slate-900 text-white font-black py-3 rounded-xl text-xs active:scale-95 transition-all disabled:opacity-50"
+      >
+        {connecting ? t.connectingRoom : t.createRoom}
+      </button>
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          withName((playerName) => onJoin(normalizedCode, playerName))()
+        }}
+      >
+        <input
+          value={code}
+          onChange={(e) => setCode(normalizeRoomCode(e.target.value))}
+          maxLength={ROOM_CODE_LENGTH}
+          placeholder={t.roomCode}
+          aria-label={t.roomCode}
+          autoCapitalize="characters"
+          className="min-w-0 flex-1 rounded-xl bg-white px-3 py-2 text-sm font-black tracking-widest outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={connecting || !trimmedName || !isRoomCode(normalizedCode)}
+          className="shrink-0 px-4 rounded-xl bg-slate-200 text-slate-700 text-xs font-black disabled:opacity-50"
+        >
+          {t.joinRoom}
+        </button>
+      </form>
+      {error && <p className="text-center text-xs font-bold text-red-500">{t.roomErrors[error]}</p>}
+    </div>
+  )
+}
+
+export default RoomPanel
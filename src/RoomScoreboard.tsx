@@ -0,0 +1,52 @@
+import { CheckCircle2, Trophy } from 'lucide-react'
+import { useMessages } from './i18n.ts'
+import { buildScoreboard, getRoundWinner, type Room } from './room.ts'
+import { formatSeconds } from './session.ts'
+
+type RoomScoreboardProps = {
+  room: Room
+  playerId: string | null
+  // 回答後は今の問題で一番乗りした人を出す
+  showRoundWinner: boolean
+}
+
+// ルームの順位表。Realtime Database の変更がそのまま反映される
+const RoomScoreboard = ({ room, playerId, showRoundWinner }: RoomScoreboardProps) => {
+  const t = useMessages()
+  const rows = buildScoreboard(room)
+  const winner = showRoundWinner ? getRoundWinner(room, room.round) : null
+  const winnerName = winner ? (room.players[winner.playerId]?.name ?? '?') : null
+
+  return (
+    <section className="bg-white/90 backdrop-blur-xl rounded-2xl shadow-xl border border-white/50 p-3 space-y-2" aria-live="polite">
+      <p className="flex items-center gap-2 text-[10px] font-black text-slate-400 tracking-widest">
+        <Trophy size={12} /> {t.scoreboard}
+      </p>
+      <ol className="space-y-1">
+        {rows.map((row, index) => (
+          <li
+            key={row.playerId}
+            className={`flex items-center gap-2 rounded-xl px-2 py-1 text-xs font-bold ${
+              row.playerId === playerId ? 'bg-blue-50 text-blue-700' : 'text-slate-700'
+            }`}
+          >
+            <span className="w-4 text-slate-400 tabular-nums">{index + 1}</span>
+            <span className="truncate flex-1">{row.name}</span>
+            {room.status === 'playing' && row.answered && (
+              <CheckCircle2 size={12} className="text-slate-400 shrink-0" aria-hidden />
+            )}
+            <span className="text-[10px] text-slate-400 shrink-0">{t.firsts(row.firsts)}</span>
+            <span className="w-8 text-right font-black tabular-nums shrink-0">{row.score}</span>
+          </li>
+        ))}
+      </ol>
+      {showRoundWinner && (
+        <p className="text-[10px] font-black text-amber-600">
+          {winner && winnerName ? t.foundFirst(winnerName, formatSeconds(winner.elapsedMs)) : t.nobodyFound}
+        </p>
+      )}
+    </section>
+  )
+}
+
+export default RoomScoreboard
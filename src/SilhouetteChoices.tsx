@@ -0,0 +1,32 @@
+import { useMessages } from './i18n.ts'
+
+type SilhouetteChoicesProps = {
+  choices: Array<{ id: string; name: string }>
+  onChoose: (choice: { id: string; name: string }) => void
+}
+
+// シルエットモードの 4 択
+const SilhouetteChoices = ({ choices, onChoose }: SilhouetteChoicesProps) => {
+  const t = useMessages()
+
+  return (
+    <div className="space-y-3">
+      <p className="text-slate-700 text-sm leading-snug font-semibold">{t.silhouettePrompt}</p>
+      <div className="grid grid-cols-2 gap-2">
+        {choices.map((choice, i) => (
+          <button
+            key={choice.id}
+            type="button"
+            autoFocus={i === 0}
+            onClick={() => onChoose(choice)}
+            className="py-4 px-3 rounded-2xl bg-slate-100 text-sm font-black text-slate-700 hover:bg-slate-200 active:scale-95 transition-all"
+          >
+            {choice.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default SilhouetteChoices
@@ -0,0 +1,842 @@
+import { useEffect, useImperativeHandle, useMemo, useRef, useState, type Ref } from 'react'
+import {
+  DEFAULT_ZOOM_LIMITS,
+  INITIAL_CAMERA,
+  MIN_INERTIA_SPEED,
+  centerOn,
+  decayVelocity,
+  easeInOutCubic,
+  fitBounds,
+  formatViewBox,
+  getViewTransform,
+  interpolateCamera,
+  interpolateRotation,
+  isPointVisible,
+  panBy,
+  rotateBy,
+  zoomAt,
+  type Camera,
+  type Point,
+  type Viewport,
+} from './camera.ts'
+import { MAP_HEIGHT, MAP_WIDTH, getCountryId, getLocalizedName, type GeoFeature } from './geo.ts'
+import { useLocale, useMessages } from './i18n.ts'
+import CanvasMapLayer from './CanvasMapLayer.tsx'
+import type { MapInset } from './insets.ts'
+import MapInsets from './MapInsets.tsx'
+import { ARROW_DIRECTIONS, compareGeographic, findNextInDirection, type NavPoint } from './keyboardNav.ts'
+import { getLabelPoint, placeLabels, projectLabelPoint, type PlacedLabel } from './mapLabels.ts'
+import { fitSilhouette } from './silhouette.ts'
+import { buildShapeIndex, hitTestShapes, projectFeature, type MapRenderer, type ProjectedShape } from './mapGeometry.ts'
+import { ANSWER_COLORS, FOCUS_STROKE, GUESS_LINE_STROKE } from './palette.ts'
+import { TAP_RADIUS_PX, findTapCandidates, isTinyOnScreen, type TapTarget } from './tapTargets.ts'
+import {
+  createPathGenerator,
+  createProjection,
+  getFocusBounds,
+  getFocusCenter,
+  getLonLatBoundsCenter,
+  getProjectedLonLatBounds,
+  getSpherePath,
+  type Bounds,
+  type LonLatBounds,
+  type ProjectionId,
+  type Rotation,
+} from './projection.ts'
+
+// dash は破線の長さ（画面上の px）。ズームしても見た目の太さが変わらないよう倍率で割って描く
+export type CountryStyle = {
+  fill: string
+  stroke: string
+  dash?: string
+}
+
+export type CameraOptions = {
+  // 画面上の余白（px）
+  padding?: number
+  // false なら移動アニメーションを省く
+  animate?: boolean
+}
+
+// 親から地図の表示位置を動かすための操作
+export type WorldMapHandle = {
+  // 複数の国を渡すとすべてが収まるように寄せる（地球儀では先頭の国を正面に向ける）
+  flyTo: (countryId: string | string[], options?: CameraOptions) => void
+  fitBounds: (bounds: Bounds, options?: CameraOptions) => void
+  reset: (options?: CameraOptions) => void
+  zoomBy: (factor: number) => void
+}
+
+// svg では d、canvas では shape だけを作る
+type PathDatum = {
+  id: string
+  name: string
+  d?: string
+  shape?: ProjectedShape
+  // キーボード操作で使う国の中心（地図の座標系）。地球儀の裏側にあるときは null
+  center: [number, number] | null
+  // 地図の座標系での大きさ（縦横の長い方）
+  extent: number
+}
+
+// 選んだ国から正解の国へ引く線。d は大圏航路、from・to は両端（地図の座標系、地球儀の裏側にあるときは null）
+export type GuessLine = {
+  d: string
+  from: [number, number] | null
+  to: [number, number] | null
+}
+
+// シルエットモードで地図を隠して輪郭だけを見せる国。revealed になると地図上の本来の位置へ動かす
+export type Silhouette = {
+  countryId: string
+  revealed: boolean
+}
+
+// 近くにある小さな国のどれを押したのか選んでもらうための一覧。x・y は地図の要素内での位置（px）
+type Chooser = {
+  x: number
+  y: number
+  ids: string[]
+}
+
+type WorldMapProps = {
+  ref?: Ref<WorldMapHandle>
+  features: GeoFeature[]
+  projectionId: ProjectionId
+  renderer?: MapRenderer
+  minZoom?: number
+  maxZoom?: number
+  // 国を選べる画面かどうか。false のときはキーボード・スクリーンリーダーから国を操作させない
+  interactive: boolean
+  // マウスを乗せた国を強調するかどうか
+  hoverEnabled: boolean
+  getCountryStyle: (countryId: string, state: { hovered: boolean }) => CountryStyle
+  getCountryLabel?: (countryId: string, name: string) => string
+  onCountryClick: (countryId: string, name: string) => void
+  // 隅に表示する拡大図
+  insets?: MapInset[]
+  // 回答後に線で結ぶ、選んだ国と正解の国の [経度, 緯度]
+  guessArc?: [Rotation, Rotation] | null
+  // リセット時に画面へ収める範囲。省略時は世界全体
+  home?: LonLatBounds
+  // ズームに応じて国名を表示するかどうか
+  showLabels?: boolean
+  silhouette?: Silhouette | null
+}
+
+const NO_INSETS: MapInset[] = []
+
+// キーボードでのパン1回分の移動量（画面上のピクセル）とズーム倍率
+const KEYBOARD_PAN_PX = 60
+const KEYBOARD_ZOOM_FACTOR = 1.25
+const FLY_DURATION_MS = 450
+// これ以上動いたらクリックではなくドラッグとみなす（px）
+const DRAG_THRESHOLD_PX = 6
+
+const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && window.matchMedia('(prefers-reduced-motion: reduce)').matches
+
+const getCenter = (pts: Map<number, { x: number; y: number }>) => {
+  const arr = Array.from(pts.values())
+  if (arr.length === 1) return { x: arr[0].x, y: arr[0].y }
+  if (arr.length >= 2) return { x: (arr[0].x + arr[1].x) / 2, y: (arr[0].y + arr[1].y) / 2 }
+  return { x: 0, y: 0 }
+}
+
+const getDist = (pts: Map<number, { x: number; y: number }>) => {
+  const arr = Array.from(pts.values())
+  if (arr.length < 2) return 0
+  return Math.hypot(arr[0].x - arr[1].x, arr[0].y - arr[1].y)
+}
+
+const WorldMap = ({
+  ref,
+  features,
+  projectionId,
+  renderer = 'svg',
+  minZoom = DEFAULT_ZOOM_LIMITS.minZoom,
+  maxZoom = DEFAULT_ZOOM_LIMITS.maxZoom,
+  interactive,
+  hoverEnabled,
+  getCountryStyle,
+  getCountryLabel,
+  onCountryClick,
+  insets = NO_INSETS,
+  guessArc = null,
+  home,
+  showLabels = false,
+  silhouette = null,
+}: WorldMapProps) => {
+  const t = useMessages()
+  const locale = useLocale()
+  const [camera, setCamera] = useState<Camera>(INITIAL_CAMERA)
+  const [rotation, setRotation] = useState<Rotation>([0, 0])
+  const [hoveredId, setHoveredId] = useState<string | null>(null)
+  const [focusedId, setFocusedId] = useState<string | null>(null)
+  const [chooser, setChooser] = useState<Chooser | null>(null)
+  const [viewport, setViewport] = useState<Viewport | null>(null)
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  // アニメーションの開始点に使うため、最新の表示位置を描画の外でも読めるようにしておく
+  const cameraRef = useRef(camera)
+  const rotationRef = useRef(rotation)
+  const animationFrame = useRef<number | null>(null)
+  const pointers = useRef<Map<number, { x: number; y: number }>>(new Map())
+  const lastCenter = useRef<{ x: number; y: number } | null>(null)
+  const lastDist = useRef(0)
+  const dragState = useRef<{ start: { x: number; y: number } | null; moved: boolean }>({
+    start: null,
+    moved: false,
+  })
+  // 指を離したときの速度（px/ms）。慣性スクロールに使う
+  const velocity = useRef<Point>([0, 0])
+  const lastMoveAt = useRef(0)
+  const suppressClick = useRef(false)
+
+  const limits = useMemo(() => ({ minZoom, maxZoom }), [minZoom, maxZoom])
+
+  useEffect(() => {
+    cameraRef.current = camera
+    rotationRef.current = rotation
+  }, [camera, rotation])
+
+  useEffect(() => () => {
+    if (animationFrame.current !== null) cancelAnimationFrame(animationFrame.current)
+  }, [])
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect
+      setViewport(width && height ? { width, height } : null)
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const projection = useMemo(() => createProjection(projectionId, rotation), [projectionId, rotation])
+  const spherePath = useMemo(() => getSpherePath(projection), [projection])
+
+  // Tab で巡る順に合わせ、描画順も北から南・西から東に並べておく
+  const geoOrderedFeatures = useMemo(
+    () =>
+      features
+        .map((feature) => ({ feature, focus: getFocusCenter(feature) }))
+        .sort((a, b) => compareGeographic(a.focus, b.focus)),
+    [features],
+  )
+
+  // 日付変更線での分割と、地球儀の裏側の切り取りは d3-geo に任せる
+  const pathData = useMemo<PathDatum[]>(() => {
+    const renderPath = createPathGenerator(projection)
+    return geoOrderedFeatures.flatMap(({ feature, focus }) => {
+      const d = renderer === 'svg' ? renderPath(feature) : null
+      const shape = renderer === 'canvas' ? projectFeature(feature, projection) : null
+      if (!d && !shape) return []
+      const [[minX, minY], [maxX, maxY]] = shape
+        ? [
+            [shape.bounds.minX, shape.bounds.minY],
+            [shape.bounds.maxX, shape.bounds.maxY],
+          ]
+        : renderPath.bounds(feature)
+      return [
+        {
+          id: getCountryId(feature.properties),
+          name: getLocalizedName(feature.properties, locale),
+          d: d ?? undefined,
+          shape: shape ?? undefined,
+          center: projection(focus),
+          extent: Math.max(maxX - minX, maxY - minY),
+        },
+      ]
+    })
+  }, [geoOrderedFeatures, projection, locale, renderer])
+
+  // 大圏航路の分割（日付変更線・地球儀の裏側）は d3-geo に任せる
+  const guessLine = useMemo<GuessLine | null>(() => {
+    if (!guessArc) return null
+    const d = createPathGenerator(projection)({ type: 'LineString', coordinates: guessArc })
+    return d ? { d, from: projection(guessArc[0]), to: projection(guessArc[1]) } : null
+  }, [guessArc, projection])
+
+  // 国名の位置（経度・緯度）。求めるのに時間がかかるので、ラベルを出すときだけ国ごとに一度だけ計算する
+  const labelPoints = useMemo(
+    () =>
+      showLabels
+        ? new Map(features.map((feature) => [getCountryId(feature.properties), getLabelPoint(feature)]))
+        : null,
+    [features, showLabels],
+  )
+
+  const labels = useMemo<PlacedLabel[]>(() => {
+    if (!labelPoints || !viewport) return []
+    const candidates = pathData.flatMap(({ id, name, extent }) => {
+      const lonLat = labelPoints.get(id)
+      const point = lonLat ? projectLabelPoint(projection, lonLat) : null
+      return point ? [{ id, name, point, extent }] : []
+    })
+    return placeLabels(candidates, getViewTransform(camera, viewport), viewport)
+  }, [labelPoints, pathData, projection, camera, viewport])
+
+  // シルエットの輪郭は、答えたあと flyTo で向かう先と同じ投影（地球儀では国を正面に向けた回転）で描いておく
+  const silhouetteId = silhouette?.countryId ?? null
+  const silhouetteShape = useMemo(() => {
+    const feature = silhouetteId
+      ? features.find((candidate) => getCountryId(candidate.properties) === silhouetteId)
+      : undefined
+    if (!feature) return null
+    const targetProjection = createProjection(
+      projectionId,
+      projectionId === 'orthographic' ? getFocusCenter(feature) : [0, 0],
+    )
+    const d = createPathGenerator(targetProjection)(feature)
+    const bounds = getFocusBounds(feature, targetProjection)
+    return d && bounds ? { d, bounds } : null
+  }, [silhouetteId, features, projectionId])
+  // 答える前は画面の中央に大きく、答えたあとは今の表示位置（カメラ）の変換で地図に重ねる
+  const silhouetteTransform =
+    silhouette && silhouetteShape && viewport
+      ? silhouette.revealed
+        ? getViewTransform(camera, viewport)
+        : fitSilhouette(silhouetteShape.bounds, viewport)
+      : null
+
+  const canvasShapes = useMemo(
+    () => pathData.flatMap(({ id, shape }) => (shape ? [{ id, ...shape }] : [])),
+    [pathData],
+  )
+  const shapeIndex = useMemo(() => buildShapeIndex(canvasShapes), [canvasShapes])
+
+  // 地図の座標 1 あたりの画面上の px。表示領域の大きさが分かるまでは当たり判定の円を出さない
+  const pixelsPerUnit = viewport ? getViewTransform(camera, viewport).k : null
+  const tapRadius = pixelsPerUnit ? TAP_RADIUS_PX / pixelsPerUnit : 0
+  const tinyTargets = useMemo<TapTarget[]>(
+    () =>
+      pixelsPerUnit
+        ? pathData.flatMap(({ id, center, extent }) =>
+            center && isTinyOnScreen(extent, pixelsPerUnit) ? [{ id, center }] : [],
+          )
+        : [],
+    [pathData, pixelsPerUnit],
+  )
+
+  const navPoints = useMemo<NavPoint[]>(
+    () => pathData.flatMap(({ id, center }) => (center ? [{ id, x: center[0], y: center[1] }] : [])),
+    [pathData],
+  )
+
+  const getViewport = (): Viewport | null => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    return rect && rect.width && rect.height ? { width: rect.width, height: rect.height } : null
+  }
+
+  const clientToMap = (clientX: number, clientY: number): Point | null => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (!rect || !rect.width || !rect.height) return null
+    const { k, x, y } = getViewTransform(cameraRef.current, rect)
+    return [(clientX - rect.left - x) / k, (clientY - rect.top - y) / k]
+  }
+
+  // 画面上の点（clientX, clientY）の真下にある国。canvas では R-tree で絞り込んでから多角形の内外を判定する
+  const getCountryAtPoint = (clientX: number, clientY: number) => {
+    if (renderer === 'svg') {
+      const id = document
+        .elementsFromPoint(clientX, clientY)
+        .find((element) => element.matches('path[data-country-id]'))
+        ?.getAttribute('data-country-id')
+      return id ?? null
+    }
+    const point = clientToMap(clientX, clientY)
+    const index = point ? hitTestShapes(canvasShapes, shapeIndex, point) : null
+    return index === null ? null : canvasShapes[index].id
+  }
+
+  // 押した位置の候補。真下の国に加え、当たり判定の円が届く小さな国も含める（近い順）
+  const getTapCandidates = (clientX: number, clientY: number) => {
+    const point = clientToMap(clientX, clientY)
+    const nearby = point ? findTapCandidates(tinyTargets, point, tapRadius) : []
+    const underPointer = getCountryAtPoint(clientX, clientY)
+    return underPointer && !nearby.includes(underPointer) ? [...nearby, underPointer] : nearby
+  }
+
+  const stopAnimation = () => {
+    if (animationFrame.current === null) return
+    cancelAnimationFrame(animationFrame.current)
+    animationFrame.current = null
+  }
+
+  // 現在の表示位置から目標まで補間しながら動かす。動きを減らす設定のときはすぐに移る
+  const animateTo = (target: Camera, targetRotation: Rotation, animate = true) => {
+    stopAnimation()
+    if (!animate || prefersReducedMotion()) {
+      setCamera(target)
+      setRotation(targetRotation)
+      return
+    }
+    const fromCamera = cameraRef.current
+    const fromRotation = rotationRef.current
+    // 開始時刻は最初のフレームの時刻にする
+    let startedAt: number | null = null
+    const step = (now: number) => {
+      startedAt ??= now
+      const progress = Math.min(1, (now - startedAt) / FLY_DURATION_MS)
+      const eased = easeInOutCubic(progress)
+      setCamera(interpolateCamera(fromCamera, target, eased))
+      setRotation(interpolateRotation(fromRotation, targetRotation, eased))
+      animationFrame.current = progress < 1 ? requestAnimationFrame(step) : null
+    }
+    animationFrame.current = requestAnimationFrame(step)
+  }
+
+  // 画面上の移動量（px）だけ地図を動かす。地球儀はパンの代わりに回転させる
+  const panByPixels = (dx: number, dy: number, viewport: Viewport) => {
+    if (projectionId === 'orthographic') {
+      // 画面上の地球の半径から1pxあたりの角度を求める
+      const radiusPx = (projection.scale() * (viewport.width * cameraRef.current.scale)) / MAP_WIDTH
+      setRotation((prev) => rotateBy(prev, dx, dy, radiusPx))
+      return
+    }
+    setCamera((prev) => panBy(prev, dx, dy, viewport))
+  }
+
+  const zoomAtCenter = (factor: number) => {
+    const viewport = getViewport()
+    if (!viewport) return
+    stopAnimation()
+    setCamera((prev) => zoomAt(prev, factor, [viewport.width / 2, viewport.height / 2], viewport, limits))
+  }
+
+  // 指を離したあとも、離したときの速さで少しずつ減速しながら動かし続ける
+  const startInertia = () => {
+    const viewport = getViewport()
+    if (!viewport || prefersReducedMotion()) return
+    let last: number | null = null
+    const step = (now: number) => {
+      const elapsed = last === null ? 0 : now - last
+      last = now
+      const [vx, vy] = velocity.current
+      if (Math.hypot(vx, vy) < MIN_INERTIA_SPEED) {
+        animationFrame.current = null
+        return
+      }
+      panByPixels(vx * elapsed, vy * elapsed, viewport)
+      velocity.current = decayVelocity(velocity.current, elapsed)
+      animationFrame.current = requestAnimationFrame(step)
+    }
+    animationFrame.current = requestAnimationFrame(step)
+  }
+
+  const flyTo = (countryId: string | string[], { padding = 40, animate = true }: CameraOptions = {}) => {
+    const ids = Array.isArray(countryId) ? countryId : [countryId]
+    const targets = ids.flatMap((id) => features.filter((candidate) => getCountryId(candidate.properties) === id))
+    const viewport = getViewport()
+    if (targets.length === 0 || !viewport) return
+    // 地球儀では先に国が正面に来るよう回転させ、回転後の投影で範囲を求める。
+    // 地球儀以外は回転しないので、現在の回転状態に依存させない（ドラッグのたびにズームし直さないため）
+    const targetRotation: Rotation = projectionId === 'orthographic' ? getFocusCenter(targets[0]) : [0, 0]
+    const targetProjection = createProjection(projectionId, targetRotation)
+    const bounds = targets
+      .map((feature) => getFocusBounds(feature, targetProjection))
+      .reduce<Bounds | null>(
+        (acc, next) =>
+          !acc || !next
+            ? (acc ?? next)
+            : {
+                minX: Math.min(acc.minX, next.minX),
+                maxX: Math.max(acc.maxX, next.maxX),
+                minY: Math.min(acc.minY, next.minY),
+                maxY: Math.max(acc.maxY, next.maxY),
+              },
+        null,
+      )
+    if (!bounds) return
+    animateTo(fitBounds(bounds, viewport, padding, limits), targetRotation, animate)
+  }
+
+  // home の範囲が画面に収まる表示位置。地球儀では範囲の中心を正面に向ける
+  const resetToHome = (animate = true) => {
+    const viewport = getViewport()
+    if (!home || !viewport) {
+      animateTo(INITIAL_CAMERA, [0, 0], animate)
+      return
+    }
+    const targetRotation: Rotation = projectionId === 'orthographic' ? getLonLatBoundsCenter(home) : [0, 0]
+    const bounds = getProjectedLonLatBounds(home, createProjection(projectionId, targetRotation))
+    animateTo(bounds ? fitBounds(bounds, viewport, 0, limits) : INITIAL_CAMERA, targetRotation, animate)
+  }
+
+  useImperativeHandle(ref, () => ({
+    flyTo,
+    fitBounds: (bounds, { padding = 40, animate = true } = {}) => {
+      const viewport = getViewport()
+      if (viewport) animateTo(fitBounds(bounds, viewport, padding, limits), rotationRef.current, animate)
+    },
+    reset: ({ animate = false } = {}) => resetToHome(animate),
+    zoomBy: zoomAtCenter,
+  }))
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    stopAnimation()
+    setChooser(null)
+    velocity.current = [0, 0]
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+    lastCenter.current = getCenter(pointers.current)
+    lastMoveAt.current = e.timeStamp
+    if (pointers.current.size === 2) lastDist.current = getDist(pointers.current)
+    if (pointers.current.size === 1) {
+      dragState.current = { start: { x: e.clientX, y: e.clientY }, moved: false }
+    } else {
+      dragState.current.moved = true
+    }
+    const target = e.target as Element | null
+    if (target?.setPointerCapture) {
+      target.setPointerCapture(e.pointerId)
+    } else {
+      e.currentTarget.setPointerCapture(e.pointerId)
+    }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (renderer === 'canvas' && pointers.current.size === 0 && e.pointerType === 'mouse') {
+      setHoveredId(hoverEnabled ? (getTapCandidates(e.clientX, e.clientY)[0] ?? null) : null)
+    }
+    if (!pointers.current.has(e.pointerId) || !lastCenter.current || !containerRef.current) return
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+    const center = getCenter(pointers.current)
+    const rect = containerRef.current.getBoundingClientRect()
+
+    if (pointers.current.size === 1) {
+      const dx = center.x - lastCenter.current.x
+      const dy = center.y - lastCenter.current.y
+      const start = dragState.current.start
+      if (start && !dragState.current.moved) {
+        const movedDist = Math.hypot(e.clientX - start.x, e.clientY - start.y)
+        if (movedDist > DRAG_THRESHOLD_PX) dragState.current.moved = true
+      }
+      const elapsed = Math.max(1, e.timeStamp - lastMoveAt.current)
+      velocity.current = [dx / elapsed, dy / elapsed]
+      lastMoveAt.current = e.timeStamp
+      panByPixels(dx, dy, rect)
+    } else if (pointers.current.size === 2) {
+      dragState.current.moved = true
+      const dist = getDist(pointers.current)
+      if (lastDist.current > 0) {
+        const factor = dist / lastDist.current
+        const point: Point = [center.x - rect.left, center.y - rect.top]
+        setCamera((prev) => zoomAt(prev, factor, point, rect, limits))
+      }
+      lastDist.current = dist
+    }
+    lastCenter.current = center
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const wasDragging = pointers.current.size === 1 && dragState.current.moved
+    pointers.current.delete(e.pointerId)
+    if (dragState.current.moved) {
+      suppressClick.current = true
+    }
+    if (pointers.current.size === 1) lastCenter.current = getCenter(pointers.current)
+    if (pointers.current.size === 0) {
+      lastCenter.current = null
+      dragState.current = { start: null, moved: false }
+      // 止めてから離した（最後の移動から時間が空いた）ときは慣性をつけない
+      if (wasDragging && e.timeStamp - lastMoveAt.current < 50) startInertia()
+    } else if (pointers.current.size === 1) {
+      dragState.current = { start: getCenter(pointers.current), moved: false }
+    }
+  }
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    if (!containerRef.current) return
+    e.preventDefault()
+    stopAnimation()
+    const rect = containerRef.current.getBoundingClientRect()
+
+    // デバイス判定: タッチデバイスかPCか
+    const isTouchDevice = window.matchMedia('(pointer: coarse)').matches || navigator.maxTouchPoints > 0
+    const sensitivity = isTouchDevice ? 0.012 : 0.005
+
+    const factor = Math.exp(-e.deltaY * sensitivity)
+    const point: Point = [e.clientX - rect.left, e.clientY - rect.top]
+    setCamera((prev) => zoomAt(prev, factor, point, rect, limits))
+  }
+
+  const focusCountry = (id: string) =>
+    containerRef.current?.querySelector<HTMLElement | SVGElement>(`[data-country-id="${CSS.escape(id)}"]`)?.focus()
+
+  // キーボードで選んだ国が画面の外にあれば、ズームはそのままで画面の中央へ寄せる
+  const revealCountry = (id: string) => {
+    const center = pathData.find((path) => path.id === id)?.center
+    if (!center || isPointVisible(cameraRef.current, center)) return
+    animateTo(centerOn(cameraRef.current, center), rotationRef.current)
+  }
+
+  // 矢印キー: 隣の方向の国へ移る（Shift を押しているときはパン） /
+  // + と -: 拡大・縮小 / 0: 表示を戻す。Enter での回答は各国の onKeyDown で扱う
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const viewport = getViewport()
+    if (!viewport) return
+    const direction = ARROW_DIRECTIONS[e.key]
+    const countryId = (e.target as Element).getAttribute('data-country-id')
+    if (direction && countryId && !e.shiftKey) {
+      e.preventDefault()
+      const nextId = findNextInDirection(navPoints, countryId, direction)
+      if (nextId) focusCountry(nextId)
+    } else if (direction) {
+      e.preventDefault()
+      stopAnimation()
+      const [dx, dy] = { up: [0, 1], down: [0, -1], left: [1, 0], right: [-1, 0] }[direction]
+      panByPixels(dx * KEYBOARD_PAN_PX, dy * KEYBOARD_PAN_PX, viewport)
+    } else if (e.key === '+' || e.key === '=') {
+      e.preventDefault()
+      zoomAtCenter(KEYBOARD_ZOOM_FACTOR)
+    } else if (e.key === '-' || e.key === '_') {
+      e.preventDefault()
+      zoomAtCenter(1 / KEYBOARD_ZOOM_FACTOR)
+    } else if (e.key === '0') {
+      e.preventDefault()
+      resetToHome()
+    }
+  }
+
+  const getName = (id: string) => pathData.find((path) => path.id === id)?.name ?? id
+
+  // 候補が1つならそのまま回答し、近くに複数の国があるときはどの国かを選んでもらう
+  const handleMapClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (suppressClick.current) {
+      suppressClick.current = false
+      return
+    }
+    if (pointers.current.size > 1 || !containerRef.current) return
+    const ids = getTapCandidates(e.clientX, e.clientY)
+    if (ids.length === 1) {
+      onCountryClick(ids[0], getName(ids[0]))
+    } else if (ids.length > 1) {
+      const rect = containerRef.current.getBoundingClientRect()
+      setChooser({ x: e.clientX - rect.left, y: e.clientY - rect.top, ids })
+    }
+  }
+
+  const chooseCountry = (id: string) => {
+    setChooser(null)
+    onCountryClick(id, getName(id))
+  }
+
+  const handleCountryFocus = (e: React.FocusEvent<Element>, id: string) => {
+    // クリックで選んだときは縁取りも移動もしない
+    if (!e.currentTarget.matches(':focus-visible')) return
+    setFocusedId(id)
+    revealCountry(id)
+  }
+
+  const handleCountryKeyDown = (e: React.KeyboardEvent<Element>, path: PathDatum) => {
+    if (e.key !== 'Enter' && e.key !== ' ') return
+    e.preventDefault()
+    onCountryClick(path.id, path.name)
+  }
+
+  // 国ごとのキーボード・スクリーンリーダー向けの属性。svg では各 <path> に、canvas では見えないボタンに付ける
+  const getCountryAttributes = (path: PathDatum) => ({
+    'data-country-id': path.id,
+    tabIndex: interactive ? 0 : -1,
+    'aria-label': interactive ? (getCountryLabel?.(path.id, path.name) ?? path.name) : undefined,
+  })
+
+  return (
+    <div
+      ref={containerRef}
+      className={`absolute inset-0 z-0 bg-sky-100 transition-colors duration-500 ${
+        renderer === 'canvas' && hoveredId ? 'cursor-pointer' : ''
+      }`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => renderer === 'canvas' && setHoveredId(null)}
+      onWheel={handleWheel}
+      onKeyDown={handleKeyDown}
+      onClick={handleMapClick}
+    >
+      {renderer === 'canvas' ? (
+        <>
+          <CanvasMapLayer
+            shapes={canvasShapes}
+            index={shapeIndex}
+            camera={camera}
+            spherePath={spherePath}
+            hoveredId={hoveredId}
+            focusedId={focusedId}
+            getCountryStyle={getCountryStyle}
+            guessLine={guessLine}
+          />
+          {interactive && (
+            <div role="group" aria-label={t.worldMap} aria-describedby="map-keyboard-help" className="sr-only">
+              {pathData.map((path) => (
+                <button
+                  key={path.id}
+                  type="button"
+                  {...getCountryAttributes(path)}
+                  onFocus={(e) => handleCountryFocus(e, path.id)}
+                  onBlur={() => setFocusedId(null)}
+                  onKeyDown={(e) => handleCountryKeyDown(e, path)}
+                />
+              ))}
+            </div>
+          )}
+        </>
+      ) : (
+        <svg
+          viewBox={formatViewBox(camera)}
+          className="w-full h-full drop-shadow-sm"
+          shapeRendering="crispEdges"
+          role={interactive ? 'group' : undefined}
+          aria-label={interactive ? t.worldMap : undefined}
+          aria-describedby={interactive ? 'map-keyboard-help' : undefined}
+          aria-hidden={!interactive}
+        >
+          <rect x="-1000" y="-1000" width="3000" height="3000" fill="#f1f5f9" />
+          <path d={spherePath} fill="#d4e9f7" />
+          {pathData.map((path) => {
+            const isFocused = path.id === focusedId
+            const style = getCountryStyle(path.id, { hovered: path.id === hoveredId })
+            return (
+              <path
+                key={path.id}
+                {...getCountryAttributes(path)}
+                d={path.d}
+                fill={style.fill}
+                stroke={isFocused ? FOCUS_STROKE : style.stroke}
+                strokeWidth={(isFocused ? 3 : 1.5) / camera.scale}
+                strokeDasharray={style.dash?.split(' ').map((length) => Number(length) / camera.scale).join(' ')}
+                className="cursor-pointer outline-none"
+                style={{ transition: 'fill 0.15s ease-out, stroke 0.15s ease-out' }}
+                role={interactive ? 'button' : undefined}
+                onPointerEnter={() => hoverEnabled && setHoveredId(path.id)}
+                onPointerLeave={() => setHoveredId(null)}
+                onFocus={(e) => handleCountryFocus(e, path.id)}
+                onBlur={() => setFocusedId(null)}
+                onKeyDown={(e) => handleCountryKeyDown(e, path)}
+              />
+            )
+          })}
+          {guessLine && (
+            <g pointerEvents="none">
+              <path
+                d={guessLine.d}
+                fill="none"
+                stroke={GUESS_LINE_STROKE}
+                strokeWidth={2 / camera.scale}
+                strokeDasharray={`${6 / camera.scale} ${4 / camera.scale}`}
+              />
+              {guessLine.from && (
+                <circle cx={guessLine.from[0]} cy={guessLine.from[1]} r={4 / camera.scale} fill={ANSWER_COLORS.wrong.stroke} />
+              )}
+              {guessLine.to && (
+                <circle cx={guessLine.to[0]} cy={guessLine.to[1]} r={4 / camera.scale} fill={ANSWER_COLORS.correct.stroke} />
+              )}
+            </g>
+          )}
+          {/* 小さな国の当たり判定。見た目は変えず、押せる範囲だけを広げる */}
+          {tinyTargets.map(({ id, center }) => (
+            <circle
+              key={id}
+              cx={center[0]}
+              cy={center[1]}
+              r={tapRadius}
+              fill="transparent"
+              className="cursor-pointer"
+              onPointerEnter={() => hoverEnabled && setHoveredId(id)}
+              onPointerLeave={() => setHoveredId(null)}
+            />
+          ))}
+        </svg>
+      )}
+      {silhouette && silhouetteShape && silhouetteTransform && (
+        // 次の問題では中央から出し直す（前の国の位置から動かさない）
+        <div key={silhouette.countryId} aria-hidden className="absolute inset-0 pointer-events-none overflow-hidden">
+          <div
+            className={`absolute inset-0 bg-slate-100 transition-opacity duration-700 motion-reduce:transition-none ${
+              silhouette.revealed ? 'opacity-0' : ''
+            }`}
+          />
+          <svg
+            width={MAP_WIDTH}
+            height={MAP_HEIGHT}
+            overflow="visible"
+            className="absolute left-0 top-0 origin-top-left transition-transform duration-700 ease-in-out motion-reduce:transition-none"
+            style={{
+              transform: `translate(${silhouetteTransform.x}px, ${silhouetteTransform.y}px) scale(${silhouetteTransform.k})`,
+            }}
+          >
+            {/* 本来の位置に重なったら、地図側の正誤の色が見えるよう消す */}
+            <path
+              d={silhouetteShape.d}
+              fill="#1e293b"
+              stroke="#0f172a"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+              className={`transition-opacity duration-500 delay-700 motion-reduce:transition-none ${
+                silhouette.revealed ? 'opacity-0' : ''
+              }`}
+            />
+          </svg>
+        </div>
+      )}
+      {labels.length > 0 && (
+        <div aria-hidden className="absolute inset-0 pointer-events-none overflow-hidden">
+          {labels.map((label) => (
+            <span
+              key={label.id}
+              className="absolute -translate-x-1/2 -translate-y-1/2 whitespace-nowrap text-[11px] font-black text-slate-600 [text-shadow:0_0_3px_white,0_0_3px_white]"
+              style={{ left: label.x, top: label.y }}
+            >
+              {label.name}
+            </span>
+          ))}
+        </div>
+      )}
+      {chooser && (
+        <div
+          role="dialog"
+          aria-label={t.chooseCountry}
+          className="absolute z-10 bg-white/95 backdrop-blur-xl rounded-2xl shadow-xl border border-white/50 p-2 flex flex-col gap-1 -translate-x-1/2 translate-y-3"
+          style={{ left: chooser.x, top: chooser.y }}
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => {
+            e.stopPropagation()
+            if (e.key === 'Escape') setChooser(null)
+          }}
+        >
+          <p className="px-3 pt-1 text-[10px] font-black text-slate-400 tracking-widest">{t.chooseCountry}</p>
+          {chooser.ids.map((id, i) => (
+            <button
+              key={id}
+              type="button"
+              autoFocus={i === 0}
+              onClick={() => chooseCountry(id)}
+              onPointerEnter={() => hoverEnabled && setHoveredId(id)}
+              onPointerLeave={() => setHoveredId(null)}
+              className="px-3 py-2 rounded-xl text-left text-sm font-bold text-slate-700 hover:bg-slate-100"
+            >
+              {getName(id)}
+            </button>
+          ))}
+        </div>
+      )}
+      <MapInsets
+        insets={insets}
+        features={features}
+        hoverEnabled={hoverEnabled}
+        getCountryStyle={getCountryStyle}
+        onCountryClick={onCountryClick}
+      />
+      <p id="map-keyboard-help" className="sr-only">
+        {t.mapKeyboardHelp}
+      </p>
+    </div>
+  )
+}
+
+export default WorldMap
@@ -0,0 +1,62 @@
+// 国名入力の別名表（ISO 3166-1 alpha-3 → 別名）。
+// Intl.DisplayNames の日本語名と GeoJSON の英語名に加えて受け付ける表記。
+// 漢字表記の国は読みがなも登録しておく。
+
+export const COUNTRY_ALIASES: Record<string, string[]> = {
+  JPN: ['にほん', 'にっぽん', 'Nippon', 'Nihon'],
+  CHN: ['ちゅうごく', '中華人民共和国', 'PRC'],
+  KOR: ['かんこく', '大韓民国', 'South Korea', 'Korea'],
+  PRK: ['きたちょうせん', '朝鮮民主主義人民共和国', 'North Korea', 'DPRK'],
+  TWN: ['たいわん'],
+  HKG: ['ほんこん'],
+  MNG: ['モンゴル国'],
+  USA: ['アメリカ', '米国', 'べいこく', 'アメリカ合衆国', 'USA', 'US', 'America', 'United States'],
+  GBR: ['英国', 'えいこく', 'UK', 'Britain', 'Great Britain', 'United Kingdom'],
+  RUS: ['ロシア連邦', 'Russian Federation'],
+  AUS: ['豪州', 'ごうしゅう'],
+  NZL: ['NZ'],
+  ZAF: ['みなみアフリカ', '南ア', 'みなみア', 'South Africa'],
+  CAF: ['ちゅうおうアフリカ', '中央アフリカ', 'CAR'],
+  GNQ: ['せきどうギニア'],
+  TLS: ['ひがしティモール', 'East Timor'],
+  SSD: ['みなみスーダン'],
+  MKD: ['きたマケドニア', 'マケドニア', 'Macedonia'],
+  ESH: ['にしサハラ'],
+  DEU: ['Deutschland'],
+  NLD: ['Holland'],
+  CIV: ['象牙海岸', 'Ivory Coast'],
+  COD: ['ザイール', 'DRC', 'DR Congo', 'Zaire'],
+  COG: ['コンゴ', 'Congo-Brazzaville'],
+  CZE: ['チェコ共和国', 'Czech Republic', 'Czechia'],
+  SWZ: ['スワジランド', 'Swaziland', 'Eswatini'],
+  MMR: ['ビルマ', 'Burma'],
+  IRN: ['ペルシャ', 'Persia'],
+  VAT: ['バチカン市国', 'Vatican', 'Holy See'],
+  ARE: ['UAE', 'アラブ首長国連邦'],
+  BIH: ['ボスニア', 'Bosnia'],
+  DOM: ['ドミニカ共和国'],
+  DMA: ['ドミニカ国'],
+  PNG: ['PNG'],
+  LAO: ['Laos'],
+  CPV: ['カーボヴェルデ', 'Cabo Verde', 'Cape Verde'],
+  TUR: ['Turkiye'],
+  GMB: ['ガンビア共和国'],
+  BHS: ['バハマ'],
+  FSM: ['ミクロネシア', 'Micronesia'],
+  SRB: ['セルビア共和国'],
+  KNA: ['セントクリストファーネイビス', 'Saint Kitts', 'St Kitts and Nevis'],
+  VCT: ['セントビンセント', 'St Vincent and the Grenadines'],
+  LCA: ['St Lucia'],
+  TTO: ['トリニダードトバゴ', 'Trinidad'],
+  ATG: ['アンティグアバーブーダ', 'Antigua'],
+  STP: ['サントメプリンシペ'],
+  GNB: ['ギニアビサウ'],
+  SLB: ['ソロモン'],
+  MHL: ['マーシャル'],
+  SYR: ['Syria'],
+  PSE: ['Palestine'],
+  TZA: ['Tanzania'],
+  BOL: ['Bolivia'],
+  VEN: ['Venezuela'],
+  MDA: ['Moldova'],
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_ZOOM_LIMITS,
+  INITIAL_CAMERA,
+  centerOn,
+  decayVelocity,
+  easeInOutCubic,
+  fitBounds,
+  formatViewBox,
+  getViewBox,
+  getViewCenter,
+  interpolateCamera,
+  interpolateRotation,
+  isPointVisible,
+  panBy,
+  rotateBy,
+  screenToMap,
+  zoomAt,
+} from './camera.ts'
+import { MAP_HEIGHT, MAP_WIDTH } from './geo.ts'
+
+// 地図と同じ 2:1 の表示領域
+const viewport = { width: 1000, height: 500 }
+
+describe('viewBox', () => {
+  it('shows the whole map at scale 1', () => {
+    expect(getViewBox({ x: 0, y: 0, scale: 1 })).toMatchObject({ width: MAP_WIDTH, height: MAP_HEIGHT })
+    expect(formatViewBox({ x: 0, y: 0, scale: 1 })).toBe(`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`)
+  })
+
+  it('maps screen points to map coordinates', () => {
+    const camera = { x: -200, y: -100, scale: 2 }
+    expect(screenToMap(camera, [0, 0], viewport)).toEqual([100, 50])
+    expect(screenToMap(camera, [1000, 500], viewport)).toEqual([500, 250])
+  })
+})
+
+describe('panBy', () => {
+  it('moves the map with the pointer regardless of zoom', () => {
+    for (const scale of [1, 4]) {
+      const before = screenToMap({ x: 0, y: 0, scale }, [500, 250], viewport)
+      const moved = panBy({ x: 0, y: 0, scale }, 100, 50, viewport)
+      // ドラッグした先（600, 300）に、元は画面中央にあった地点が来る
+      expect(screenToMap(moved, [600, 300], viewport)).toEqual(before)
+    }
+  })
+})
+
+describe('zoomAt', () => {
+  it('keeps the map point under the cursor fixed', () => {
+    const camera = { x: -120, y: -40, scale: 2 }
+    const cursor: [number, number] = [300, 120]
+    const before = screenToMap(camera, cursor, viewport)
+    const zoomed = zoomAt(camera, 1.5, cursor, viewport)
+    expect(zoomed.scale).toBeCloseTo(3)
+    const after = screenToMap(zoomed, cursor, viewport)
+    expect(after[0]).toBeCloseTo(before[0])
+    expect(after[1]).toBeCloseTo(before[1])
+  })
+
+  it('clamps the scale to the zoom limits', () => {
+    expect(zoomAt(INITIAL_CAMERA, 0.1, [0, 0], viewport).scale).toBe(DEFAULT_ZOOM_LIMITS.minZoom)
+    expect(zoomAt(INITIAL_CAMERA, 100, [0, 0], viewport).scale).toBe(DEFAULT_ZOOM_LIMITS.maxZoom)
+    expect(zoomAt(INITIAL_CAMERA, 100, [0, 0], viewport, { minZoom: 1, maxZoom: 4 }).scale).toBe(4)
+  })
+})
+
+describe('centerOn / isPointVisible', () => {
+  it('puts the point at the center of the view', () => {
+    const camera = centerOn({ x: 0, y: 0, scale: 5 }, [600, 80])
+    expect(getViewCenter(camera)).toEqual([600, 80])
+    expect(isPointVisible(camera, [600, 80])).toBe(true)
+    expect(isPointVisible(camera, [100, 80])).toBe(false)
+  })
+})
+
+describe('fitBounds', () => {
+  it('centers the bounds and fits them inside the padded viewport', () => {
+    const bounds = { minX: 100, maxX: 200, minY: 50, maxY: 100 }
+    const camera = fitBounds(bounds, viewport, 0)
+    expect(getViewCenter(camera)).toEqual([150, 75])
+    const view = getViewBox(camera)
+    expect(view.width).toBeGreaterThanOrEqual(100)
+    expect(view.height).toBeGreaterThanOrEqual(50)
+    expect(camera.scale).toBeCloseTo(MAP_WIDTH / 100)
+  })
+
+  it('zooms out further when padding is added', () => {
+    const bounds = { minX: 100, maxX: 200, minY: 50, maxY: 100 }
+    expect(fitBounds(bounds, viewport, 100).scale).toBeLessThan(fitBounds(bounds, viewport, 0).scale)
+  })
+
+  it('does not zoom past the limits for tiny countries', () => {
+    const bounds = { minX: 400, maxX: 400.1, minY: 200, maxY: 200.1 }
+    expect(fitBounds(bounds, viewport, 0).scale).toBe(DEFAULT_ZOOM_LIMITS.maxZoom)
+  })
+})
+
+describe('animation helpers', () => {
+  it('interpolates between cameras through the view center and log scale', () => {
+    const from = centerOn({ x: 0, y: 0, scale: 2 }, [100, 100])
+    const to = centerOn({ x: 0, y: 0, scale: 8 }, [300, 200])
+    expect(interpolateCamera(from, to, 0)).toEqual(from)
+    const end = interpolateCamera(from, to, 1)
+    expect(end.scale).toBeCloseTo(8)
+    expect(getViewCenter(end)[0]).toBeCloseTo(300)
+    const middle = interpolateCamera(from, to, 0.5)
+    expect(middle.scale).toBeCloseTo(4)
+    expect(getViewCenter(middle)[0]).toBeCloseTo(200)
+  })
+
+  it('rotates across the antimeridian the short way', () => {
+    expect(interpolateRotation([170, 0], [-170, 10], 0.5)).toEqual([180, 5])
+    expect(interpolateRotation([-170, 0], [170, 0], 1)[0]).toBeCloseTo(-190)
+  })
+
+  it('eases from 0 to 1', () => {
+    expect(easeInOutCubic(0)).toBe(0)
+    expect(easeInOutCubic(0.5)).toBe(0.5)
+    expect(easeInOutCubic(1)).toBe(1)
+  })
+
+  it('decays inertia velocity over time', () => {
+    const [vx, vy] = decayVelocity([1, -2], 16, 0.5)
+    expect(vx).toBeCloseTo(0.5)
+    expect(vy).toBeCloseTo(-1)
+    expect(decayVelocity([1, 0], 0)).toEqual([1, 0])
+  })
+
+  it('rotates the globe against the drag and stops at the poles', () => {
+    const radius = 180 / Math.PI
+    expect(rotateBy([0, 0], 10, 0, radius)).toEqual([-10, 0])
+    expect(rotateBy([0, 80], 0, 30, radius)).toEqual([0, 90])
+  })
+})
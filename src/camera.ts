@@ -0,0 +1,156 @@
+import { MAP_HEIGHT, MAP_WIDTH } from './geo.ts'
+import type { Bounds, Rotation } from './projection.ts'
+
+// 地図の表示位置。viewBox は (-x / scale, -y / scale, MAP_WIDTH / scale, MAP_HEIGHT / scale) になる
+// （x・y は translate と同じ向きの移動量）
+export type Camera = {
+  x: number
+  y: number
+  scale: number
+}
+
+export type ZoomLimits = {
+  minZoom: number
+  maxZoom: number
+}
+
+// 地図を表示している要素の大きさ（px）
+export type Viewport = {
+  width: number
+  height: number
+}
+
+export type Point = [number, number]
+
+export const DEFAULT_ZOOM_LIMITS: ZoomLimits = { minZoom: 1.5, maxZoom: 20 }
+
+export const INITIAL_CAMERA: Camera = { x: 0, y: 0, scale: DEFAULT_ZOOM_LIMITS.minZoom }
+
+// 慣性スクロールの減衰率（16ms あたり）と、止まったとみなす速さ（px/ms）
+export const INERTIA_DECAY = 0.92
+export const MIN_INERTIA_SPEED = 0.02
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t
+
+export const clampScale = (scale: number, { minZoom, maxZoom }: ZoomLimits) =>
+  Math.max(minZoom, Math.min(maxZoom, scale))
+
+export const getViewBox = ({ x, y, scale }: Camera) => ({
+  x: -x / scale,
+  y: -y / scale,
+  width: MAP_WIDTH / scale,
+  height: MAP_HEIGHT / scale,
+})
+
+export const formatViewBox = (camera: Camera) => {
+  const { x, y, width, height } = getViewBox(camera)
+  return `${x} ${y} ${width} ${height}`
+}
+
+export const getViewCenter = (camera: Camera): Point => {
+  const { x, y, width, height } = getViewBox(camera)
+  return [x + width / 2, y + height / 2]
+}
+
+// SVG の既定（preserveAspectRatio="xMidYMid meet"）と同じく、縦横比を保ったまま表示領域の中央に収める変換。
+// 地図の座標 (mx, my) は画面上の (mx * k + x, my * k + y) に描かれる。Canvas での描画と当たり判定に使う
+export const getViewTransform = (camera: Camera, viewport: Viewport) => {
+  const view = getViewBox(camera)
+  const k = Math.min(viewport.width / view.width, viewport.height / view.height)
+  return {
+    k,
+    x: (viewport.width - view.width * k) / 2 - view.x * k,
+    y: (viewport.height - view.height * k) / 2 - view.y * k,
+  }
+}
+
+// 画面に映っている範囲（地図の座標系）。表示領域の縦横比が地図と違うときは viewBox より広くなる
+export const getVisibleBounds = (camera: Camera, viewport: Viewport): Bounds => {
+  const { k, x, y } = getViewTransform(camera, viewport)
+  return { minX: -x / k, minY: -y / k, maxX: (viewport.width - x) / k, maxY: (viewport.height - y) / k }
+}
+
+// 要素の左上を原点とする画面上の点（px）を、地図の座標系に変換する
+export const screenToMap = (camera: Camera, [sx, sy]: Point, viewport: Viewport): Point => {
+  const { x, y, width, height } = getViewBox(camera)
+  return [x + (sx / viewport.width) * width, y + (sy / viewport.height) * height]
+}
+
+// 画面上で (dx, dy) px ドラッグした分だけ地図を動かす
+export const panBy = (camera: Camera, dx: number, dy: number, viewport: Viewport): Camera => ({
+  ...camera,
+  x: camera.x + (dx / viewport.width) * MAP_WIDTH,
+  y: camera.y + (dy / viewport.height) * MAP_HEIGHT,
+})
+
+// 画面上の点の下にある地図の位置を保ったまま拡大・縮小する
+export const zoomAt = (
+  camera: Camera,
+  factor: number,
+  screenPoint: Point,
+  viewport: Viewport,
+  limits: ZoomLimits = DEFAULT_ZOOM_LIMITS,
+): Camera => {
+  const [mx, my] = screenToMap(camera, screenPoint, viewport)
+  const scale = clampScale(camera.scale * factor, limits)
+  return {
+    scale,
+    x: -(mx - (screenPoint[0] / viewport.width) * (MAP_WIDTH / scale)) * scale,
+    y: -(my - (screenPoint[1] / viewport.height) * (MAP_HEIGHT / scale)) * scale,
+  }
+}
+
+// 倍率はそのままで、地図上の点を画面の中央に置く
+export const centerOn = (camera: Camera, [mx, my]: Point): Camera => ({
+  scale: camera.scale,
+  x: -(mx - MAP_WIDTH / 2 / camera.scale) * camera.scale,
+  y: -(my - MAP_HEIGHT / 2 / camera.scale) * camera.scale,
+})
+
+export const isPointVisible = (camera: Camera, [mx, my]: Point) => {
+  const { x, y, width, height } = getViewBox(camera)
+  return mx >= x && mx <= x + width && my >= y && my <= y + height
+}
+
+// 範囲が画面に収まる位置と倍率。padding は画面上の余白（px）
+export const fitBounds = (
+  bounds: Bounds,
+  viewport: Viewport,
+  padding: number,
+  limits: ZoomLimits = DEFAULT_ZOOM_LIMITS,
+): Camera => {
+  const width = Math.max(1, bounds.maxX - bounds.minX)
+  const height = Math.max(1, bounds.maxY - bounds.minY)
+  const scaleX = MAP_WIDTH / (width + ((padding * 2) / viewport.width) * MAP_WIDTH)
+  const scaleY = MAP_HEIGHT / (height + ((padding * 2) / viewport.height) * MAP_HEIGHT)
+  const scale = clampScale(Math.min(scaleX, scaleY), limits)
+  return centerOn({ x: 0, y: 0, scale }, [(bounds.minX + bounds.maxX) / 2, (bounds.minY + bounds.maxY) / 2])
+}
+
+// 表示範囲の中心は線形に、倍率は対数で補間する（ズームの速さが一定に見えるように）
+export const interpolateCamera = (from: Camera, to: Camera, t: number): Camera => {
+  const [fromX, fromY] = getViewCenter(from)
+  const [toX, toY] = getViewCenter(to)
+  const scale = Math.exp(lerp(Math.log(from.scale), Math.log(to.scale), t))
+  return centerOn({ x: 0, y: 0, scale }, [lerp(fromX, toX, t), lerp(fromY, toY, t)])
+}
+
+// 経度は近い方向に回す（170° → -170° は 340° 戻らずに 20° 進む）
+export const interpolateRotation = (from: Rotation, to: Rotation, t: number): Rotation => {
+  const deltaLon = ((((to[0] - from[0]) % 360) + 540) % 360) - 180
+  return [from[0] + deltaLon * t, lerp(from[1], to[1], t)]
+}
+
+// 地球儀をドラッグした分だけ回す。radiusPx は画面上の地球の半径
+export const rotateBy = ([lon, lat]: Rotation, dx: number, dy: number, radiusPx: number): Rotation => {
+  const degPerPx = 180 / Math.PI / radiusPx
+  return [lon - dx * degPerPx, Math.max(-90, Math.min(90, lat + dy * degPerPx))]
+}
+
+export const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2)
+
+// 慣性スクロールの速度（px/ms）を経過時間に応じて減衰させる
+export const decayVelocity = ([vx, vy]: Point, elapsedMs: number, decay = INERTIA_DECAY): Point => {
+  const factor = decay ** (elapsedMs / 16)
+  return [vx * factor, vy * factor]
+}
@@ -0,0 +1,420 @@
+import type { Locale } from './i18n.ts'
+
+// 首都の対応表（ISO 3166-1 alpha-3 → 首都名）。
+// 首都が法律上と実質上で異なる国は、一般的に首都として扱われる都市を載せている。
+
+export const CAPITALS: Record<string, string> = {
+  // アジア
+  AFG: 'カブール',
+  ARE: 'アブダビ',
+  ARM: 'エレバン',
+  AZE: 'バクー',
+  BGD: 'ダッカ',
+  BHR: 'マナーマ',
+  BRN: 'バンダルスリブガワン',
+  BTN: 'ティンプー',
+  CHN: '北京',
+  CYP: 'ニコシア',
+  GEO: 'トビリシ',
+  IDN: 'ジャカルタ',
+  IND: 'ニューデリー',
+  IRN: 'テヘラン',
+  IRQ: 'バグダッド',
+  ISR: 'エルサレム',
+  JOR: 'アンマン',
+  JPN: '東京',
+  KAZ: 'アスタナ',
+  KGZ: 'ビシュケク',
+  KHM: 'プノンペン',
+  KOR: 'ソウル',
+  KWT: 'クウェート',
+  LAO: 'ビエンチャン',
+  LBN: 'ベイルート',
+  LKA: 'スリジャヤワルダナプラコッテ',
+  MDV: 'マレ',
+  MMR: 'ネピドー',
+  MNG: 'ウランバートル',
+  MYS: 'クアラルンプール',
+  NPL: 'カトマンズ',
+  OMN: 'マスカット',
+  PAK: 'イスラマバード',
+  PHL: 'マニラ',
+  PRK: '平壌',
+  PSE: 'ラマッラ',
+  QAT: 'ドーハ',
+  SAU: 'リヤド',
+  SGP: 'シンガポール',
+  SYR: 'ダマスカス',
+  THA: 'バンコク',
+  TJK: 'ドゥシャンベ',
+  TKM: 'アシガバート',
+  TLS: 'ディリ',
+  TUR: 'アンカラ',
+  TWN: '台北',
+  UZB: 'タシケント',
+  VNM: 'ハノイ',
+  YEM: 'サヌア',
+  // ヨーロッパ
+  ALB: 'ティラナ',
+  AND: 'アンドラ・ラ・ベリャ',
+  AUT: 'ウィーン',
+  BEL: 'ブリュッセル',
+  BGR: 'ソフィア',
+  BIH: 'サラエボ',
+  BLR: 'ミンスク',
+  CHE: 'ベルン',
+  CZE: 'プラハ',
+  DEU: 'ベルリン',
+  DNK: 'コペンハーゲン',
+  ESP: 'マドリード',
+  EST: 'タリン',
+  FIN: 'ヘルシンキ',
+  FRA: 'パリ',
+  GBR: 'ロンドン',
+  GRC: 'アテネ',
+  HRV: 'ザグレブ',
+  HUN: 'ブダペスト',
+  IRL: 'ダブリン',
+  ISL: 'レイキャビク',
+  ITA: 'ローマ',
+  LIE: 'ファドゥーツ',
+  LTU: 'ビリニュス',
+  LUX: 'ルクセンブルク',
+  LVA: 'リガ',
+  MCO: 'モナコ',
+  MDA: 'キシナウ',
+  MKD: 'スコピエ',
+  MLT: 'バレッタ',
+  MNE: 'ポドゴリツァ',
+  NLD: 'アムステルダム',
+  NOR: 'オスロ',
+  POL: 'ワルシャワ',
+  PRT: 'リスボン',
+  ROU: 'ブカレスト',
+  RUS: 'モスクワ',
+  SMR: 'サンマリノ',
+  SRB: 'ベオグラード',
+  SVK: 'ブラチスラバ',
+  SVN: 'リュブリャナ',
+  SWE: 'ストックホルム',
+  UKR: 'キーウ',
+  VAT: 'バチカン',
+  XKX: 'プリシュティナ',
+  // アフリカ
+  AGO: 'ルアンダ',
+  BDI: 'ギテガ',
+  BEN: 'ポルトノボ',
+  BFA: 'ワガドゥグー',
+  BWA: 'ハボローネ',
+  CAF: 'バンギ',
+  CIV: 'ヤムスクロ',
+  CMR: 'ヤウンデ',
+  COD: 'キンシャサ',
+  COG: 'ブラザビル',
+  COM: 'モロニ',
+  CPV: 'プライア',
+  DJI: 'ジブチ',
+  DZA: 'アルジェ',
+  EGY: 'カイロ',
+  ERI: 'アスマラ',
+  ETH: 'アディスアベバ',
+  GAB: 'リーブルビル',
+  GHA: 'アクラ',
+  GIN: 'コナクリ',
+  GMB: 'バンジュール',
+  GNB: 'ビサウ',
+  GNQ: 'マラボ',
+  KEN: 'ナイロビ',
+  LBR: 'モンロビア',
+  LBY: 'トリポリ',
+  LSO: 'マセル',
+  MAR: 'ラバト',
+  MDG: 'アンタナナリボ',
+  MLI: 'バマコ',
+  MOZ: 'マプト',
+  MRT: 'ヌアクショット',
+  MUS: 'ポートルイス',
+  MWI: 'リロングウェ',
+  NAM: 'ウィントフック',
+  NER: 'ニアメ',
+  NGA: 'アブジャ',
+  RWA: 'キガリ',
+  SDN: 'ハルツーム',
+  SEN: 'ダカール',
+  SLE: 'フリータウン',
+  SOM: 'モガディシュ',
+  SSD: 'ジュバ',
+  STP: 'サントメ',
+  SWZ: 'ムババーネ',
+  SYC: 'ビクトリア',
+  TCD: 'ンジャメナ',
+  TGO: 'ロメ',
+  TUN: 'チュニス',
+  TZA: 'ドドマ',
+  UGA: 'カンパラ',
+  ZAF: 'プレトリア',
+  ZMB: 'ルサカ',
+  ZWE: 'ハラレ',
+  // 北アメリカ・カリブ海
+  ATG: 'セントジョンズ',
+  BHS: 'ナッソー',
+  BLZ: 'ベルモパン',
+  BRB: 'ブリッジタウン',
+  CAN: 'オタワ',
+  CRI: 'サンホセ',
+  CUB: 'ハバナ',
+  DMA: 'ロゾー',
+  DOM: 'サントドミンゴ',
+  GRD: 'セントジョージズ',
+  GTM: 'グアテマラシティ',
+  HND: 'テグシガルパ',
+  HTI: 'ポルトープランス',
+  JAM: 'キングストン',
+  KNA: 'バセテール',
+  LCA: 'カストリーズ',
+  MEX: 'メキシコシティ',
+  NIC: 'マナグア',
+  PAN: 'パナマシティ',
+  SLV: 'サンサルバドル',
+  TTO: 'ポートオブスペイン',
+  USA: 'ワシントンD.C.',
+  VCT: 'キングスタウン',
+  // 南アメリカ
+  ARG: 'ブエノスアイレス',
+  BOL: 'スクレ',
+  BRA: 'ブラジリア',
+  CHL: 'サンティアゴ',
+  COL: 'ボゴタ',
+  ECU: 'キト',
+  GUY: 'ジョージタウン',
+  PER: 'リマ',
+  PRY: 'アスンシオン',
+  SUR: 'パラマリボ',
+  URY: 'モンテビデオ',
+  VEN: 'カラカス',
+  // オセアニア
+  AUS: 'キャンベラ',
+  FJI: 'スバ',
+  FSM: 'パリキール',
+  KIR: 'タラワ',
+  MHL: 'マジュロ',
+  NRU: 'ヤレン',
+  NZL: 'ウェリントン',
+  PLW: 'マルキョク',
+  PNG: 'ポートモレスビー',
+  SLB: 'ホニアラ',
+  TON: 'ヌクアロファ',
+  TUV: 'フナフティ',
+  VUT: 'ポートビラ',
+  WSM: 'アピア',
+}
+
+// 英語表記。CAPITALS と同じ国を同じ順に並べる
+export const CAPITALS_EN: Record<string, string> = {
+  // アジア
+  AFG: 'Kabul',
+  ARE: 'Abu Dhabi',
+  ARM: 'Yerevan',
+  AZE: 'Baku',
+  BGD: 'Dhaka',
+  BHR: 'Manama',
+  BRN: 'Bandar Seri Begawan',
+  BTN: 'Thimphu',
+  CHN: 'Beijing',
+  CYP: 'Nicosia',
+  GEO: 'Tbilisi',
+  IDN: 'Jakarta',
+  IND: 'New Delhi',
+  IRN: 'Tehran',
+  IRQ: 'Baghdad',
+  ISR: 'Jerusalem',
+  JOR: 'Amman',
+  JPN: 'Tokyo',
+  KAZ: 'Astana',
+  KGZ: 'Bishkek',
+  KHM: 'Phnom Penh',
+  KOR: 'Seoul',
+  KWT: 'Kuwait City',
+  LAO: 'Vientiane',
+  LBN: 'Beirut',
+  LKA: 'Sri Jayawardenepura Kotte',
+  MDV: 'Malé',
+  MMR: 'Naypyidaw',
+  MNG: 'Ulaanbaatar',
+  MYS: 'Kuala Lumpur',
+  NPL: 'Kathmandu',
+  OMN: 'Muscat',
+  PAK: 'Islamabad',
+  PHL: 'Manila',
+  PRK: 'Pyongyang',
+  PSE: 'Ramallah',
+  QAT: 'Doha',
+  SAU: 'Riyadh',
+  SGP: 'Singapore',
+  SYR: 'Damascus',
+  THA: 'Bangkok',
+  TJK: 'Dushanbe',
+  TKM: 'Ashgabat',
+  TLS: 'Dili',
+  TUR: 'Ankara',
+  TWN: 'Taipei',
+  UZB: 'Tashkent',
+  VNM: 'Hanoi',
+  YEM: 'Sanaa',
+  // ヨーロッパ
+  ALB: 'Tirana',
+  AND: 'Andorra la Vella',
+  AUT: 'Vienna',
+  BEL: 'Brussels',
+  BGR: 'Sofia',
+  BIH: 'Sarajevo',
+  BLR: 'Minsk',
+  CHE: 'Bern',
+  CZE: 'Prague',
+  DEU: 'Berlin',
+  DNK: 'Copenhagen',
+  ESP: 'Madrid',
+  EST: 'Tallinn',
+  FIN: 'Helsinki',
+  FRA: 'Paris',
+  GBR: 'London',
+  GRC: 'Athens',
+  HRV: 'Zagreb',
+  HUN: 'Budapest',
+  IRL: 'Dublin',
+  ISL: 'Reykjavik',
+  ITA: 'Rome',
+  LIE: 'Vaduz',
+  LTU: 'Vilnius',
+  LUX: 'Luxembourg',
+  LVA: 'Riga',
+  MCO: 'Monaco',
+  MDA: 'Chișinău',
+  MKD: 'Skopje',
+  MLT: 'Valletta',
+  MNE: 'Podgorica',
+  NLD: 'Amsterdam',
+  NOR: 'Oslo',
+  POL: 'Warsaw',
+  PRT: 'Lisbon',
+  ROU: 'Bucharest',
+  RUS: 'Moscow',
+  SMR: 'San Marino',
+  SRB: 'Belgrade',
+  SVK: 'Bratislava',
+  SVN: 'Ljubljana',
+  SWE: 'Stockholm',
+  UKR: 'Kyiv',
+  VAT: 'Vatican City',
+  XKX: 'Pristina',
+  // アフリカ
+  AGO: 'Luanda',
+  BDI: 'Gitega',
+  BEN: 'Porto-Novo',
+  BFA: 'Ouagadougou',
+  BWA: 'Gaborone',
+  CAF: 'Bangui',
+  CIV: 'Yamoussoukro',
+  CMR: 'Yaoundé',
+  COD: 'Kinshasa',
+  COG: 'Brazzaville',
+  COM: 'Moroni',
+  CPV: 'Praia',
+  DJI: 'Djibouti',
+  DZA: 'Algiers',
+  EGY: 'Cairo',
+  ERI: 'Asmara',
+  ETH: 'Addis Ababa',
+  GAB: 'Libreville',
+  GHA: 'Accra',
+  GIN: 'Conakry',
+  GMB: 'Banjul',
+  GNB: 'Bissau',
+  GNQ: 'Malabo',
+  KEN: 'Nairobi',
+  LBR: 'Monrovia',
+  LBY: 'Tripoli',
+  LSO: 'Maseru',
+  MAR: 'Rabat',
+  MDG: 'Antananarivo',
+  MLI: 'Bamako',
+  MOZ: 'Maputo',
+  MRT: 'Nouakchott',
+  MUS: 'Port Louis',
+  MWI: 'Lilongwe',
+  NAM: 'Windhoek',
+  NER: 'Niamey',
+  NGA: 'Abuja',
+  RWA: 'Kigali',
+  SDN: 'Khartoum',
+  SEN: 'Dakar',
+  SLE: 'Freetown',
+  SOM: 'Mogadishu',
+  SSD: 'Juba',
+  STP: 'São Tomé',
+  SWZ: 'Mbabane',
+  SYC: 'Victoria',
+  TCD: "N'Djamena",
+  TGO: 'Lomé',
+  TUN: 'Tunis',
+  TZA: 'Dodoma',
+  UGA: 'Kampala',
+  ZAF: 'Pretoria',
+  ZMB: 'Lusaka',
+  ZWE: 'Harare',
+  // 北アメリカ・カリブ海
+  ATG: "St. John's",
+  BHS: 'Nassau',
+  BLZ: 'Belmopan',
+  BRB: 'Bridgetown',
+  CAN: 'Ottawa',
+  CRI: 'San José',
+  CUB: 'Havana',
+  DMA: 'Roseau',
+  DOM: 'Santo Domingo',
+  GRD: "St. George's",
+  GTM: 'Guatemala City',
+  HND: 'Tegucigalpa',
+  HTI: 'Port-au-Prince',
+  JAM: 'Kingston',
+  KNA: 'Basseterre',
+  LCA: 'Castries',
+  MEX: 'Mexico City',
+  NIC: 'Managua',
+  PAN: 'Panama City',
+  SLV: 'San Salvador',
+  TTO: 'Port of Spain',
+  USA: 'Washington, D.C.',
+  VCT: 'Kingstown',
+  // 南アメリカ
+  ARG: 'Buenos Aires',
+  BOL: 'Sucre',
+  BRA: 'Brasília',
+  CHL: 'Santiago',
+  COL: 'Bogotá',
+  ECU: 'Quito',
+  GUY: 'Georgetown',
+  PER: 'Lima',
+  PRY: 'Asunción',
+  SUR: 'Paramaribo',
+  URY: 'Montevideo',
+  VEN: 'Caracas',
+  // オセアニア
+  AUS: 'Canberra',
+  FJI: 'Suva',
+  FSM: 'Palikir',
+  KIR: 'Tarawa',
+  MHL: 'Majuro',
+  NRU: 'Yaren',
+  NZL: 'Wellington',
+  PLW: 'Ngerulmud',
+  PNG: 'Port Moresby',
+  SLB: 'Honiara',
+  TON: "Nuku'alofa",
+  TUV: 'Funafuti',
+  VUT: 'Port Vila',
+  WSM: 'Apia',
+}
+
+export const getCapital = (countryId: string, locale: Locale = 'ja') =>
+  (locale === 'ja' ? CAPITALS : CAPITALS_EN)[countryId] ?? null
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CHALLENGE_ROUNDS,
+  buildChallengeUrl,
+  buildShareText,
+  createCustomChallenge,
+  createDailyChallenge,
+  getAnswerEmoji,
+  getCurrentStreak,
+  getDateKey,
+  parseChallengeParams,
+  pickChallengeQuestions,
+  recordDailyCompletion,
+} from './challenge.ts'
+import { createRandom } from './random.ts'
+import type { AnswerRecord } from './session.ts'
+
+const answer = (overrides: Partial<AnswerRecord>): AnswerRecord => ({
+  countryId: 'JPN',
+  countryName: 'Japan',
+  selectedId: 'JPN',
+  selectedName: 'Japan',
+  isCorrect: true,
+  timedOut: false,
+  elapsedMs: 1000,
+  hintsUsed: 0,
+  points: 10,
+  distanceKm: null,
+  ...overrides,
+})
+
+const POOL = Array.from({ length: 40 }, (_, i) => `C${String(i).padStart(2, '0')}`)
+
+describe('daily challenge', () => {
+  it('uses the local calendar date', () => {
+    expect(getDateKey(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05')
+  })
+
+  it('gives everyone the same questions for a date, whatever the feature order', () => {
+    const { seed } = createDailyChallenge('2026-10-19')
+    const questions = pickChallengeQuestions(POOL, seed)
+    expect(questions).toHaveLength(CHALLENGE_ROUNDS)
+    expect(new Set(questions).size).toBe(CHALLENGE_ROUNDS)
+    expect(pickChallengeQuestions([...POOL].reverse(), seed)).toEqual(questions)
+    expect(pickChallengeQuestions(POOL, createDailyChallenge('2026-10-20').seed)).not.toEqual(questions)
+  })
+
+  it('asks every country when the pool is smaller than a challenge', () => {
+    expect(pickChallengeQuestions(POOL.slice(0, 3), 'seed').sort()).toEqual(POOL.slice(0, 3))
+  })
+})
+
+describe('challenge links', () => {
+  it('round-trips mode, region filter and seed through the URL', () => {
+    const challenge = createCustomChallenge(
+      'type',
+      { continents: ['asia'], subregions: ['eastern-asia'], difficulties: ['hard'] },
+      createRandom('link'),
+    )
+    const url = new URL(buildChallengeUrl(challenge, 'https://example.com/geomind/?old=1'))
+    expect(url.pathname).toBe('/geomind/')
+    expect(url.searchParams.has('old')).toBe(false)
+    expect(parseChallengeParams(url.search)).toEqual(challenge)
+    expect(challenge.filter.difficulties).toEqual([])
+  })
+
+  it('ignores unknown regions and falls back to the click mode', () => {
+    const search = '?challenge=abc&mode=draw&continents=asia,atlantis&subregions=eastern-asia,western-europe'
+    expect(parseChallengeParams(search)).toEqual({
+      kind: 'custom',
+      seed: 'abc',
+      mode: 'click',
+      filter: { continents: ['asia'], subregions: ['eastern-asia'], difficulties: [] },
+      date: null,
+    })
+  })
+
+  it('rejects links without a usable seed', () => {
+    expect(parseChallengeParams('')).toBeNull()
+    expect(parseChallengeParams('?challenge=<script>')).toBeNull()
+  })
+})
+
+describe('share text', () => {
+  it('grades misses by distance', () => {
+    expect(getAnswerEmoji(answer({}))).toBe('🟩')
+    expect(getAnswerEmoji(answer({ isCorrect: false, distanceKm: 300 }))).toBe('🟨')
+    expect(getAnswerEmoji(answer({ isCorrect: false, distanceKm: 1000 }))).toBe('🟧')
+    expect(getAnswerEmoji(answer({ isCorrect: false, distanceKm: 5000 }))).toBe('🟥')
+    expect(getAnswerEmoji(answer({ isCorrect: false, selectedId: null, timedOut: true }))).toBe('⬛')
+  })
+
+  it('lays the grid out in rows of five without naming countries', () => {
+    const answers = [
+      ...Array.from({ length: 6 }, () => answer({})),
+      answer({ isCorrect: false, distanceKm: 200 }),
+    ]
+    const text = buildShareText(createDailyChallenge('2026-10-19'), answers, 62, 'https://example.com/')
+    expect(text).toBe('GeoMind Daily 2026-10-19 6/7 (62 pt)\n🟩🟩🟩🟩🟩\n🟩🟨\nhttps://example.com/')
+    expect(text).not.toContain('Japan')
+  })
+})
+
+describe('daily streak', () => {
+  const empty = { lastDate: null, current: 0, best: 0 }
+
+  it('counts consecutive days, including across month ends', () => {
+    const streak = recordDailyCompletion(recordDailyCompletion(empty, '2026-09-30'), '2026-10-01')
+    expect(streak).toEqual({ lastDate: '2026-10-01', current: 2, best: 2 })
+    expect(recordDailyCompletion(streak, '2026-10-01')).toBe(streak)
+  })
+
+  it('starts over after a missed day but keeps the best run', () => {
+    const streak = recordDailyCompletion({ lastDate: '2026-10-01', current: 4, best: 4 }, '2026-10-03')
+    expect(streak).toEqual({ lastDate: '2026-10-03', current: 1, best: 4 })
+  })
+
+  it('shows a streak until a whole day is skipped', () => {
+    const streak = { lastDate: '2026-10-18', current: 3, best: 3 }
+    expect(getCurrentStreak(streak, '2026-10-19')).toBe(3)
+    expect(getCurrentStreak(streak, '2026-10-20')).toBe(0)
+  })
+})
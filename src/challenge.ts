@@ -0,0 +1,190 @@
+// デイリーチャレンジと挑戦状のリンク。種から決まる乱数で出題するので、同じ日・同じリンクなら誰でも同じ10問になる
+import { shuffle } from './deck.ts'
+import { DEFAULT_POOL_FILTER, type PoolFilter } from './pool.ts'
+import { createRandom } from './random.ts'
+import { CONTINENTS, SUBREGIONS, type Continent } from './regions.ts'
+import { MODE_OPTIONS, type AnswerRecord, type QuizMode, type SessionConfig } from './session.ts'
+
+// daily: その日の10問 / custom: リンクで渡す挑戦状
+export type ChallengeKind = 'daily' | 'custom'
+
+export type Challenge = {
+  kind: ChallengeKind
+  seed: string
+  mode: QuizMode
+  // 挑戦状で絞り込めるのは大陸・小地域だけ（難易度の区切りは投影法に左右されるため）
+  filter: PoolFilter
+  // デイリーの日付（YYYY-MM-DD）。挑戦状は null
+  date: string | null
+}
+
+// 出題中のチャレンジ。開始時に問題の列を決める
+export type ChallengeRun = {
+  challenge: Challenge
+  questionIds: string[]
+}
+
+// デイリーを遊んだ日が続いた数
+export type DailyStreak = {
+  lastDate: string | null
+  current: number
+  best: number
+}
+
+export const CHALLENGE_ROUNDS = 10
+// 結果の絵文字を何問ごとに改行するか
+const SHARE_ROW_LENGTH = 5
+// 外れた国との距離で結果の絵文字を変える境目（km）
+const NEAR_MISS_KM = 500
+const FAR_MISS_KM = 1500
+
+const SEED_PATTERN = /^[a-z0-9-]{1,32}$/
+const SEED_LENGTH = 8
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// 端末の日付で区切る。同じ日付なら時差があっても同じ問題になる
+export const getDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+const getPreviousDateKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  const previous = new Date(Date.UTC(year, month - 1, day - 1))
+  return `${previous.getUTCFullYear()}-${pad(previous.getUTCMonth() + 1)}-${pad(previous.getUTCDate())}`
+}
+
+export const createDailyChallenge = (dateKey: string): Challenge => ({
+  kind: 'daily',
+  seed: `daily-${dateKey}`,
+  mode: 'click',
+  filter: DEFAULT_POOL_FILTER,
+  date: dateKey,
+})
+
+export const createCustomChallenge = (
+  mode: QuizMode,
+  filter: PoolFilter,
+  random: () => number = Math.random,
+): Challenge => ({
+  kind: 'custom',
+  seed: Array.from({ length: SEED_LENGTH }, () => Math.floor(random() * 36).toString(36)).join(''),
+  mode,
+  filter: { continents: filter.continents, subregions: filter.subregions, difficulties: [] },
+  date: null,
+})
+
+export const getChallengeConfig = (challenge: Challenge): SessionConfig => ({
+  mode: challenge.mode,
+  questionType: 'hint',
+  rounds: 'all',
+  timeLimitSec: null,
+})
+
+// 地図データの並び順に左右されないよう、ID を並べ替えてから混ぜる
+export const pickChallengeQuestions = (poolIds: string[], seed: string) =>
+  shuffle([...poolIds].sort(), createRandom(seed)).slice(0, CHALLENGE_ROUNDS)
+
+// --- リンク ---
+
+const CHALLENGE_PARAM = 'challenge'
+const MODE_PARAM = 'mode'
+const CONTINENTS_PARAM = 'continents'
+const SUBREGIONS_PARAM = 'subregions'
+
+export const buildChallengeUrl = (challenge: Challenge, baseUrl: string) => {
+  const url = new URL(baseUrl)
+  url.search = ''
+  url.searchParams.set(CHALLENGE_PARAM, challenge.seed)
+  url.searchParams.set(MODE_PARAM, challenge.mode)
+  if (challenge.filter.continents.length > 0) {
+    url.searchParams.set(CONTINENTS_PARAM, challenge.filter.continents.join(','))
+  }
+  if (challenge.filter.subregions.length > 0) {
+    url.searchParams.set(SUBREGIONS_PARAM, challenge.filter.subregions.join(','))
+  }
+  return url.toString()
+}
+
+const parseList = <T extends string>(value: string | null, allowed: readonly T[]) =>
+  (value ?? '').split(',').filter((item): item is T => allowed.includes(item as T))
+
+// 知らない大陸・小地域は読み飛ばす。種が無いか不正なら null
+export const parseChallengeParams = (search: string): Challenge | null => {
+  const params = new URLSearchParams(search)
+  const seed = params.get(CHALLENGE_PARAM)
+  if (!seed || !SEED_PATTERN.test(seed)) return null
+  const mode = MODE_OPTIONS.find((option) => option === params.get(MODE_PARAM)) ?? 'click'
+  const continents = parseList<Continent>(
+    params.get(CONTINENTS_PARAM),
+    CONTINENTS.map((continent) => continent.id),
+  )
+  const subregions = parseList(
+    params.get(SUBREGIONS_PARAM),
+    SUBREGIONS.filter((subregion) => continents.includes(subregion.continent)).map((subregion) => subregion.id),
+  )
+  return { kind: 'custom', seed, mode, filter: { continents, subregions, difficulties: [] }, date: null }
+}
+
+// --- 結果の共有 ---
+
+export const getAnswerEmoji = (answer: AnswerRecord) => {
+  if (answer.isCorrect) return '🟩'
+  if (answer.timedOut || answer.selectedId === null) return '⬛'
+  if (answer.distanceKm === null) return '🟥'
+  if (answer.distanceKm < NEAR_MISS_KM) return '🟨'
+  if (answer.distanceKm < FAR_MISS_KM) return '🟧'
+  return '🟥'
+}
+
+// 国名を含めず、正誤と外れ方だけを絵文字で並べる
+export const buildShareText = (challenge: Challenge, answers: AnswerRecord[], score: number, url: string) => {
+  const correct = answers.filter((answer) => answer.isCorrect).length
+  const title = challenge.kind === 'daily' ? `GeoMind Daily ${challenge.date}` : `GeoMind Challenge #${challenge.seed}`
+  const rows: string[] = []
+  for (let i = 0; i < answers.length; i += SHARE_ROW_LENGTH) {
+    rows.push(answers.slice(i, i + SHARE_ROW_LENGTH).map(getAnswerEmoji).join(''))
+  }
+  return [`${title} ${correct}/${answers.length} (${score} pt)`, ...rows, url].join('\n')
+}
+
+// --- 連続記録 ---
+
+export const createDailyStreak = (): DailyStreak => ({ lastDate: null, current: 0, best: 0 })
+
+// 同じ日に何度遊んでも1日と数える。1日でも空いたら1からやり直し
+export const recordDailyCompletion = (streak: DailyStreak, dateKey: string): DailyStreak => {
+  if (streak.lastDate === dateKey) return streak
+  const current = streak.lastDate === getPreviousDateKey(dateKey) ? streak.current + 1 : 1
+  return { lastDate: dateKey, current, best: Math.max(streak.best, current) }
+}
+
+// 昨日までに途切れていたら 0。今日まだ遊んでいなくても昨日まで続いていれば数える
+export const getCurrentStreak = (streak: DailyStreak, todayKey: string) =>
+  streak.lastDate === todayKey || streak.lastDate === getPreviousDateKey(todayKey) ? streak.current : 0
+
+const STORAGE_KEY = 'geomind.dailyStreak'
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0
+
+export const loadDailyStreak = (): DailyStreak => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return createDailyStreak()
+    const parsed = JSON.parse(raw) as Partial<DailyStreak>
+    return {
+      lastDate: typeof parsed.lastDate === 'string' ? parsed.lastDate : null,
+      current: isCount(parsed.current) ? parsed.current : 0,
+      best: isCount(parsed.best) ? parsed.best : 0,
+    }
+  } catch (err) {
+    console.error('Daily streak load error:', err)
+    return createDailyStreak()
+  }
+}
+
+export const saveDailyStreak = (streak: DailyStreak) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(streak))
+  } catch (err) {
+    console.error('Daily streak save error:', err)
+  }
+}
@@ -0,0 +1,61 @@
+import { feature as topoFeature } from 'topojson-client'
+import type { GeometryCollection, Topology } from 'topojson-specification'
+import { describe, expect, it } from 'vitest'
+import { INCLUSION_POLICIES, UN_MEMBERS, getCountryRecord, isIncluded, resolveCountryProperties } from './countryRegistry.ts'
+import { getAlpha2, getCountryId, type RawGeoCollection } from './geo.ts'
+import { normalizeModern } from './geoData.ts'
+
+type CountriesTopology = Topology<{ countries: GeometryCollection }>
+
+// npm run data:countries で生成する同梱データ（CI ではテストの前に生成する）。未生成ならテストを失敗させる
+const [bundled] = Object.values(
+  import.meta.glob<CountriesTopology>('../public/data/countries.topo.json', { eager: true, import: 'default' }),
+)
+
+describe('country registry', () => {
+  it('lists every UN member exactly once', () => {
+    expect(UN_MEMBERS).toHaveLength(193)
+    expect(new Set(UN_MEMBERS).size).toBe(193)
+    expect(UN_MEMBERS.every((id) => getCountryRecord(id)?.status === 'un-member')).toBe(true)
+  })
+
+  it('records the sovereign of dependencies and disputed states', () => {
+    expect(getCountryRecord('GRL')).toEqual({ status: 'dependency', sovereign: 'DNK' })
+    expect(getCountryRecord('TWN')).toEqual({ status: 'disputed', sovereign: 'CHN' })
+    expect(getCountryRecord('VAT')).toEqual({ status: 'observer', sovereign: null })
+  })
+
+  it('widens the playable set policy by policy', () => {
+    expect(INCLUSION_POLICIES.map((policy) => isIncluded('JPN', policy))).toEqual([true, true, true])
+    expect(INCLUSION_POLICIES.map((policy) => isIncluded('PSE', policy))).toEqual([false, true, true])
+    expect(INCLUSION_POLICIES.map((policy) => isIncluded('XKX', policy))).toEqual([false, true, true])
+    expect(INCLUSION_POLICIES.map((policy) => isIncluded('PRI', policy))).toEqual([false, false, true])
+    expect(INCLUSION_POLICIES.map((policy) => isIncluded('Siachen Glacier', policy))).toEqual([false, false, false])
+  })
+})
+
+describe('resolveCountryProperties', () => {
+  it('maps the -99 codes of the source data through the overrides table', () => {
+    const france = resolveCountryProperties({ ADMIN: 'France', ISO_A3: '-99', ISO_A2: '-99' })
+    expect(getCountryId(france)).toBe('FRA')
+    expect(getAlpha2(france)).toBe('FR')
+    const norway = resolveCountryProperties({ name: 'Norway', 'ISO3166-1-Alpha-3': '-99', 'ISO3166-1-Alpha-2': '-99' })
+    expect(getCountryId(norway)).toBe('NOR')
+    expect(getAlpha2(norway)).toBe('NO')
+  })
+
+  it('keeps valid codes and falls back to the name for unknown areas', () => {
+    expect(getCountryId(resolveCountryProperties({ name: 'Japan', 'ISO3166-1-Alpha-3': 'JPN' }))).toBe('JPN')
+    expect(getCountryId(resolveCountryProperties({ ADMIN: 'Siachen Glacier', ISO_A3: '-99' }))).toBe('Siachen Glacier')
+  })
+})
+
+describe('bundled country data', () => {
+  it.each(INCLUSION_POLICIES)('can ask every UN member under the %s policy', (policy) => {
+    expect(bundled, 'npm run data:countries で public/data/countries.topo.json を生成してください').toBeDefined()
+    const features = normalizeModern(topoFeature(bundled, bundled.objects.countries) as RawGeoCollection)
+    const ids = new Set(features.map((feature) => getCountryId(feature.properties)))
+    const playable = new Set([...ids].filter((id) => isIncluded(id, policy)))
+    expect(UN_MEMBERS.filter((id) => !playable.has(id))).toEqual([])
+  })
+})
@@ -0,0 +1,153 @@
+// 国の台帳: 現代の国境データのフィーチャーを正規の ISO 3166-1 alpha-3 に対応させ、
+// 国連での地位と宗主国を記録する。どこまでを出題するかはプレイヤーが選ぶ方針（InclusionPolicy）で決める。
+import type { GeoProperties } from './geo.ts'
+
+// un-member: 国連加盟国 / observer: 国連総会オブザーバー国家 / disputed: 承認が限られる国 / dependency: 海外領土・自治領
+export type CountryStatus = 'un-member' | 'observer' | 'disputed' | 'dependency'
+
+export type CountryRecord = {
+  status: CountryStatus
+  // dependency は施政権を持つ国、disputed は領有を主張している国。独立国は null
+  sovereign: string | null
+}
+
+// un-members: 国連加盟国だけ / states: オブザーバーと承認が限られる国も含める / all: 海外領土・自治領も含める
+export type InclusionPolicy = 'un-members' | 'states' | 'all'
+
+export const INCLUSION_POLICIES: InclusionPolicy[] = ['un-members', 'states', 'all']
+export const DEFAULT_INCLUSION_POLICY: InclusionPolicy = 'states'
+
+const POLICY_STATUSES: Record<InclusionPolicy, CountryStatus[]> = {
+  'un-members': ['un-member'],
+  states: ['un-member', 'observer', 'disputed'],
+  all: ['un-member', 'observer', 'disputed', 'dependency'],
+}
+
+// 国連加盟 193 か国
+export const UN_MEMBERS = [
+  'AFG', 'ALB', 'DZA', 'AND', 'AGO', 'ATG', 'ARG', 'ARM', 'AUS', 'AUT', 'AZE', 'BHS', 'BHR', 'BGD', 'BRB', 'BLR',
+  'BEL', 'BLZ', 'BEN', 'BTN', 'BOL', 'BIH', 'BWA', 'BRA', 'BRN', 'BGR', 'BFA', 'BDI', 'CPV', 'KHM', 'CMR', 'CAN',
+  'CAF', 'TCD', 'CHL', 'CHN', 'COL', 'COM', 'COG', 'CRI', 'CIV', 'HRV', 'CUB', 'CYP', 'CZE', 'PRK', 'COD', 'DNK',
+  'DJI', 'DMA', 'DOM', 'ECU', 'EGY', 'SLV', 'GNQ', 'ERI', 'EST', 'SWZ', 'ETH', 'FJI', 'FIN', 'FRA', 'GAB', 'GMB',
+  'GEO', 'DEU', 'GHA', 'GRC', 'GRD', 'GTM', 'GIN', 'GNB', 'GUY', 'HTI', 'HND', 'HUN', 'ISL', 'IND', 'IDN', 'IRN',
+  'IRQ', 'IRL', 'ISR', 'ITA', 'JAM', 'JPN', 'JOR', 'KAZ', 'KEN', 'KIR', 'KWT', 'KGZ', 'LAO', 'LVA', 'LBN', 'LSO',
+  'LBR', 'LBY', 'LIE', 'LTU', 'LUX', 'MDG', 'MWI', 'MYS', 'MDV', 'MLI', 'MLT', 'MHL', 'MRT', 'MUS', 'MEX', 'FSM',
+  'MCO', 'MNG', 'MNE', 'MAR', 'MOZ', 'MMR', 'NAM', 'NRU', 'NPL', 'NLD', 'NZL', 'NIC', 'NER', 'NGA', 'MKD', 'NOR',
+  'OMN', 'PAK', 'PLW', 'PAN', 'PNG', 'PRY', 'PER', 'PHL', 'POL', 'PRT', 'QAT', 'KOR', 'MDA', 'ROU', 'RUS', 'RWA',
+  'KNA', 'LCA', 'VCT', 'WSM', 'SMR', 'STP', 'SAU', 'SEN', 'SRB', 'SYC', 'SLE', 'SGP', 'SVK', 'SVN', 'SLB', 'SOM',
+  'ZAF', 'SSD', 'ESP', 'LKA', 'SDN', 'SUR', 'SWE', 'CHE', 'SYR', 'TJK', 'THA', 'TLS', 'TGO', 'TON', 'TTO', 'TUN',
+  'TUR', 'TKM', 'TUV', 'UGA', 'UKR', 'ARE', 'GBR', 'TZA', 'USA', 'URY', 'UZB', 'VUT', 'VEN', 'VNM', 'YEM', 'ZMB',
+  'ZWE',
+]
+
+const OBSERVERS = ['VAT', 'PSE']
+
+// 承認が限られる国 → 領有を主張している国
+const DISPUTED: Record<string, string> = {
+  TWN: 'CHN',
+  XKX: 'SRB',
+  ESH: 'MAR',
+  CYN: 'CYP',
+  SOL: 'SOM',
+}
+
+// 海外領土・自治領 → 施政権を持つ国
+const DEPENDENCIES: Record<string, string> = {
+  GRL: 'DNK',
+  FRO: 'DNK',
+  ALA: 'FIN',
+  SJM: 'NOR',
+  BVT: 'NOR',
+  GUF: 'FRA',
+  GLP: 'FRA',
+  MTQ: 'FRA',
+  REU: 'FRA',
+  MYT: 'FRA',
+  SPM: 'FRA',
+  BLM: 'FRA',
+  MAF: 'FRA',
+  NCL: 'FRA',
+  PYF: 'FRA',
+  WLF: 'FRA',
+  ATF: 'FRA',
+  PRI: 'USA',
+  VIR: 'USA',
+  ASM: 'USA',
+  GUM: 'USA',
+  MNP: 'USA',
+  UMI: 'USA',
+  GIB: 'GBR',
+  FLK: 'GBR',
+  SGS: 'GBR',
+  SHN: 'GBR',
+  IOT: 'GBR',
+  BMU: 'GBR',
+  CYM: 'GBR',
+  VGB: 'GBR',
+  TCA: 'GBR',
+  AIA: 'GBR',
+  MSR: 'GBR',
+  PCN: 'GBR',
+  JEY: 'GBR',
+  GGY: 'GBR',
+  IMN: 'GBR',
+  ABW: 'NLD',
+  CUW: 'NLD',
+  SXM: 'NLD',
+  BES: 'NLD',
+  COK: 'NZL',
+  NIU: 'NZL',
+  TKL: 'NZL',
+  CXR: 'AUS',
+  CCK: 'AUS',
+  NFK: 'AUS',
+  HMD: 'AUS',
+  HKG: 'CHN',
+  MAC: 'CHN',
+}
+
+const REGISTRY = new Map<string, CountryRecord>([
+  ...UN_MEMBERS.map((id): [string, CountryRecord] => [id, { status: 'un-member', sovereign: null }]),
+  ...OBSERVERS.map((id): [string, CountryRecord] => [id, { status: 'observer', sovereign: null }]),
+  ...Object.entries(DISPUTED).map(([id, sovereign]): [string, CountryRecord] => [id, { status: 'disputed', sovereign }]),
+  ...Object.entries(DEPENDENCIES).map(([id, sovereign]): [string, CountryRecord] => [
+    id,
+    { status: 'dependency', sovereign },
+  ]),
+])
+
+// Natural Earth 由来のデータで ISO コードが "-99" になっている国。フランス・ノルウェーは海外領土を含む形で登録されているため
+const SOURCE_OVERRIDES: Record<string, { alpha3: string; alpha2: string | null }> = {
+  France: { alpha3: 'FRA', alpha2: 'FR' },
+  Norway: { alpha3: 'NOR', alpha2: 'NO' },
+  Kosovo: { alpha3: 'XKX', alpha2: 'XK' },
+  'Northern Cyprus': { alpha3: 'CYN', alpha2: null },
+  Somaliland: { alpha3: 'SOL', alpha2: null },
+}
+
+const ALPHA3_PATTERN = /^[A-Z]{3}$/
+const ALPHA2_PATTERN = /^[A-Z]{2}$/
+
+// 対応表 → 配布元の ISO コード → 英語名の順に ID を決める。台帳に無い ID（南極や係争中の小さな地域など）は地図に描くだけで出題しない
+export const resolveCountryProperties = (properties: GeoProperties): GeoProperties => {
+  const name = properties.ADMIN || properties.name || ''
+  const override = SOURCE_OVERRIDES[name]
+  const alpha3 = override?.alpha3 ?? (properties.ISO_A3 || properties['ISO3166-1-Alpha-3'] || '').toUpperCase()
+  const alpha2 = override
+    ? override.alpha2
+    : (properties.ISO_A2 || properties['ISO3166-1-Alpha-2'] || '').toUpperCase()
+  return {
+    ...properties,
+    ISO_A3: ALPHA3_PATTERN.test(alpha3) ? alpha3 : name,
+    ISO_A2: alpha2 && ALPHA2_PATTERN.test(alpha2) ? alpha2 : undefined,
+    'ISO3166-1-Alpha-3': undefined,
+    'ISO3166-1-Alpha-2': undefined,
+  }
+}
+
+export const getCountryRecord = (id: string) => REGISTRY.get(id) ?? null
+
+export const isIncluded = (id: string, policy: InclusionPolicy) => {
+  const record = REGISTRY.get(id)
+  return Boolean(record && POLICY_STATUSES[policy].includes(record.status))
+}
@@ -0,0 +1,127 @@
+// 出題順の管理: 全ての国を一巡するまで重複しない山札と、
+// 間違えた国を早めに再出題する間隔反復（Leitner方式）を組み合わせる。
+
+export type ReviewEntry = {
+  // 0 = 直前に間違えた。正解するたびに1つ上がり、MASTERED_BOX に達したら山札に戻す
+  box: number
+  dueTurn: number
+}
+
+export type SchedulerState = {
+  turn: number
+  deck: string[]
+  reviews: Record<string, ReviewEntry>
+}
+
+export type DrawOptions = {
+  exclude?: string | null
+  random?: () => number
+}
+
+const STORAGE_KEY = 'geomind.scheduler'
+
+// box ごとの再出題までの間隔（出題数）
+const REVIEW_INTERVALS = [2, 5, 12, 30]
+export const MASTERED_BOX = REVIEW_INTERVALS.length
+
+export const createScheduler = (): SchedulerState => ({ turn: 0, deck: [], reviews: {} })
+
+export const shuffle = <T>(items: T[], random: () => number = Math.random) => {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+const pickWeighted = (candidates: Array<{ id: string; weight: number }>, random: () => number) => {
+  const total = candidates.reduce((sum, candidate) => sum + candidate.weight, 0)
+  let threshold = random() * total
+  for (const candidate of candidates) {
+    threshold -= candidate.weight
+    if (threshold < 0) return candidate.id
+  }
+  return candidates[candidates.length - 1].id
+}
+
+export const drawNext = (
+  state: SchedulerState,
+  poolIds: string[],
+  { exclude = null, random = Math.random }: DrawOptions = {},
+): { id: string | null; state: SchedulerState } => {
+  if (poolIds.length === 0) return { id: null, state }
+  const pool = new Set(poolIds)
+  const turn = state.turn + 1
+
+  // 期限が来た復習を優先。箱が低い（苦手）ほど、期限を過ぎているほど選ばれやすい
+  const due = Object.entries(state.reviews)
+    .filter(([id, entry]) => pool.has(id) && id !== exclude && entry.dueTurn <= state.turn)
+    .map(([id, entry]) => ({
+      id,
+      weight: (MASTERED_BOX - entry.box) * (1 + state.turn - entry.dueTurn),
+    }))
+  if (due.length > 0) {
+    const id = pickWeighted(due, random)
+    return { id, state: { ...state, turn, deck: state.deck.filter((deckId) => deckId !== id) } }
+  }
+
+  let deck = state.deck.filter((id) => pool.has(id))
+  if (deck.length === 0 || deck.every((id) => id === exclude)) {
+    // 一巡したら山札を作り直す。直前の国が先頭に来ないようにする
+    const reshuffled = shuffle(poolIds, random)
+    if (reshuffled.length > 1 && reshuffled[0] === exclude) reshuffled.push(reshuffled.shift()!)
+    deck = [...deck, ...reshuffled.filter((id) => !deck.includes(id))]
+  }
+  const id = deck.find((deckId) => deckId !== exclude) ?? deck[0]
+  return { id, state: { ...state, turn, deck: deck.filter((deckId) => deckId !== id) } }
+}
+
+export const recordReview = (state: SchedulerState, id: string, isCorrect: boolean): SchedulerState => {
+  const previous = state.reviews[id]
+  const reviews = { ...state.reviews }
+  if (!isCorrect) {
+    reviews[id] = { box: 0, dueTurn: state.turn + REVIEW_INTERVALS[0] }
+  } else if (previous) {
+    const box = previous.box + 1
+    if (box >= MASTERED_BOX) delete reviews[id]
+    else reviews[id] = { box, dueTurn: state.turn + REVIEW_INTERVALS[box] }
+  } else {
+    // 一度も間違えていない国は山札の巡回に任せる
+    return state
+  }
+  return { ...state, reviews }
+}
+
+const isReviewEntry = (value: unknown): value is ReviewEntry =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as ReviewEntry).box === 'number' &&
+  typeof (value as ReviewEntry).dueTurn === 'number'
+
+export const loadScheduler = (): SchedulerState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return createScheduler()
+    const parsed = JSON.parse(raw) as Partial<SchedulerState>
+    const reviews = Object.fromEntries(
+      Object.entries(parsed.reviews ?? {}).filter(([, entry]) => isReviewEntry(entry)),
+    ) as Record<string, ReviewEntry>
+    return {
+      turn: typeof parsed.turn === 'number' ? parsed.turn : 0,
+      deck: Array.isArray(parsed.deck) ? parsed.deck.filter((id): id is string => typeof id === 'string') : [],
+      reviews,
+    }
+  } catch (err) {
+    console.error('Scheduler load error:', err)
+    return createScheduler()
+  }
+}
+
+export const saveScheduler = (state: SchedulerState) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+  } catch (err) {
+    console.error('Scheduler save error:', err)
+  }
+}
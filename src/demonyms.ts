@@ -0,0 +1,211 @@
+// 国民・形容詞形の英語表記（ISO 3166-1 alpha-3 → 表記）。
+// AIヒントに答えの手がかりとして紛れ込むのを検出するために使う。
+// 日本語の「〜人」「〜語」は国名を含むので国名の検出で足りる。
+
+export const DEMONYMS: Record<string, string[]> = {
+  // アジア
+  AFG: ['Afghan'],
+  ARE: ['Emirati'],
+  ARM: ['Armenian'],
+  AZE: ['Azerbaijani', 'Azeri'],
+  BGD: ['Bangladeshi', 'Bengali'],
+  BHR: ['Bahraini'],
+  BRN: ['Bruneian'],
+  BTN: ['Bhutanese'],
+  CHN: ['Chinese'],
+  CYP: ['Cypriot'],
+  GEO: ['Georgian'],
+  IDN: ['Indonesian'],
+  IND: ['Indian'],
+  IRN: ['Iranian', 'Persian'],
+  IRQ: ['Iraqi'],
+  ISR: ['Israeli'],
+  JOR: ['Jordanian'],
+  JPN: ['Japanese'],
+  KAZ: ['Kazakh', 'Kazakhstani'],
+  KGZ: ['Kyrgyz'],
+  KHM: ['Cambodian', 'Khmer'],
+  KOR: ['Korean'],
+  KWT: ['Kuwaiti'],
+  LAO: ['Lao', 'Laotian'],
+  LBN: ['Lebanese'],
+  LKA: ['Sri Lankan'],
+  MDV: ['Maldivian'],
+  MMR: ['Burmese', 'Myanmar'],
+  MNG: ['Mongolian'],
+  MYS: ['Malaysian'],
+  NPL: ['Nepali', 'Nepalese'],
+  OMN: ['Omani'],
+  PAK: ['Pakistani'],
+  PHL: ['Filipino', 'Philippine'],
+  PRK: ['North Korean'],
+  PSE: ['Palestinian'],
+  QAT: ['Qatari'],
+  SAU: ['Saudi'],
+  SGP: ['Singaporean'],
+  SYR: ['Syrian'],
+  THA: ['Thai'],
+  TJK: ['Tajik'],
+  TKM: ['Turkmen'],
+  TLS: ['Timorese'],
+  TUR: ['Turkish', 'Turk'],
+  TWN: ['Taiwanese'],
+  UZB: ['Uzbek'],
+  VNM: ['Vietnamese'],
+  YEM: ['Yemeni'],
+  // ヨーロッパ
+  ALB: ['Albanian'],
+  AND: ['Andorran'],
+  AUT: ['Austrian'],
+  BEL: ['Belgian'],
+  BGR: ['Bulgarian'],
+  BIH: ['Bosnian'],
+  BLR: ['Belarusian'],
+  CHE: ['Swiss'],
+  CZE: ['Czech'],
+  DEU: ['German'],
+  DNK: ['Danish', 'Dane'],
+  ESP: ['Spanish', 'Spaniard'],
+  EST: ['Estonian'],
+  FIN: ['Finnish', 'Finn'],
+  FRA: ['French'],
+  GBR: ['British', 'Briton'],
+  GRC: ['Greek'],
+  HRV: ['Croatian', 'Croat'],
+  HUN: ['Hungarian', 'Magyar'],
+  IRL: ['Irish'],
+  ISL: ['Icelandic', 'Icelander'],
+  ITA: ['Italian'],
+  LIE: ['Liechtensteiner'],
+  LTU: ['Lithuanian'],
+  LUX: ['Luxembourgish', 'Luxembourger'],
+  LVA: ['Latvian'],
+  MCO: ['Monegasque'],
+  MDA: ['Moldovan'],
+  MKD: ['Macedonian'],
+  MLT: ['Maltese'],
+  MNE: ['Montenegrin'],
+  NLD: ['Dutch'],
+  NOR: ['Norwegian'],
+  POL: ['Polish', 'Pole'],
+  PRT: ['Portuguese'],
+  ROU: ['Romanian'],
+  RUS: ['Russian'],
+  SMR: ['Sammarinese'],
+  SRB: ['Serbian', 'Serb'],
+  SVK: ['Slovak'],
+  SVN: ['Slovenian', 'Slovene'],
+  SWE: ['Swedish', 'Swede'],
+  UKR: ['Ukrainian'],
+  VAT: ['Vatican'],
+  XKX: ['Kosovar'],
+  // アフリカ
+  AGO: ['Angolan'],
+  BDI: ['Burundian'],
+  BEN: ['Beninese'],
+  BFA: ['Burkinabe'],
+  BWA: ['Motswana', 'Batswana'],
+  CAF: ['Central African'],
+  CIV: ['Ivorian'],
+  CMR: ['Cameroonian'],
+  COD: ['Congolese'],
+  COG: ['Congolese'],
+  COM: ['Comorian'],
+  CPV: ['Cabo Verdean', 'Cape Verdean'],
+  DJI: ['Djiboutian'],
+  DZA: ['Algerian'],
+  EGY: ['Egyptian'],
+  ERI: ['Eritrean'],
+  ETH: ['Ethiopian'],
+  GAB: ['Gabonese'],
+  GHA: ['Ghanaian'],
+  GIN: ['Guinean'],
+  GMB: ['Gambian'],
+  GNB: ['Bissau-Guinean'],
+  GNQ: ['Equatoguinean', 'Equatorial Guinean'],
+  KEN: ['Kenyan'],
+  LBR: ['Liberian'],
+  LBY: ['Libyan'],
+  LSO: ['Basotho', 'Mosotho'],
+  MAR: ['Moroccan'],
+  MDG: ['Malagasy'],
+  MLI: ['Malian'],
+  MOZ: ['Mozambican'],
+  MRT: ['Mauritanian'],
+  MUS: ['Mauritian'],
+  MWI: ['Malawian'],
+  NAM: ['Namibian'],
+  NER: ['Nigerien'],
+  NGA: ['Nigerian'],
+  RWA: ['Rwandan'],
+  SDN: ['Sudanese'],
+  SEN: ['Senegalese'],
+  SLE: ['Sierra Leonean'],
+  SOM: ['Somali'],
+  SSD: ['South Sudanese'],
+  STP: ['Santomean'],
+  SWZ: ['Swazi', 'Liswati'],
+  SYC: ['Seychellois'],
+  TCD: ['Chadian'],
+  TGO: ['Togolese'],
+  TUN: ['Tunisian'],
+  TZA: ['Tanzanian'],
+  UGA: ['Ugandan'],
+  ZAF: ['South African'],
+  ZMB: ['Zambian'],
+  ZWE: ['Zimbabwean'],
+  // 北アメリカ・カリブ海
+  ATG: ['Antiguan', 'Barbudan'],
+  BHS: ['Bahamian'],
+  BLZ: ['Belizean'],
+  BRB: ['Barbadian', 'Bajan'],
+  CAN: ['Canadian'],
+  CRI: ['Costa Rican'],
+  CUB: ['Cuban'],
+  DMA: ['Dominican'],
+  DOM: ['Dominican'],
+  GRD: ['Grenadian'],
+  GTM: ['Guatemalan'],
+  HND: ['Honduran'],
+  HTI: ['Haitian'],
+  JAM: ['Jamaican'],
+  KNA: ['Kittitian', 'Nevisian'],
+  LCA: ['Saint Lucian'],
+  MEX: ['Mexican'],
+  NIC: ['Nicaraguan'],
+  PAN: ['Panamanian'],
+  SLV: ['Salvadoran'],
+  TTO: ['Trinidadian', 'Tobagonian'],
+  USA: ['American'],
+  VCT: ['Vincentian'],
+  // 南アメリカ
+  ARG: ['Argentine', 'Argentinian'],
+  BOL: ['Bolivian'],
+  BRA: ['Brazilian'],
+  CHL: ['Chilean'],
+  COL: ['Colombian'],
+  ECU: ['Ecuadorian'],
+  GUY: ['Guyanese'],
+  PER: ['Peruvian'],
+  PRY: ['Paraguayan'],
+  SUR: ['Surinamese'],
+  URY: ['Uruguayan'],
+  VEN: ['Venezuelan'],
+  // オセアニア
+  AUS: ['Australian', 'Aussie'],
+  FJI: ['Fijian'],
+  FSM: ['Micronesian'],
+  KIR: ['I-Kiribati'],
+  MHL: ['Marshallese'],
+  NRU: ['Nauruan'],
+  NZL: ['New Zealander', 'Kiwi'],
+  PLW: ['Palauan'],
+  PNG: ['Papua New Guinean'],
+  SLB: ['Solomon Islander'],
+  TON: ['Tongan'],
+  TUV: ['Tuvaluan'],
+  VUT: ['Ni-Vanuatu'],
+  WSM: ['Samoan'],
+}
+
+export const getDemonyms = (countryId: string) => DEMONYMS[countryId] ?? []
@@ -0,0 +1,70 @@
+import type { FirebaseOptions } from 'firebase/app'
+
+export type FirebaseEnv = {
+  VITE_FIREBASE_API_KEY?: string
+  VITE_FIREBASE_AUTH_DOMAIN?: string
+  VITE_FIREBASE_PROJECT_ID?: string
+  VITE_FIREBASE_DATABASE_URL?: string
+  // 設定すると Firebase Emulator Suite（npm run emulators）に繋ぐ
+  VITE_FIREBASE_EMULATOR_HOST?: string
+}
+
+// emulatorHost があれば Auth と Realtime Database はエミュレーターに繋ぐ。authToken はホスト環境から渡されたカスタムトークン
+export type FirebaseSettings = {
+  options: FirebaseOptions
+  emulatorHost: string | null
+  authToken: string | null
+}
+
+// demo- で始まるプロジェクト ID はエミュレーター専用で、本物のプロジェクトが無くても動く（firebase.json と揃える）
+export const EMULATOR_PROJECT_ID = 'demo-geomind'
+export const AUTH_EMULATOR_PORT = 9099
+export const DATABASE_EMULATOR_PORT = 9000
+
+// 埋め込み先のホスト環境が __firebase_config に JSON で設定を渡すことがある
+const readHostedConfig = (): FirebaseOptions | null => {
+  if (typeof __firebase_config === 'undefined') return null
+  try {
+    return JSON.parse(__firebase_config) as FirebaseOptions
+  } catch (err) {
+    console.error('Firebase config load error:', err)
+    return null
+  }
+}
+
+const readHostedToken = () => (typeof __initial_auth_token === 'undefined' ? null : (__initial_auth_token ?? null))
+
+// エミュレーター → .env の本番プロジェクト → ホスト環境の設定の順に探す。どれも無ければ null（マルチプレイを出さない）
+export const getFirebaseSettings = (
+  env: FirebaseEnv,
+  hostedConfig: FirebaseOptions | null = readHostedConfig(),
+  hostedToken: string | null = readHostedToken(),
+): FirebaseSettings | null => {
+  if (env.VITE_FIREBASE_EMULATOR_HOST) {
+    const host = env.VITE_FIREBASE_EMULATOR_HOST
+    const projectId = env.VITE_FIREBASE_PROJECT_ID ?? EMULATOR_PROJECT_ID
+    return {
+      options: {
+        apiKey: env.VITE_FIREBASE_API_KEY ?? 'demo-api-key',
+        projectId,
+        databaseURL: `http://${host}:${DATABASE_EMULATOR_PORT}?ns=${projectId}`,
+      },
+      emulatorHost: host,
+      authToken: null,
+    }
+  }
+  if (env.VITE_FIREBASE_API_KEY && env.VITE_FIREBASE_DATABASE_URL) {
+    return {
+      options: {
+        apiKey: env.VITE_FIREBASE_API_KEY,
+        authDomain: env.VITE_FIREBASE_AUTH_DOMAIN,
+        projectId: env.VITE_FIREBASE_PROJECT_ID,
+        databaseURL: env.VITE_FIREBASE_DATABASE_URL,
+      },
+      emulatorHost: null,
+      authToken: null,
+    }
+  }
+  if (hostedConfig?.databaseURL) return { options: hostedConfig, emulatorHost: null, authToken: hostedToken }
+  return null
+}
@@ -0,0 +1,135 @@
+import { HISTORICAL_JAPANESE_NAMES } from './historicalNames.ts'
+import type { Locale } from './i18n.ts'
+
+export type Geometry =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] }
+
+export type GeoProperties = {
+  ADMIN?: string
+  name?: string
+  ISO_A3?: string
+  ISO_A2?: string
+  'ISO3166-1-Alpha-2'?: string
+  'ISO3166-1-Alpha-3'?: string
+  // 歴史地図（historical-basemaps）の属性。名前の無い未確定地域は NAME が null
+  NAME?: string | null
+  ABBREVN?: string | null
+  SUBJECTO?: string | null
+  PARTOF?: string | null
+  BORDERPRECISION?: number | null
+  // 都道府県・州などの地図パック（mapPacks.ts）で読み込み時に付ける ID と日本語名
+  REGION_ID?: string
+  NAME_JA?: string
+  // データセットごとの未知の属性もそのまま保持する
+  [key: string]: string | number | null | undefined
+}
+
+export type GeoFeature = {
+  type: 'Feature'
+  geometry: Geometry
+  properties: GeoProperties
+}
+
+export type RawGeoFeature = {
+  geometry?: Geometry | null
+  properties?: GeoProperties
+}
+
+export type RawGeoCollection = {
+  type: 'FeatureCollection'
+  features: RawGeoFeature[]
+}
+
+export type GeoCollection = {
+  type: 'FeatureCollection'
+  features: GeoFeature[]
+}
+
+export const isGeometrySupported = (geometry: RawGeoFeature['geometry']): geometry is Geometry =>
+  Boolean(geometry && (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon'))
+
+export const hasName = (properties?: GeoProperties) =>
+  Boolean(properties?.ADMIN || properties?.name || properties?.NAME)
+
+export const getEnglishName = (properties: GeoProperties) =>
+  properties.ADMIN || properties.name || properties.NAME || 'Unknown'
+
+export const getCountryId = (properties: GeoProperties) =>
+  properties.REGION_ID ||
+  properties.ISO_A3 ||
+  properties['ISO3166-1-Alpha-3'] ||
+  properties.name ||
+  properties.ADMIN ||
+  properties.NAME ||
+  'unknown'
+
+// 植民地・保護領などの宗主国。独立国（自分自身が宗主）の場合は null
+export const getSovereign = (properties: GeoProperties) => {
+  const sovereign = properties.SUBJECTO
+  return sovereign && sovereign !== properties.NAME ? sovereign : null
+}
+
+export const getAlpha2 = (properties: GeoProperties) => {
+  const regionCode = (properties['ISO3166-1-Alpha-2'] || properties.ISO_A2)?.toUpperCase()
+  return regionCode && /^[A-Z]{2}$/.test(regionCode) ? regionCode : null
+}
+
+const displayNames = new Map<Locale, Intl.DisplayNames>()
+
+const getDisplayNames = (locale: Locale) => {
+  if (typeof Intl.DisplayNames === 'undefined') return null
+  let names = displayNames.get(locale)
+  if (!names) {
+    names = new Intl.DisplayNames(locale, { type: 'region' })
+    displayNames.set(locale, names)
+  }
+  return names
+}
+
+// 表示用の国名。ISO コードがあれば Intl.DisplayNames、歴史地図の政体は対応表（日本語のみ）か英語名。
+// 地図パックの区画は読み込み時に付けた日本語名を使う
+export const getLocalizedName = (properties: GeoProperties, locale: Locale) => {
+  if (locale === 'ja' && properties.NAME_JA) return properties.NAME_JA
+  const regionCode = getAlpha2(properties)
+  const display = regionCode ? getDisplayNames(locale)?.of(regionCode) : undefined
+  if (display) return display
+  const englishName = getEnglishName(properties)
+  return locale === 'ja' ? (HISTORICAL_JAPANESE_NAMES[englishName] ?? englishName) : englishName
+}
+
+export const extractPoints = (geometry: Geometry) => {
+  if (geometry.type === 'Polygon') return geometry.coordinates.flat()
+  return geometry.coordinates.flatMap((polygon) => polygon.flat())
+}
+
+export const MAP_WIDTH = 800
+export const MAP_HEIGHT = 400
+
+// 正距円筒図法での投影。表示用の投影法（projection.ts）とは独立に、面積の比較などの基準に使う
+export const project = (coords: number[]) => {
+  const lon = coords[0]
+  const lat = coords[1]
+  const x = (lon + 180) * (MAP_WIDTH / 360)
+  const y = (90 - lat) * (MAP_HEIGHT / 180)
+  return [x, y]
+}
+
+const getRingArea = (ring: number[][]) => {
+  let area = 0
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x1, y1] = project(ring[i])
+    const [x2, y2] = project(ring[i + 1])
+    area += x1 * y2 - x2 * y1
+  }
+  return Math.abs(area) / 2
+}
+
+// 投影座標系での陸地面積（外周リングから穴を差し引く）
+export const getProjectedArea = (feature: GeoFeature) => {
+  const polygons = feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates] : feature.geometry.coordinates
+  return polygons.reduce((sum, [outer, ...holes]) => {
+    if (!outer) return sum
+    return sum + getRingArea(outer) - holes.reduce((holeSum, hole) => holeSum + getRingArea(hole), 0)
+  }, 0)
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { getCountryId, getLocalizedName, type RawGeoCollection } from './geo.ts'
+import { normalizeRegions } from './geoData.ts'
+import { JAPAN_PREFECTURES, SUBDIVISION_CAPITALS, US_STATES } from './subdivisions.ts'
+
+const square = (west: number, south: number) => ({
+  type: 'Polygon' as const,
+  coordinates: [
+    [
+      [west, south],
+      [west, south + 1],
+      [west + 1, south + 1],
+      [west + 1, south],
+      [west, south],
+    ],
+  ],
+})
+
+const collection = (features: Array<[Record<string, string>, number]>): RawGeoCollection => ({
+  type: 'FeatureCollection',
+  features: features.map(([properties, west]) => ({ properties, geometry: square(west, 0) })),
+})
+
+describe('normalizeRegions', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('replaces the source names with ISO 3166-2 ids and both names', () => {
+    const [feature] = normalizeRegions(
+      collection([[{ nam: 'Hokkai Do', nam_ja: '北海道' }, 140]]),
+      'japan-prefectures',
+      JAPAN_PREFECTURES,
+    )
+    expect(getCountryId(feature.properties)).toBe('JP-01')
+    expect(getLocalizedName(feature.properties, 'ja')).toBe('北海道')
+    expect(getLocalizedName(feature.properties, 'en')).toBe('Hokkaido')
+  })
+
+  it('drops excluded regions and regions missing from the table', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const features = normalizeRegions(
+      collection([
+        [{ name: 'Utah' }, -112],
+        [{ name: 'District of Columbia' }, -77],
+        [{ name: 'Guam' }, 144],
+      ]),
+      'us-states',
+      US_STATES,
+    )
+    expect(features.map((feature) => getCountryId(feature.properties))).toEqual(['US-UT'])
+    expect(console.warn).toHaveBeenCalledTimes(1)
+  })
+
+  it('merges a region split across several features into one', () => {
+    const features = normalizeRegions(
+      collection([
+        [{ nam_ja: '沖縄県' }, 127],
+        [{ nam_ja: '沖縄県' }, 124],
+      ]),
+      'japan-prefectures',
+      JAPAN_PREFECTURES,
+    )
+    expect(features).toHaveLength(1)
+    expect(features[0].geometry.type).toBe('MultiPolygon')
+    expect(features[0].geometry.coordinates).toHaveLength(2)
+  })
+})
+
+describe('region tables', () => {
+  it('cover every prefecture and state once', () => {
+    expect(new Set(Object.values(JAPAN_PREFECTURES).map(({ id }) => id)).size).toBe(47)
+    expect(new Set(Object.values(US_STATES).map(({ id }) => id)).size).toBe(50)
+  })
+
+  it('give every prefecture and state a capital', () => {
+    const ids = [...Object.values(JAPAN_PREFECTURES), ...Object.values(US_STATES)].map(({ id }) => id)
+    expect(ids.filter((id) => !SUBDIVISION_CAPITALS[id])).toEqual([])
+    expect(Object.keys(SUBDIVISION_CAPITALS)).toHaveLength(ids.length)
+  })
+})
@@ -0,0 +1,177 @@
+import { feature as topoFeature } from 'topojson-client'
+import type { GeometryCollection, Topology } from 'topojson-specification'
+import {
+  getCountryId,
+  hasName,
+  isGeometrySupported,
+  type GeoCollection,
+  type GeoFeature,
+  type Geometry,
+  type RawGeoCollection,
+} from './geo.ts'
+import { resolveCountryProperties } from './countryRegistry.ts'
+import { MAP_PACKS, type MapPack } from './mapPacks.ts'
+import { rewindGeometry } from './projection.ts'
+import regionDatasets from './regionDatasets.json'
+import type { SubdivisionName } from './subdivisions.ts'
+
+// 現代の国境（Natural Earth 由来）か、歴史地図の年代
+export type MapEra = 'modern' | 1914 | 1938 | 1945 | 1960
+
+export type HistoricalYear = Exclude<MapEra, 'modern'>
+
+export const ERA_OPTIONS: MapEra[] = ['modern', 1914, 1938, 1945, 1960]
+
+// bundled: ビルド時に簡略化して同梱した TopoJSON（オフラインでも動く） / remote: 配布元の最新 GeoJSON
+export type GeoDataSource = 'bundled' | 'remote'
+
+export const GEO_DATA_URL =
+  'https://raw.githubusercontent.com/datasets/geo-countries/master/data/countries.geojson'
+
+// scripts/build-geodata.mjs で生成する。PWA のプリキャッシュ対象
+export const BUNDLED_GEO_DATA_URL = `${import.meta.env.BASE_URL}data/countries.topo.json`
+
+// 地図パックの区画データ（都道府県・州など）。配布元と除外する区画は scripts/build-geodata.mjs と共有する
+export type RegionDatasetId = keyof typeof regionDatasets
+
+// scripts/build-geodata.mjs --dataset で生成する
+export const getRegionDataUrl = (dataset: RegionDatasetId) => `${import.meta.env.BASE_URL}data/${dataset}.topo.json`
+
+// 歴史地図は scripts/fetch-historical-maps.mjs で public/historical/ に同梱する
+export const getHistoricalDataUrl = (year: HistoricalYear) =>
+  `${import.meta.env.BASE_URL}historical/world_${year}.geojson`
+
+const toPolygons = (geometry: Geometry) =>
+  geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates
+
+// 同じ ID のフィーチャーを1つの MultiPolygon へまとめる
+const mergeById = (features: GeoFeature[]): GeoFeature[] => {
+  const merged = new Map<string, GeoFeature>()
+  for (const feature of features) {
+    const id = getCountryId(feature.properties)
+    const existing = merged.get(id)
+    if (!existing) {
+      merged.set(id, feature)
+      continue
+    }
+    existing.geometry = {
+      type: 'MultiPolygon',
+      coordinates: [...toPolygons(existing.geometry), ...toPolygons(feature.geometry)],
+    }
+  }
+  return Array.from(merged.values())
+}
+
+// 国の ID は国の台帳（countryRegistry.ts）で正規の ISO コードに揃える。
+// 海外領土や係争地も地図には描き、出題するかどうかは App 側で方針に応じて決める
+export const normalizeModern = (data: RawGeoCollection): GeoFeature[] =>
+  mergeById(
+    (data.features ?? []).flatMap((feature): GeoFeature[] =>
+      isGeometrySupported(feature.geometry) && hasName(feature.properties)
+        ? [
+            {
+              type: 'Feature',
+              geometry: feature.geometry,
+              properties: resolveCountryProperties(feature.properties ?? {}),
+            },
+          ]
+        : [],
+    ),
+  )
+
+// 歴史地図では同じ政体が複数のフィーチャーに分かれていることがあるので、IDごとに1つのMultiPolygonへまとめる
+const normalizeHistorical = (data: RawGeoCollection): GeoFeature[] =>
+  mergeById(
+    (data.features ?? []).flatMap((feature): GeoFeature[] =>
+      isGeometrySupported(feature.geometry) && hasName(feature.properties)
+        ? [{ type: 'Feature', geometry: feature.geometry, properties: feature.properties ?? {} }]
+        : [],
+    ),
+  )
+
+// 区画データの名前を対応表で ID と日英の名前に置き換える。除外リストと対応表に無い区画は出題しない
+export const normalizeRegions = (
+  data: RawGeoCollection,
+  dataset: RegionDatasetId,
+  regions: Record<string, SubdivisionName>,
+): GeoFeature[] => {
+  const { nameProperty, excluded } = regionDatasets[dataset]
+  const excludedNames = new Set<string>(excluded)
+  return mergeById(
+    (data.features ?? []).flatMap((feature): GeoFeature[] => {
+      const name = feature.properties?.[nameProperty]
+      if (!isGeometrySupported(feature.geometry) || typeof name !== 'string' || excludedNames.has(name)) return []
+      const region = regions[name]
+      if (!region) {
+        console.warn('Unknown region in map data:', name)
+        return []
+      }
+      return [
+        {
+          type: 'Feature',
+          geometry: feature.geometry,
+          properties: { REGION_ID: region.id, name: region.en, NAME_JA: region.ja },
+        },
+      ]
+    }),
+  )
+}
+
+const fetchJson = async <T>(url: string, errorMessage: string): Promise<T> => {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(errorMessage)
+  return (await res.json()) as T
+}
+
+type CountriesTopology = Topology<{ countries: GeometryCollection }>
+
+type RegionsTopology = Topology<{ regions: GeometryCollection }>
+
+const loadModern = async (source: GeoDataSource): Promise<RawGeoCollection> => {
+  if (source === 'bundled') {
+    try {
+      const topology = await fetchJson<CountriesTopology>(BUNDLED_GEO_DATA_URL, '同梱の地図データが見つかりません')
+      return topoFeature(topology, topology.objects.countries) as RawGeoCollection
+    } catch (err) {
+      // npm run data:countries を実行していない開発環境では配布元から直接取得する
+      console.warn('Bundled map data unavailable, falling back to remote:', err)
+    }
+  }
+  return fetchJson<RawGeoCollection>(GEO_DATA_URL, '地図データの取得に失敗しました')
+}
+
+const loadRegions = async (dataset: RegionDatasetId, source: GeoDataSource): Promise<RawGeoCollection> => {
+  if (source === 'bundled') {
+    try {
+      const topology = await fetchJson<RegionsTopology>(getRegionDataUrl(dataset), '同梱の地図データが見つかりません')
+      return topoFeature(topology, topology.objects.regions) as RawGeoCollection
+    } catch (err) {
+      // npm run data:packs を実行していない開発環境では配布元から直接取得する
+      console.warn('Bundled region data unavailable, falling back to remote:', err)
+    }
+  }
+  return fetchJson<RawGeoCollection>(regionDatasets[dataset].url, '地図データの取得に失敗しました')
+}
+
+// 年代の切り替えは世界の国境データだけ。区画データの地図パックでは era を見ない
+const loadFeatures = async (era: MapEra, source: GeoDataSource, pack: MapPack) => {
+  if (pack.dataset !== 'countries') {
+    return normalizeRegions(await loadRegions(pack.dataset, source), pack.dataset, pack.regions ?? {})
+  }
+  if (era === 'modern') return normalizeModern(await loadModern(source))
+  return normalizeHistorical(
+    await fetchJson<RawGeoCollection>(getHistoricalDataUrl(era), `${era}年の地図データが見つかりません`),
+  )
+}
+
+export const loadGeoData = async (
+  era: MapEra,
+  source: GeoDataSource = 'bundled',
+  pack: MapPack = MAP_PACKS.world,
+): Promise<GeoCollection> => {
+  const features = (await loadFeatures(era, source, pack)).map((feature) => ({
+    ...feature,
+    geometry: rewindGeometry(feature.geometry),
+  }))
+  return { type: 'FeatureCollection', features }
+}
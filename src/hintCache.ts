@@ -0,0 +1,65 @@
+import type { Hint } from './hints.ts'
+
+const DB_NAME = 'geomind'
+const DB_VERSION = 1
+const STORE_NAME = 'hints'
+
+type CachedHint = {
+  key: string
+  hint: Hint
+  createdAt: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'))
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // 開けなかった場合は次回もう一度試す
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+const runRequest = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) =>
+  openDatabase().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      }),
+  )
+
+// キャッシュが使えなくてもヒント自体は出せるので、失敗はログだけ残して握りつぶす
+export const readCachedHint = async (key: string): Promise<Hint | null> => {
+  try {
+    const entry = await runRequest<CachedHint | undefined>('readonly', (store) => store.get(key))
+    return entry?.hint ?? null
+  } catch (err) {
+    console.error('Hint cache read error:', err)
+    return null
+  }
+}
+
+export const writeCachedHint = async (key: string, hint: Hint) => {
+  try {
+    const entry: CachedHint = { key, hint, createdAt: Date.now() }
+    await runRequest('readwrite', (store) => store.put(entry))
+  } catch (err) {
+    console.error('Hint cache write error:', err)
+  }
+}
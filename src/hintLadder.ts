@@ -0,0 +1,38 @@
+import type { Hint } from './hints.ts'
+import type { Locale } from './i18n.ts'
+import type { Messages } from './messages.ts'
+import { CONTINENTS, getSubregion } from './regions.ts'
+
+// text: AI（または定型文）のヒント / continent・neighbors・capital: データから作るヒント /
+// highlight: 大陸を地図上で強調する最後の段
+export type HintStepKind = 'text' | 'continent' | 'neighbors' | 'capital' | 'highlight'
+
+export type HintStep = {
+  kind: HintStepKind
+  text: string
+}
+
+type LadderFacts = {
+  countryId: string
+  capital: string | null
+  neighborNames: string[]
+}
+
+// 漠然としたものから順に並べる。データが無い段（歴史地図の大陸、島国の隣国など）は飛ばす
+export const buildHintLadder = (
+  hint: Hint,
+  { countryId, capital, neighborNames }: LadderFacts,
+  t: Messages,
+  locale: Locale,
+): HintStep[] => {
+  const steps: HintStep[] = hint.hints.map((text) => ({ kind: 'text', text }))
+  const subregion = getSubregion(countryId)
+  const continentLabel = CONTINENTS.find((continent) => continent.id === subregion?.continent)?.label[locale]
+  if (subregion && continentLabel) {
+    steps.push({ kind: 'continent', text: t.continentStep(continentLabel, subregion.label[locale]) })
+  }
+  if (neighborNames.length > 0) steps.push({ kind: 'neighbors', text: t.neighborsStep(neighborNames) })
+  if (capital) steps.push({ kind: 'capital', text: t.capitalStep(capital) })
+  if (continentLabel) steps.push({ kind: 'highlight', text: t.highlightStep(continentLabel) })
+  return steps
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import type { GeoFeature } from './geo.ts'
+import { getLeakTerms, validateHint } from './hintValidation.ts'
+
+// 地図パックの読み込み後（normalizeRegions）と同じ属性を持つ区画
+const region = (id: string, en: string, ja: string): GeoFeature => ({
+  type: 'Feature',
+  properties: { REGION_ID: id, name: en, NAME_JA: ja },
+  geometry: { type: 'Polygon', coordinates: [] },
+})
+
+const AOMORI = region('JP-02', 'Aomori', '青森県')
+const CALIFORNIA = region('US-CA', 'California', 'カリフォルニア州')
+
+const check = (feature: GeoFeature, hint: string) =>
+  validateHint(JSON.stringify({ summary: 'ヒント', hints: [hint] }), getLeakTerms(feature))
+
+describe('getLeakTerms for subdivisions', () => {
+  it('catches the name without the prefecture or state suffix', () => {
+    expect(check(AOMORI, '青森はりんごの産地').issues).toEqual([{ kind: 'name', detail: '青森' }])
+    expect(check(CALIFORNIA, 'カリフォルニアには映画の都がある').issues).toEqual([{ kind: 'name', detail: 'カリフォルニア' }])
+    expect(check(CALIFORNIA, 'カリフォルニアには映画の都がある').hint?.hints).toEqual(['〇〇には映画の都がある'])
+  })
+
+  it('catches the prefectural and state capitals', () => {
+    expect(check(region('JP-03', 'Iwate', '岩手県'), '県庁所在地は盛岡').issues).toEqual([
+      { kind: 'capital', detail: '盛岡' },
+    ])
+    expect(check(CALIFORNIA, 'Its capital is Sacramento').issues).toEqual([{ kind: 'capital', detail: 'Sacramento' }])
+    expect(check(CALIFORNIA, '州都はサクラメント').issues).toEqual([{ kind: 'capital', detail: 'サクラメント' }])
+  })
+
+  it('passes hints that name neither', () => {
+    expect(check(AOMORI, '本州の最北端にある').issues).toEqual([])
+  })
+})
@@ -0,0 +1,143 @@
+import { COUNTRY_ALIASES } from './aliases.ts'
+import { CAPITALS, CAPITALS_EN } from './capitals.ts'
+import { getDemonyms } from './demonyms.ts'
+import { getCountryId, getEnglishName, getLocalizedName, type GeoFeature } from './geo.ts'
+import type { Hint } from './hints.ts'
+import type { Locale } from './i18n.ts'
+import { SUBDIVISION_CAPITALS } from './subdivisions.ts'
+
+// json: JSON として読めない / schema: summary・hints の形になっていない / coordinates: 緯度経度に触れている /
+// name・capital・demonym: 答え（国名・首都名・国民の呼び名）を含んでいる
+export type HintIssueKind = 'json' | 'schema' | 'coordinates' | 'name' | 'capital' | 'demonym'
+
+export type HintIssue = {
+  kind: HintIssueKind
+  detail: string
+}
+
+export type LeakTerm = {
+  kind: 'name' | 'capital' | 'demonym'
+  term: string
+}
+
+// hint: 使えるヒント（答えを伏せ字にしたものを含む）。形が壊れていて使えなければ null
+export type HintCheck = {
+  hint: Hint | null
+  issues: HintIssue[]
+}
+
+export type HintRejection = {
+  countryId: string
+  provider: string
+  attempt: number
+  issues: HintIssue[]
+  at: number
+}
+
+const MASKS: Record<Locale, string> = { ja: '〇〇', en: '___' }
+const MAX_HINTS = 3
+const MAX_HINT_LENGTH = 120
+const REJECTION_LOG_KEY = 'geomind.hintRejections'
+const MAX_REJECTION_LOG = 50
+
+const isCoordinateHint = (value: string) => /緯度|経度|北緯|南緯|東経|西経|°|latitude|longitude/i.test(value)
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// 「青森県」「カリフォルニア州」は「青森」「カリフォルニア」とも書かれるので、区画名は都道府県・州を外した形も探す
+const SUBDIVISION_SUFFIX = /[都道府県州]$/
+
+// 英字の語は単語単位・大文字小文字を区別せずに探す（"Oman" が "woman" に当たらないように）
+const toPattern = (term: string) =>
+  /^[\x20-\x7e]+$/.test(term)
+    ? new RegExp(`\\b${escapeRegExp(term)}\\b`, 'gi')
+    : new RegExp(escapeRegExp(term), 'g')
+
+// ヒントに出てはいけない語。長い語から順に並べ、伏せ字にするときに短い語が先に当たらないようにする。
+// ヒントの言語に関わらず、日本語・英語どちらの表記も対象にする
+export const getLeakTerms = (feature: GeoFeature): LeakTerm[] => {
+  const id = getCountryId(feature.properties)
+  const { ADMIN, name, REGION_ID } = feature.properties
+  const japaneseName = getLocalizedName(feature.properties, 'ja')
+  const candidates: LeakTerm[] = [
+    ...[
+      japaneseName,
+      REGION_ID ? japaneseName.replace(SUBDIVISION_SUFFIX, '') : undefined,
+      getLocalizedName(feature.properties, 'en'),
+      getEnglishName(feature.properties),
+      ADMIN,
+      name,
+      ...(COUNTRY_ALIASES[id] ?? []),
+    ]
+      .filter((term): term is string => Boolean(term))
+      .map((term) => ({ kind: 'name' as const, term })),
+    ...[CAPITALS[id], CAPITALS_EN[id], SUBDIVISION_CAPITALS[id]?.ja, SUBDIVISION_CAPITALS[id]?.en]
+      .filter((term): term is string => Boolean(term))
+      .map((term) => ({ kind: 'capital' as const, term })),
+    ...getDemonyms(id).map((term) => ({ kind: 'demonym' as const, term })),
+  ]
+  const unique = new Map<string, LeakTerm>()
+  for (const candidate of candidates) {
+    // 1文字の語や "US" のような略号は誤検出が多いので対象外
+    if (candidate.term.length < 2 || /^[A-Z]{2,3}$/.test(candidate.term)) continue
+    if (!unique.has(candidate.term)) unique.set(candidate.term, candidate)
+  }
+  return Array.from(unique.values()).sort((a, b) => b.term.length - a.term.length)
+}
+
+export const findLeaks = (text: string, terms: LeakTerm[]) => terms.filter(({ term }) => toPattern(term).test(text))
+
+export const maskLeaks = (text: string, terms: LeakTerm[], locale: Locale = 'ja') =>
+  terms.reduce((masked, { term }) => masked.replace(toPattern(term), MASKS[locale]), text)
+
+// モデルの出力（JSON 文字列）を検証する。答えを含むだけなら伏せ字にしたヒントも返す（再生成に失敗したときの予備）
+export const validateHint = (text: string | undefined, terms: LeakTerm[], locale: Locale = 'ja'): HintCheck => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text ?? '')
+  } catch {
+    return { hint: null, issues: [{ kind: 'json', detail: (text ?? '').slice(0, 80) }] }
+  }
+  const { summary, hints } = (parsed ?? {}) as Partial<Record<keyof Hint, unknown>>
+  const validHints = Array.isArray(hints)
+    ? hints.filter((hint): hint is string => typeof hint === 'string' && hint.trim() !== '')
+    : []
+  if (typeof summary !== 'string' || validHints.length === 0) {
+    return { hint: null, issues: [{ kind: 'schema', detail: 'summary と hints が必要です' }] }
+  }
+  const texts = [summary, ...validHints.slice(0, MAX_HINTS)]
+  const tooLong = texts.find((value) => value.length > MAX_HINT_LENGTH)
+  if (tooLong) return { hint: null, issues: [{ kind: 'schema', detail: `長すぎるヒント: ${tooLong.slice(0, 40)}…` }] }
+  const coordinate = texts.find(isCoordinateHint)
+  if (coordinate) return { hint: null, issues: [{ kind: 'coordinates', detail: coordinate }] }
+
+  const leaks = findLeaks(texts.join('\n'), terms)
+  return {
+    hint: {
+      summary: maskLeaks(summary, leaks, locale),
+      hints: validHints.slice(0, MAX_HINTS).map((hint) => maskLeaks(hint, leaks, locale)),
+    },
+    issues: leaks.map(({ kind, term }) => ({ kind, detail: term })),
+  }
+}
+
+export const loadHintRejections = (): HintRejection[] => {
+  try {
+    const raw = localStorage.getItem(REJECTION_LOG_KEY)
+    return raw ? (JSON.parse(raw) as HintRejection[]) : []
+  } catch (err) {
+    console.error('Hint rejection log load error:', err)
+    return []
+  }
+}
+
+// デバッグ用に、却下したヒントの理由を直近の分だけ残す
+export const recordHintRejection = (rejection: HintRejection) => {
+  console.warn('Hint rejected:', rejection)
+  try {
+    const log = [...loadHintRejections(), rejection].slice(-MAX_REJECTION_LOG)
+    localStorage.setItem(REJECTION_LOG_KEY, JSON.stringify(log))
+  } catch (err) {
+    console.error('Hint rejection log save error:', err)
+  }
+}
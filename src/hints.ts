@@ -0,0 +1,379 @@
+import { extractPoints, getCountryId, getEnglishName, getSovereign, type GeoFeature } from './geo.ts'
+import type { MapEra } from './geoData.ts'
+import { readCachedHint, writeCachedHint } from './hintCache.ts'
+import hintPrompts from './hintPrompts.json'
+import type { Locale } from './i18n.ts'
+import { getLeakTerms, recordHintRejection, validateHint, type HintIssue } from './hintValidation.ts'
+
+// hints は漠然としたものから具体的なものへ並ぶ段階的なヒント（1回の呼び出しでまとめて生成する）
+export type Hint = {
+  summary: string
+  hints: string[]
+}
+
+export type HintLanguage = Locale
+
+// 国以外（都道府県・州など）を出題するときの呼び名と、プロンプトに足す指示（hintPrompts.json の subjects）
+export type HintSubjectId = keyof typeof hintPrompts.subjects
+
+export type HintRequest = {
+  feature: GeoFeature
+  era: MapEra
+  language: HintLanguage
+  // 省略時は国として出題する
+  subject?: HintSubjectId
+}
+
+// gemini: ブラウザから直接 / proxy: server/hint-proxy.mjs 経由（キーはサーバー側） /
+// openai: OpenAI 互換エンドポイント（Ollama・LM Studio などのローカル LLM） / fallback: 形状から組み立てる定型文
+export type HintProviderId = 'gemini' | 'proxy' | 'openai' | 'fallback'
+
+export type HintPrompt = {
+  systemPrompt: string
+  userPrompt: string
+}
+
+// プロンプトの材料。プロキシには任意の文章を頼めないよう、プロンプトではなくこれを送り、サーバーが組み立てる。
+// issues は前回の出力を使えなかった理由（作り直しを頼むときだけ）
+export type HintQuery = {
+  name: string
+  era: MapEra
+  sovereign: string | null
+  language: HintLanguage
+  subject: HintSubjectId | null
+  issues: HintIssue[]
+}
+
+// プロンプト（またはその材料）を送ってモデルの生の出力を返す。検証と再生成は getHint が受け持つ
+export type HintProvider = {
+  id: Exclude<HintProviderId, 'fallback'>
+  model: string
+  complete: (prompt: HintPrompt, query: HintQuery) => Promise<string | undefined>
+}
+
+export type HintEnv = {
+  VITE_HINT_PROVIDER?: string
+  VITE_GEMINI_API_KEY?: string
+  VITE_GEMINI_MODEL?: string
+  VITE_HINT_PROXY_URL?: string
+  VITE_HINT_PROXY_MODEL?: string
+  VITE_OPENAI_BASE_URL?: string
+  VITE_OPENAI_MODEL?: string
+  VITE_OPENAI_API_KEY?: string
+}
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-lite'
+// 答えを含むなど使えない出力だったときに、指示を足して作り直させる回数を含めた上限
+const MAX_HINT_ATTEMPTS = 2
+// Hint の形を変えたら上げる。古い形式のキャッシュを読まないようにキーに含める
+const HINT_FORMAT_VERSION = 2
+
+type ClimateBand = 'tropical' | 'subtropical' | 'temperate' | 'polar'
+type SizeBand = 'small' | 'medium' | 'large'
+
+const getClimateBand = (lat: number): ClimateBand => {
+  const absLat = Math.abs(lat)
+  if (absLat < 23.4) return 'tropical'
+  if (absLat < 40) return 'subtropical'
+  if (absLat < 60) return 'temperate'
+  return 'polar'
+}
+
+// 定型文ヒントの言い回し。形状から求めた値を言語ごとの文に当てはめる
+type FallbackTexts = {
+  empty: Hint
+  north: string
+  south: string
+  east: string
+  west: string
+  climates: Record<ClimateBand, string>
+  sizes: Record<SizeBand, string>
+  islands: string
+  mainland: string
+  climateHint: (climate: string) => string
+  historicalSummary: (era: number, lat: string, lon: string) => string
+  historicalLocation: (era: number, lat: string, lon: string) => string
+  historicalStatus: (size: string, sovereign: string | null) => string
+  summary: (lat: string, lon: string, size: string) => string
+  location: (lat: string, lon: string) => string
+  shape: (size: string, shape: string) => string
+}
+
+const FALLBACK_TEXTS: Record<Locale, FallbackTexts> = {
+  ja: {
+    empty: { summary: '解説準備中', hints: ['手がかりになる情報がありません。'] },
+    north: '北半球',
+    south: '南半球',
+    east: '東半球',
+    west: '西半球',
+    climates: {
+      tropical: '熱帯（南北の回帰線の間）',
+      subtropical: '亜熱帯から温帯',
+      temperate: '温帯から冷帯',
+      polar: '寒帯に近い高緯度地域',
+    },
+    sizes: { small: '小さめ', medium: '中規模', large: '広い' },
+    islands: '島が点在する国',
+    mainland: 'ひと続きの陸地を持つ国',
+    climateHint: (climate) => `国土の中心はおおむね${climate}にあります。`,
+    historicalSummary: (era, lat, lon) => `${era}年 / ${lat}・${lon}`,
+    historicalLocation: (era, lat, lon) => `${era}年当時、${lat}・${lon}にありました。`,
+    historicalStatus: (size, sovereign) =>
+      `${size}な領域を持つ${sovereign ? `${sovereign}の支配下にあった地域` : '独立した政体'}でした。`,
+    summary: (lat, lon, size) => `${lat}・${lon} / ${size}`,
+    location: (lat, lon) => `${lat}・${lon}に位置する国です。`,
+    shape: (size, shape) => `${size}な国土を持つ、${shape}です。`,
+  },
+  en: {
+    empty: { summary: 'Coming soon', hints: ['No clues are available.'] },
+    north: 'Northern Hemisphere',
+    south: 'Southern Hemisphere',
+    east: 'Eastern Hemisphere',
+    west: 'Western Hemisphere',
+    climates: {
+      tropical: 'the tropics (between the two tropic lines)',
+      subtropical: 'the subtropical to temperate zone',
+      temperate: 'the temperate to subarctic zone',
+      polar: 'the high latitudes near the polar zone',
+    },
+    sizes: { small: 'small', medium: 'mid-sized', large: 'large' },
+    islands: 'country scattered across islands',
+    mainland: 'country on one continuous landmass',
+    climateHint: (climate) => `Its heartland lies roughly in ${climate}.`,
+    historicalSummary: (era, lat, lon) => `${era} / ${lat}, ${lon}`,
+    historicalLocation: (era, lat, lon) => `In ${era} it lay in the ${lat} and the ${lon}.`,
+    historicalStatus: (size, sovereign) =>
+      sovereign ? `It was a ${size} territory ruled by ${sovereign}.` : `It was a ${size} independent state.`,
+    summary: (lat, lon, size) => `${lat}, ${lon} / ${size}`,
+    location: (lat, lon) => `It lies in the ${lat} and the ${lon}.`,
+    shape: (size, shape) => `It is a ${size} ${shape}.`,
+  },
+}
+
+// 形状だけから組み立てる段階的なヒント。答えが分かってしまわないよう国名は出さない
+export const buildFallbackHint = (feature: GeoFeature, mapEra: MapEra, locale: Locale = 'ja'): Hint => {
+  const texts = FALLBACK_TEXTS[locale]
+  const points = extractPoints(feature.geometry)
+  if (points.length === 0) return texts.empty
+  let minLat = Infinity
+  let maxLat = -Infinity
+  let minLon = Infinity
+  let maxLon = -Infinity
+  for (const [lon, lat] of points) {
+    minLat = Math.min(minLat, lat)
+    maxLat = Math.max(maxLat, lat)
+    minLon = Math.min(minLon, lon)
+    maxLon = Math.max(maxLon, lon)
+  }
+  const centerLat = (minLat + maxLat) / 2
+  const centerLon = (minLon + maxLon) / 2
+  const latLabel = centerLat >= 0 ? texts.north : texts.south
+  const lonLabel = centerLon >= 0 ? texts.east : texts.west
+  const extentArea = Math.abs((maxLat - minLat) * (maxLon - minLon))
+  const sizeLabel = texts.sizes[extentArea < 20 ? 'small' : extentArea < 80 ? 'medium' : 'large']
+  const shapeLabel =
+    feature.geometry.type === 'MultiPolygon' && feature.geometry.coordinates.length > 1 ? texts.islands : texts.mainland
+  const climateHint = texts.climateHint(texts.climates[getClimateBand(centerLat)])
+  if (mapEra !== 'modern') {
+    return {
+      summary: texts.historicalSummary(mapEra, latLabel, lonLabel),
+      hints: [
+        texts.historicalLocation(mapEra, latLabel, lonLabel),
+        climateHint,
+        texts.historicalStatus(sizeLabel, getSovereign(feature.properties)),
+      ],
+    }
+  }
+  return {
+    summary: texts.summary(latLabel, lonLabel, sizeLabel),
+    hints: [texts.location(latLabel, lonLabel), climateHint, texts.shape(sizeLabel, shapeLabel)],
+  }
+}
+
+// {name} のような差し込み位置を埋める。テンプレートは server/hint-proxy.mjs と共有する
+const fillTemplate = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => String(values[key] ?? match))
+
+// 再生成を頼むときにユーザープロンプトへ付け足す指示
+const buildCorrectionPrompt = (issues: HintIssue[], language: HintLanguage) => {
+  const texts = hintPrompts[language]
+  const reasons = Array.from(
+    new Set(
+      issues.map(({ kind, detail }) =>
+        kind === 'name' || kind === 'capital' || kind === 'demonym'
+          ? fillTemplate(texts.reason, { label: texts.issues[kind], detail })
+          : texts.issues[kind],
+      ),
+    ),
+  )
+  return fillTemplate(texts.correction, { reasons: reasons.join(texts.reasonSeparator) })
+}
+
+export const buildHintPrompt = ({ name, era, sovereign, language, subject, issues }: HintQuery): HintPrompt => {
+  const texts = hintPrompts[language]
+  const subjectTexts = subject ? hintPrompts.subjects[subject][language] : null
+  const noun = subjectTexts?.noun ?? texts.noun
+  const label = `${noun.charAt(0).toUpperCase()}${noun.slice(1)}`
+  const systemPrompt = fillTemplate(texts.system, {
+    levels: hintPrompts.levels,
+    noun,
+    // 歴史地図では当時の状況に限定し、後の時代の出来事や現在の国名を持ち込ませない
+    eraInstruction: era === 'modern' ? '' : fillTemplate(texts.eraInstruction, { era }),
+    subjectInstruction: subjectTexts ? `\n${subjectTexts.instruction}` : '',
+  })
+  const userPrompt =
+    era === 'modern'
+      ? fillTemplate(texts.user, { label, name })
+      : fillTemplate(texts.historicalUser, { label, name, era }) +
+        (sovereign ? fillTemplate(texts.sovereign, { sovereign }) : '')
+  return {
+    systemPrompt,
+    userPrompt: issues.length > 0 ? `${userPrompt}\n${buildCorrectionPrompt(issues, language)}` : userPrompt,
+  }
+}
+
+const postJson = async <T>(url: string, body: unknown, headers: Record<string, string> = {}): Promise<T> => {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  })
+  if (!res.ok) throw new Error(`Hint request failed (${res.status})`)
+  return (await res.json()) as T
+}
+
+type GeminiResponse = {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>
+}
+
+export const createGeminiProvider = (apiKey: string, model = DEFAULT_GEMINI_MODEL): HintProvider => ({
+  id: 'gemini',
+  model,
+  complete: async ({ systemPrompt, userPrompt }) => {
+    const result = await postJson<GeminiResponse>(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+      {
+        contents: [{ parts: [{ text: userPrompt }] }],
+        systemInstruction: { parts: [{ text: systemPrompt }] },
+        generationConfig: { responseMimeType: 'application/json' },
+      },
+    )
+    return result.candidates?.[0]?.content?.parts?.[0]?.text
+  },
+})
+
+// モデルはプロキシ側の GEMINI_MODEL で決まる。キャッシュのキーに使うため、クライアントにも同じモデル名を設定する。
+// 食い違っていたら、別のモデルのヒントを今のモデルのものとしてキャッシュしないよう使わない
+export const createProxyProvider = (url: string, model = DEFAULT_GEMINI_MODEL): HintProvider => ({
+  id: 'proxy',
+  model,
+  complete: async (_prompt, query) => {
+    const result = await postJson<{ text?: string; model?: string }>(url, query)
+    if (result.model && result.model !== model) {
+      throw new Error(`Hint proxy uses ${result.model}, but VITE_HINT_PROXY_MODEL is ${model}`)
+    }
+    return result.text
+  },
+})
+
+type ChatCompletionResponse = {
+  choices?: Array<{ message?: { content?: string } }>
+}
+
+export const createOpenAIProvider = (baseUrl: string, model: string, apiKey?: string): HintProvider => ({
+  id: 'openai',
+  model,
+  complete: async ({ systemPrompt, userPrompt }) => {
+    const result = await postJson<ChatCompletionResponse>(
+      `${baseUrl.replace(/\/$/, '')}/chat/completions`,
+      {
+        model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        response_format: { type: 'json_object' },
+      },
+      apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    )
+    return result.choices?.[0]?.message?.content
+  },
+})
+
+// VITE_HINT_PROVIDER で明示されなければ、設定済みの接続先から選ぶ（プロキシ → OpenAI 互換 → Gemini）。
+// null は定型文だけを使うことを表す
+export const createHintProvider = (env: HintEnv): HintProvider | null => {
+  const requested = env.VITE_HINT_PROVIDER as HintProviderId | undefined
+  const id =
+    requested ??
+    (env.VITE_HINT_PROXY_URL
+      ? 'proxy'
+      : env.VITE_OPENAI_BASE_URL
+        ? 'openai'
+        : env.VITE_GEMINI_API_KEY
+          ? 'gemini'
+          : 'fallback')
+  switch (id) {
+    case 'proxy':
+      return env.VITE_HINT_PROXY_URL ? createProxyProvider(env.VITE_HINT_PROXY_URL, env.VITE_HINT_PROXY_MODEL) : null
+    case 'openai':
+      return env.VITE_OPENAI_BASE_URL && env.VITE_OPENAI_MODEL
+        ? createOpenAIProvider(env.VITE_OPENAI_BASE_URL, env.VITE_OPENAI_MODEL, env.VITE_OPENAI_API_KEY)
+        : null
+    case 'gemini':
+      return env.VITE_GEMINI_API_KEY
+        ? createGeminiProvider(env.VITE_GEMINI_API_KEY, env.VITE_GEMINI_MODEL)
+        : null
+    default:
+      return null
+  }
+}
+
+const getCacheKey = (provider: HintProvider, { feature, era, language }: HintRequest) =>
+  [HINT_FORMAT_VERSION, provider.id, provider.model, language, era, getCountryId(feature.properties)].join(':')
+
+// キャッシュ済みのヒントだけを返す（API は呼ばない）。探検モードで説明を出すときに使う
+export const getCachedHint = async (provider: HintProvider | null, request: HintRequest): Promise<Hint | null> =>
+  provider ? readCachedHint(getCacheKey(provider, request)) : null
+
+// 同じ国・モデル・言語のヒントは IndexedDB から返し、API を呼ばない（オフラインでも表示できる）。
+// 定型文はいつでも作れるのでキャッシュしない（オンラインに戻ったら AI ヒントを取りに行けるように）
+export const getHint = async (provider: HintProvider | null, request: HintRequest): Promise<Hint> => {
+  if (!provider) return buildFallbackHint(request.feature, request.era, request.language)
+  const key = getCacheKey(provider, request)
+  const cached = await readCachedHint(key)
+  if (cached) return cached
+
+  const countryId = getCountryId(request.feature.properties)
+  const terms = getLeakTerms(request.feature)
+  let query: HintQuery = {
+    name: getEnglishName(request.feature.properties),
+    era: request.era,
+    sovereign: getSovereign(request.feature.properties),
+    language: request.language,
+    subject: request.subject ?? null,
+    issues: [],
+  }
+  // 作り直しても答えが消えなかったときは、伏せ字にしたヒントを使う
+  let masked: Hint | null = null
+  for (let attempt = 1; attempt <= MAX_HINT_ATTEMPTS; attempt++) {
+    let text: string | undefined
+    try {
+      text = await provider.complete(buildHintPrompt(query), query)
+    } catch (err) {
+      console.error('AI hint error:', err)
+      break
+    }
+    const { hint, issues } = validateHint(text, terms, request.language)
+    if (hint && issues.length === 0) {
+      await writeCachedHint(key, hint)
+      return hint
+    }
+    recordHintRejection({ countryId, provider: `${provider.id}:${provider.model}`, attempt, issues, at: Date.now() })
+    masked = hint ?? masked
+    query = { ...query, issues }
+  }
+  if (!masked) return buildFallbackHint(request.feature, request.era, request.language)
+  await writeCachedHint(key, masked)
+  return masked
+}
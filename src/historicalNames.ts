@@ -0,0 +1,54 @@
+// 歴史地図の政体名（英語）→ 日本語名。ISO コードを持たないため Intl.DisplayNames が使えない
+export const HISTORICAL_JAPANESE_NAMES: Record<string, string> = {
+  USSR: 'ソビエト連邦',
+  'Soviet Union': 'ソビエト連邦',
+  Yugoslavia: 'ユーゴスラビア',
+  'Kingdom of Yugoslavia': 'ユーゴスラビア王国',
+  Czechoslovakia: 'チェコスロバキア',
+  'Russian Empire': 'ロシア帝国',
+  'Ottoman Empire': 'オスマン帝国',
+  'Austro-Hungarian Empire': 'オーストリア＝ハンガリー帝国',
+  'Austria Hungary': 'オーストリア＝ハンガリー帝国',
+  'German Empire': 'ドイツ帝国',
+  Germany: 'ドイツ',
+  'East Germany': '東ドイツ',
+  'West Germany': '西ドイツ',
+  'Empire of Japan': '大日本帝国',
+  Manchukuo: '満洲国',
+  'Qing Empire': '清',
+  Persia: 'ペルシア',
+  Siam: 'シャム',
+  Abyssinia: 'アビシニア',
+  Ethiopia: 'エチオピア',
+  'British Raj': '英領インド',
+  'British India': '英領インド',
+  'French Indochina': '仏領インドシナ',
+  'Dutch East Indies': 'オランダ領東インド',
+  'French West Africa': '仏領西アフリカ',
+  'French Equatorial Africa': '仏領赤道アフリカ',
+  'Belgian Congo': 'ベルギー領コンゴ',
+  'Anglo-Egyptian Sudan': '英埃領スーダン',
+  'German East Africa': 'ドイツ領東アフリカ',
+  'German South West Africa': 'ドイツ領南西アフリカ',
+  'Italian East Africa': 'イタリア領東アフリカ',
+  'Italian Libya': 'イタリア領リビア',
+  'Spanish Sahara': 'スペイン領サハラ',
+  'Portuguese East Africa': 'ポルトガル領東アフリカ',
+  'Portuguese West Africa': 'ポルトガル領西アフリカ',
+  'Gold Coast': 'ゴールドコースト',
+  Rhodesia: 'ローデシア',
+  'Southern Rhodesia': '南ローデシア',
+  'Northern Rhodesia': '北ローデシア',
+  'Union of South Africa': '南アフリカ連邦',
+  'Mandatory Palestine': '委任統治領パレスチナ',
+  Transjordan: 'トランスヨルダン',
+  Korea: '朝鮮',
+  Formosa: '台湾',
+  Ceylon: 'セイロン',
+  Burma: 'ビルマ',
+  Malaya: 'マラヤ',
+  Newfoundland: 'ニューファンドランド',
+  Tibet: 'チベット',
+  'Mongolian People’s Republic': 'モンゴル人民共和国',
+  'Outer Mongolia': '外モンゴル',
+}
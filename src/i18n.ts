@@ -0,0 +1,45 @@
+import { createContext, useContext } from 'react'
+import { MESSAGES } from './messages.ts'
+
+export type Locale = 'ja' | 'en'
+
+// 国名・地域名など、データ側で言語ごとに持つ文字列
+export type LocalizedText = Record<Locale, string>
+
+// 言語の切り替えボタンはそれぞれの言語自身の表記で出す
+export const LOCALE_OPTIONS: Array<{ id: Locale; label: string }> = [
+  { id: 'ja', label: '日本語' },
+  { id: 'en', label: 'English' },
+]
+
+const LOCALE_KEY = 'geomind.locale'
+
+const isLocale = (value: unknown): value is Locale => value === 'ja' || value === 'en'
+
+export const detectLocale = (): Locale =>
+  typeof navigator !== 'undefined' && navigator.language.toLowerCase().startsWith('ja') ? 'ja' : 'en'
+
+// 保存済みの設定が無ければブラウザの言語に合わせる
+export const loadLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY)
+    if (isLocale(saved)) return saved
+  } catch (err) {
+    console.error('Locale load error:', err)
+  }
+  return detectLocale()
+}
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(LOCALE_KEY, locale)
+  } catch (err) {
+    console.error('Locale save error:', err)
+  }
+}
+
+export const LocaleContext = createContext<Locale>('ja')
+
+export const useLocale = () => useContext(LocaleContext)
+
+export const useMessages = () => MESSAGES[useLocale()]
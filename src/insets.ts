@@ -0,0 +1,13 @@
+// 小さな島国が密集していて、世界地図では見分けにくい地域。地図の隅に拡大図として表示する
+export type InsetId = 'caribbean' | 'lesser-antilles'
+
+export type MapInset = {
+  id: InsetId
+  // [[西端の経度, 南端の緯度], [東端の経度, 北端の緯度]]
+  bounds: [[number, number], [number, number]]
+}
+
+export const MAP_INSETS: MapInset[] = [
+  { id: 'caribbean', bounds: [[-86, 9], [-59, 27]] },
+  { id: 'lesser-antilles', bounds: [[-65, 11], [-59, 19]] },
+]
@@ -0,0 +1,54 @@
+export type NavDirection = 'up' | 'down' | 'left' | 'right'
+
+// x・y は地図の座標系（viewBox）での国の中心
+export type NavPoint = {
+  id: string
+  x: number
+  y: number
+}
+
+// Tab で巡る順に並べるときの緯度の帯の幅（度）。北の帯から順に、帯の中は西から東へ並べる
+const LATITUDE_BAND = 15
+
+export const ARROW_DIRECTIONS: Record<string, NavDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+}
+
+const DIRECTION_VECTORS: Record<NavDirection, [number, number]> = {
+  up: [0, -1],
+  down: [0, 1],
+  left: [-1, 0],
+  right: [1, 0],
+}
+
+// center は getFocusCenter の [経度, 緯度]
+export const compareGeographic = (a: [number, number], b: [number, number]) => {
+  const bandA = Math.floor((90 - a[1]) / LATITUDE_BAND)
+  const bandB = Math.floor((90 - b[1]) / LATITUDE_BAND)
+  return bandA !== bandB ? bandA - bandB : a[0] - b[0]
+}
+
+// 矢印キーで移る先。指定方向にある国のうち、進む距離と横へのずれを合わせて最も近いものを選ぶ
+// （横へのずれを重く見て、斜め遠くの国より真っすぐ先の国を優先する）
+export const findNextInDirection = (points: NavPoint[], fromId: string, direction: NavDirection) => {
+  const from = points.find((point) => point.id === fromId)
+  if (!from) return null
+  const [dx, dy] = DIRECTION_VECTORS[direction]
+  let best: NavPoint | null = null
+  let bestScore = Infinity
+  for (const point of points) {
+    if (point.id === fromId) continue
+    const forward = (point.x - from.x) * dx + (point.y - from.y) * dy
+    if (forward <= 0) continue
+    const sideways = Math.abs((point.x - from.x) * dy - (point.y - from.y) * dx)
+    const score = forward + sideways * 2
+    if (score < bestScore) {
+      best = point
+      bestScore = score
+    }
+  }
+  return best?.id ?? null
+}
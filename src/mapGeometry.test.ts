@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import {
+  LOD_LEVELS,
+  buildShapeIndex,
+  getLodLevel,
+  getLodTolerance,
+  hitTestShapes,
+  projectFeature,
+  simplifyRing,
+} from './mapGeometry.ts'
+import { createProjection } from './projection.ts'
+import { box } from './testFeatures.ts'
+
+describe('level of detail', () => {
+  it('gets finer as the map is zoomed in and stops simplifying at the last level', () => {
+    expect(getLodLevel(1.5)).toBe(0)
+    expect(getLodLevel(4)).toBe(2)
+    expect(getLodLevel(20)).toBe(LOD_LEVELS - 1)
+    expect(getLodTolerance(1)).toBeLessThan(getLodTolerance(0))
+    expect(getLodTolerance(LOD_LEVELS - 1)).toBe(0)
+  })
+
+  it('drops points that deviate less than the tolerance', () => {
+    // ほぼ直線上に並ぶ点と、大きく外れた1点
+    const ring = [0, 0, 1, 0.01, 2, 0, 3, 0.01, 4, 0, 4, 4, 0, 4, 0, 0]
+    const simplified = simplifyRing(ring, 0.1)
+    expect(simplified.length).toBeLessThan(ring.length)
+    expect(simplified).toEqual([0, 0, 4, 0, 4, 4, 0, 4, 0, 0])
+    expect(simplifyRing(ring, 0)).toBe(ring)
+  })
+})
+
+describe('hitTestShapes', () => {
+  const projection = createProjection('equirectangular')
+  const features = [box('AAA', 0, 0, 20, 20), box('BBB', 30, 0, 50, 20), box('CCC', 120, -40, 140, -20)]
+  const shapes = features.map((feature) => projectFeature(feature, projection)!)
+  const index = buildShapeIndex(shapes)
+
+  it('finds the country under a point', () => {
+    expect(hitTestShapes(shapes, index, projection([10, 10])!)).toBe(0)
+    expect(hitTestShapes(shapes, index, projection([40, 10])!)).toBe(1)
+    expect(hitTestShapes(shapes, index, projection([130, -30])!)).toBe(2)
+  })
+
+  it('returns null over the sea', () => {
+    expect(hitTestShapes(shapes, index, projection([25, 10])!)).toBeNull()
+    expect(hitTestShapes(shapes, index, projection([-100, 60])!)).toBeNull()
+  })
+
+  it('skips countries on the far side of the globe', () => {
+    expect(projectFeature(features[2], createProjection('orthographic', [-50, 30]))).toBeNull()
+  })
+})
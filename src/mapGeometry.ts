@@ -0,0 +1,120 @@
+import { geoPath, type GeoProjection } from 'd3-geo'
+import type { GeoFeature } from './geo.ts'
+import type { Bounds } from './projection.ts'
+import { buildRTree, pointInRings, searchRTree, type IndexEntry, type RTree } from './spatialIndex.ts'
+
+// 地図の描画方式。svg は国ごとの <path>、canvas は1枚の <canvas> にまとめて描く（高解像度の地図や行政区画向け）
+export type MapRenderer = 'svg' | 'canvas'
+
+export const MAP_RENDERERS: MapRenderer[] = ['svg', 'canvas']
+
+// 投影済みの国の形。rings は地図の座標系での [x0, y0, x1, y1, ...]
+export type ProjectedShape = {
+  rings: number[][]
+  bounds: Bounds
+}
+
+// 簡略化の段階。倍率が 2 倍になるごとに1段細かくし、最後の段は簡略化しない
+export const LOD_LEVELS = 5
+// 一番粗い段での許容誤差（地図の座標系）。初期表示で画面上 0.5px 程度のずれに収まる大きさ
+const BASE_TOLERANCE = 0.4
+
+export const getLodLevel = (scale: number) =>
+  Math.max(0, Math.min(LOD_LEVELS - 1, Math.floor(Math.log2(scale))))
+
+export const getLodTolerance = (level: number) => (level >= LOD_LEVELS - 1 ? 0 : BASE_TOLERANCE / 2 ** level)
+
+const getRingsBounds = (rings: number[][]): Bounds => {
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const ring of rings) {
+    for (let i = 0; i < ring.length; i += 2) {
+      minX = Math.min(minX, ring[i])
+      maxX = Math.max(maxX, ring[i])
+      minY = Math.min(minY, ring[i + 1])
+      maxY = Math.max(maxY, ring[i + 1])
+    }
+  }
+  return { minX, minY, maxX, maxY }
+}
+
+// 日付変更線での分割と地球儀の裏側の切り取りは d3-geo に任せ、出力された線をそのまま記録する
+export const projectFeature = (feature: GeoFeature, projection: GeoProjection): ProjectedShape | null => {
+  const rings: number[][] = []
+  let ring: number[] = []
+  const flush = () => {
+    if (ring.length >= 6) rings.push(ring)
+    ring = []
+  }
+  geoPath(projection, {
+    moveTo: (x, y) => {
+      flush()
+      ring.push(x, y)
+    },
+    lineTo: (x, y) => {
+      ring.push(x, y)
+    },
+    closePath: flush,
+    arc: () => {},
+    beginPath: () => {},
+  })(feature)
+  flush()
+  if (rings.length === 0) return null
+  return { rings, bounds: getRingsBounds(rings) }
+}
+
+const segmentDistanceSq = (ring: number[], p: number, a: number, b: number) => {
+  const [px, py, ax, ay, bx, by] = [ring[p], ring[p + 1], ring[a], ring[a + 1], ring[b], ring[b + 1]]
+  const dx = bx - ax
+  const dy = by - ay
+  const lengthSq = dx * dx + dy * dy
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq))
+  return (px - ax - t * dx) ** 2 + (py - ay - t * dy) ** 2
+}
+
+// Douglas-Peucker 法で、許容誤差より小さい凹凸の点を間引く。三角形より少なくなる小島はそのまま残す
+export const simplifyRing = (ring: number[], tolerance: number) => {
+  const count = ring.length / 2
+  if (tolerance <= 0 || count <= 4) return ring
+  const keep = new Uint8Array(count)
+  keep[0] = 1
+  keep[count - 1] = 1
+  const toleranceSq = tolerance * tolerance
+  const stack: [number, number][] = [[0, count - 1]]
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!
+    let farthest = -1
+    let farthestSq = toleranceSq
+    for (let i = first + 1; i < last; i++) {
+      const distanceSq = segmentDistanceSq(ring, i * 2, first * 2, last * 2)
+      if (distanceSq > farthestSq) {
+        farthest = i
+        farthestSq = distanceSq
+      }
+    }
+    if (farthest < 0) continue
+    keep[farthest] = 1
+    stack.push([first, farthest], [farthest, last])
+  }
+  const simplified: number[] = []
+  for (let i = 0; i < count; i++) {
+    if (keep[i]) simplified.push(ring[i * 2], ring[i * 2 + 1])
+  }
+  return simplified.length >= 6 ? simplified : ring
+}
+
+// 国ごとではなく多角形ごとに登録する（日付変更線で分かれた国の範囲が地図の端から端まで広がらないように）
+export const buildShapeIndex = (shapes: ProjectedShape[]): RTree<number> =>
+  buildRTree(
+    shapes.flatMap(({ rings }, index): IndexEntry<number>[] =>
+      rings.map((ring) => ({ bounds: getRingsBounds([ring]), value: index })),
+    ),
+  )
+
+// 点（地図の座標系）にある国の番号。重なっているときは後から描いた（上にある）国を選ぶ
+export const hitTestShapes = (shapes: ProjectedShape[], index: RTree<number>, [x, y]: [number, number]) => {
+  const candidates = [...new Set(searchRTree(index, { minX: x, minY: y, maxX: x, maxY: y }))].sort((a, b) => b - a)
+  return candidates.find((candidate) => pointInRings([x, y], shapes[candidate].rings)) ?? null
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import { findPoleOfInaccessibility, getLabelPoint, placeLabels, type LabelCandidate } from './mapLabels.ts'
+import type { GeoFeature } from './geo.ts'
+
+// 左下を欠いた L 字。外接矩形の中心 (5, 5) は欠けた角に近く、縁から 1 しか離れていない
+const L_SHAPE = [
+  [
+    [0, 0],
+    [10, 0],
+    [10, 10],
+    [0, 10],
+    [0, 6],
+    [6, 6],
+    [6, 0],
+    [0, 0],
+  ].reverse(),
+]
+
+// 下が開いた U 字。外接矩形の中心 (5, 5) は多角形の外にある
+const U_SHAPE = [
+  [
+    [0, 0],
+    [3, 0],
+    [3, 7],
+    [7, 7],
+    [7, 0],
+    [10, 0],
+    [10, 10],
+    [0, 10],
+    [0, 0],
+  ],
+]
+
+const isInside = ([x, y]: [number, number], [ring]: number[][][]) => {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [ax, ay] = ring[i]
+    const [bx, by] = ring[j]
+    if (ay > y !== by > y && x < ((bx - ax) * (y - ay)) / (by - ay) + ax) inside = !inside
+  }
+  return inside
+}
+
+const candidate = (id: string, point: [number, number], extent: number): LabelCandidate => ({
+  id,
+  name: id,
+  point,
+  extent,
+})
+
+const VIEWPORT = { width: 800, height: 400 }
+const IDENTITY = { k: 1, x: 0, y: 0 }
+
+describe('findPoleOfInaccessibility', () => {
+  it('moves away from the edges towards the widest part', () => {
+    const [x, y] = findPoleOfInaccessibility(L_SHAPE, 0.01)
+    expect(x).toBeGreaterThan(6)
+    expect(y).toBeGreaterThan(6)
+  })
+
+  it('stays inside concave shapes whose bounding-box centre is outside', () => {
+    expect(isInside([5, 5], U_SHAPE)).toBe(false)
+    const pole = findPoleOfInaccessibility(U_SHAPE, 0.01)
+    expect(isInside(pole, U_SHAPE)).toBe(true)
+    expect(pole[1]).toBeGreaterThan(7)
+  })
+
+  it('labels a multipolygon on its largest part', () => {
+    const feature: GeoFeature = {
+      type: 'Feature',
+      properties: { name: 'Twin' },
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: [
+          [
+            [
+              [50, 0],
+              [50, 1],
+              [51, 1],
+              [51, 0],
+              [50, 0],
+            ],
+          ],
+          U_SHAPE,
+        ],
+      },
+    }
+    const [lon, lat] = getLabelPoint(feature)
+    expect(isInside([lon, lat], U_SHAPE)).toBe(true)
+  })
+})
+
+describe('placeLabels', () => {
+  it('shows a country only once it is large enough on screen', () => {
+    const countries = [candidate('BIG', [100, 100], 80), candidate('SMALL', [300, 100], 10)]
+    expect(placeLabels(countries, IDENTITY, VIEWPORT).map((label) => label.id)).toEqual(['BIG'])
+    expect(placeLabels(countries, { k: 8, x: -2000, y: -500 }, VIEWPORT).map((label) => label.id)).toEqual(['SMALL'])
+  })
+
+  it('keeps the larger country when labels would overlap', () => {
+    const countries = [candidate('NEAR', [104, 102], 60), candidate('BIG', [100, 100], 90)]
+    expect(placeLabels(countries, IDENTITY, VIEWPORT)).toEqual([{ id: 'BIG', name: 'BIG', x: 100, y: 100 }])
+  })
+
+  it('converts map coordinates to screen pixels and drops labels off screen', () => {
+    const countries = [candidate('IN', [50, 50], 40), candidate('OUT', [500, 50], 40)]
+    expect(placeLabels(countries, { k: 2, x: 10, y: 20 }, VIEWPORT)).toEqual([{ id: 'IN', name: 'IN', x: 110, y: 120 }])
+  })
+})
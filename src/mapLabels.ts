@@ -0,0 +1,182 @@
+// 探検モードの国名ラベル。各国の最大の多角形で縁から最も遠い点（到達不能極）に置き、
+// ズームして画面上で十分な大きさになった国から順に、重ならないものだけを表示する
+import { geoDistance, type GeoProjection } from 'd3-geo'
+import type { Viewport } from './camera.ts'
+import type { GeoFeature } from './geo.ts'
+import { getFocusCenter, getLargestPolygon, type Rotation } from './projection.ts'
+
+// 地図の座標系でのラベルの候補
+export type LabelCandidate = {
+  id: string
+  name: string
+  point: [number, number]
+  // 地図の座標系での国の大きさ（縦横の長い方）
+  extent: number
+}
+
+// 画面上の位置（px）に置いたラベル
+export type PlacedLabel = {
+  id: string
+  name: string
+  x: number
+  y: number
+}
+
+type ViewTransform = { k: number; x: number; y: number }
+
+// 画面上でこれより小さい国にはラベルを出さない（px）
+export const LABEL_MIN_EXTENT_PX = 56
+// ラベルの大きさの見積もり。文字幅は全角・半角をならした値
+const LABEL_CHAR_PX = 8
+const LABEL_HEIGHT_PX = 14
+const LABEL_GAP_PX = 4
+
+type Cell = {
+  x: number
+  y: number
+  // セルの半分の大きさ
+  h: number
+  // セルの中心から多角形の縁までの距離（内側が正）
+  d: number
+  // このセルの中で取り得る距離の上限
+  max: number
+}
+
+const getSegmentDistanceSq = (px: number, py: number, a: number[], b: number[]) => {
+  let [x, y] = a
+  let dx = b[0] - x
+  let dy = b[1] - y
+  if (dx !== 0 || dy !== 0) {
+    const t = ((px - x) * dx + (py - y) * dy) / (dx * dx + dy * dy)
+    if (t > 1) {
+      x = b[0]
+      y = b[1]
+    } else if (t > 0) {
+      x += dx * t
+      y += dy * t
+    }
+  }
+  dx = px - x
+  dy = py - y
+  return dx * dx + dy * dy
+}
+
+// 点から多角形（外周と穴）の縁までの距離。内側なら正、外側なら負
+const getSignedDistance = (x: number, y: number, polygon: number[][][]) => {
+  let inside = false
+  let minDistSq = Infinity
+  for (const ring of polygon) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i]
+      const b = ring[j]
+      if (a[1] > y !== b[1] > y && x < ((b[0] - a[0]) * (y - a[1])) / (b[1] - a[1]) + a[0]) inside = !inside
+      minDistSq = Math.min(minDistSq, getSegmentDistanceSq(x, y, a, b))
+    }
+  }
+  return (inside ? 1 : -1) * Math.sqrt(minDistSq)
+}
+
+const createCell = (x: number, y: number, h: number, polygon: number[][][]): Cell => {
+  const d = getSignedDistance(x, y, polygon)
+  return { x, y, h, d, max: d + h * Math.SQRT2 }
+}
+
+// 多角形の内側で縁から最も遠い点を、格子を細かく分けながら探す（Mapbox の polylabel と同じ方法）。
+// precision は求める精度（座標の単位）
+export const findPoleOfInaccessibility = (polygon: number[][][], precision: number): [number, number] => {
+  const outer = polygon[0] ?? []
+  if (outer.length === 0) return [0, 0]
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const [x, y] of outer) {
+    minX = Math.min(minX, x)
+    minY = Math.min(minY, y)
+    maxX = Math.max(maxX, x)
+    maxY = Math.max(maxY, y)
+  }
+  const width = maxX - minX
+  const height = maxY - minY
+  const cellSize = Math.min(width, height)
+  if (cellSize === 0) return [minX, minY]
+
+  // 外接矩形の中心から始め、それより良いセルが見つかるたびに置き換える
+  let best = createCell(minX + width / 2, minY + height / 2, 0, polygon)
+  const queue: Cell[] = []
+  const h = cellSize / 2
+  for (let x = minX; x < maxX; x += cellSize) {
+    for (let y = minY; y < maxY; y += cellSize) queue.push(createCell(x + h, y + h, h, polygon))
+  }
+
+  while (queue.length > 0) {
+    // 上限が最も大きいセルから調べる
+    let index = 0
+    for (let i = 1; i < queue.length; i++) if (queue[i].max > queue[index].max) index = i
+    const cell = queue[index]
+    queue[index] = queue[queue.length - 1]
+    queue.pop()
+
+    if (cell.d > best.d) best = cell
+    // これ以上分けても精度の分しか良くならないセルは捨てる
+    if (cell.max - best.d <= precision) continue
+    const half = cell.h / 2
+    queue.push(
+      createCell(cell.x - half, cell.y - half, half, polygon),
+      createCell(cell.x + half, cell.y - half, half, polygon),
+      createCell(cell.x - half, cell.y + half, half, polygon),
+      createCell(cell.x + half, cell.y + half, half, polygon),
+    )
+  }
+  return [best.x, best.y]
+}
+
+// 経度・緯度のまま求める。外接矩形の短い辺の 1% まで詰めれば、ラベルの位置としては十分
+export const getLabelPoint = (feature: GeoFeature): Rotation => {
+  const largest = getLargestPolygon(feature)
+  if (!largest) return getFocusCenter(feature)
+  const lons = largest[0].map(([lon]) => lon)
+  const lats = largest[0].map(([, lat]) => lat)
+  const size = Math.min(Math.max(...lons) - Math.min(...lons), Math.max(...lats) - Math.min(...lats))
+  return findPoleOfInaccessibility(largest, Math.max(size / 100, 1e-4))
+}
+
+// 地図の座標系でのラベルの位置。地球儀の裏側（clipAngle の外）にあるときは null
+export const projectLabelPoint = (projection: GeoProjection, point: Rotation): [number, number] | null => {
+  const clipAngle = projection.clipAngle()
+  const [lambda, phi] = projection.rotate()
+  if (clipAngle && geoDistance(point, [-lambda, -phi]) > (clipAngle * Math.PI) / 180) return null
+  return projection(point)
+}
+
+const overlaps = (a: PlacedLabel & { width: number }, b: PlacedLabel & { width: number }) =>
+  Math.abs(a.x - b.x) * 2 < a.width + b.width + LABEL_GAP_PX * 2 &&
+  Math.abs(a.y - b.y) < LABEL_HEIGHT_PX + LABEL_GAP_PX
+
+// 画面上で大きい国から置き、画面の外に出るものや先に置いたラベルと重なるものは省く
+export const placeLabels = (
+  candidates: LabelCandidate[],
+  transform: ViewTransform,
+  viewport: Viewport,
+): PlacedLabel[] => {
+  const placed: Array<PlacedLabel & { width: number }> = []
+  const sorted = candidates
+    .filter((candidate) => candidate.extent * transform.k >= LABEL_MIN_EXTENT_PX)
+    .sort((a, b) => b.extent - a.extent)
+  for (const { id, name, point } of sorted) {
+    const label = {
+      id,
+      name,
+      x: point[0] * transform.k + transform.x,
+      y: point[1] * transform.k + transform.y,
+      width: name.length * LABEL_CHAR_PX,
+    }
+    const isOnScreen =
+      label.x - label.width / 2 >= 0 &&
+      label.x + label.width / 2 <= viewport.width &&
+      label.y - LABEL_HEIGHT_PX / 2 >= 0 &&
+      label.y + LABEL_HEIGHT_PX / 2 <= viewport.height
+    if (isOnScreen && !placed.some((other) => overlaps(label, other))) placed.push(label)
+  }
+  return placed.map(({ id, name, x, y }) => ({ id, name, x, y }))
+}
@@ -0,0 +1,92 @@
+import { DEFAULT_ZOOM_LIMITS } from './camera.ts'
+import type { RegionDatasetId } from './geoData.ts'
+import type { HintSubjectId } from './hints.ts'
+import type { LonLatBounds } from './projection.ts'
+import { JAPAN_PREFECTURES, US_STATES, type SubdivisionName } from './subdivisions.ts'
+
+export type MapPackId = 'world' | 'japan-prefectures' | 'us-states' | 'eu'
+
+// 出題する地図の組み合わせ。地図データ・区画の ID と名前・出題対象・最初の表示範囲・ヒントの指示をまとめる
+export type MapPack = {
+  id: MapPackId
+  // countries は世界の国境データ（年代の切り替えはこれだけ）。それ以外は regionDatasets.json の区画データ
+  dataset: 'countries' | RegionDatasetId
+  // 区画データの名前（regionDatasets.json の nameProperty）から ID・日英の名前への対応表
+  regions?: Record<string, SubdivisionName>
+  // 地図には周りの国も描き、出題はこの ID の国に限る。省略時はすべての国・区画が対象
+  memberIds?: string[]
+  // 最初（とリセット時）に画面へ収める範囲。省略時は世界全体
+  home?: LonLatBounds
+  maxZoom: number
+  // 国以外を出題するときの AI ヒントの呼び名と指示（hintPrompts.json の subjects）
+  hintSubject?: HintSubjectId
+}
+
+// EU 加盟国（2020 年の英国離脱後の 27 か国）
+const EU_MEMBERS = [
+  'AUT',
+  'BEL',
+  'BGR',
+  'HRV',
+  'CYP',
+  'CZE',
+  'DNK',
+  'EST',
+  'FIN',
+  'FRA',
+  'DEU',
+  'GRC',
+  'HUN',
+  'IRL',
+  'ITA',
+  'LVA',
+  'LTU',
+  'LUX',
+  'MLT',
+  'NLD',
+  'POL',
+  'PRT',
+  'ROU',
+  'SVK',
+  'SVN',
+  'ESP',
+  'SWE',
+]
+
+export const MAP_PACKS: Record<MapPackId, MapPack> = {
+  world: {
+    id: 'world',
+    dataset: 'countries',
+    maxZoom: DEFAULT_ZOOM_LIMITS.maxZoom,
+  },
+  'japan-prefectures': {
+    id: 'japan-prefectures',
+    dataset: 'japan-prefectures',
+    regions: JAPAN_PREFECTURES,
+    home: [[122, 24], [146, 46]],
+    // 香川県や大阪府のような小さな府県も押せるよう、世界地図より深く拡大できるようにする
+    maxZoom: 80,
+    hintSubject: 'japan-prefectures',
+  },
+  'us-states': {
+    id: 'us-states',
+    dataset: 'us-states',
+    regions: US_STATES,
+    // アラスカ・ハワイは入れず、本土 48 州が収まる範囲にする
+    home: [[-125, 24], [-66, 50]],
+    maxZoom: 40,
+    hintSubject: 'us-states',
+  },
+  eu: {
+    id: 'eu',
+    dataset: 'countries',
+    memberIds: EU_MEMBERS,
+    home: [[-11, 34], [35, 71]],
+    maxZoom: 40,
+    hintSubject: 'eu',
+  },
+}
+
+export const MAP_PACK_OPTIONS: MapPackId[] = ['world', 'japan-prefectures', 'us-states', 'eu']
+
+export const isPackMember = (pack: MapPack, id: string) => !pack.memberIds || pack.memberIds.includes(id)
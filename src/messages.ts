@@ -0,0 +1,447 @@
+import type { InclusionPolicy } from './countryRegistry.ts'
+import type { Locale } from './i18n.ts'
+import type { InsetId } from './insets.ts'
+import type { MapRenderer } from './mapGeometry.ts'
+import type { MapPackId } from './mapPacks.ts'
+import type { Difficulty } from './pool.ts'
+import type { Mastery } from './profile.ts'
+import type { CompassDirection } from './proximity.ts'
+import type { ProjectionId } from './projection.ts'
+import type { RoomJoinError } from './room.ts'
+import type { QuestionTypeSetting } from './questions.ts'
+import type { QuizMode } from './session.ts'
+
+// 画面に出す文字列。言語を足すときは ja と同じ形のオブジェクトを MESSAGES に加える
+const ja = {
+  tagline: 'AIで学ぶ歴史地理クイズ',
+  language: '言語',
+
+  // --- スタート画面 ---
+  mapPack: '地図パック',
+  mapPacks: {
+    world: '世界の国',
+    'japan-prefectures': '都道府県',
+    'us-states': 'アメリカの州',
+    eu: 'EU加盟国',
+  } satisfies Record<MapPackId, string>,
+  map: '地図',
+  eraModern: '現在',
+  bundledDataNotice: 'オフライン用に簡略化した地図を使用中',
+  dataRefreshed: '最新の地図データに更新しました',
+  dataRefreshFailed: '地図データを更新できませんでした。同梱データを使います',
+  refreshData: '最新データ',
+  mapLoadFailed: '地図データの取得に失敗しました',
+  historicalMapMissing: (year: number) => `${year}年の地図データが見つかりません`,
+  inclusionPolicy: '出題する国',
+  inclusionPolicies: {
+    'un-members': '国連加盟国',
+    states: '未承認国も',
+    all: '海外領土も',
+  } satisfies Record<InclusionPolicy, string>,
+  projection: '図法',
+  projections: {
+    equirectangular: '正距円筒',
+    mercator: 'メルカトル',
+    'equal-earth': '正積',
+    orthographic: '地球儀',
+  } satisfies Record<ProjectionId, string>,
+  renderer: '描画方式',
+  renderers: {
+    svg: 'SVG',
+    canvas: 'Canvas',
+  } satisfies Record<MapRenderer, string>,
+  insetMaps: '拡大図',
+  insetMapsOff: 'なし',
+  insetMapsOn: 'カリブ海',
+  insets: {
+    caribbean: 'カリブ海',
+    'lesser-antilles': '小アンティル諸島',
+  } satisfies Record<InsetId, string>,
+  mode: 'モード',
+  modes: {
+    click: '場所を探す',
+    type: '名前を答える',
+    silhouette: 'シルエット',
+  } satisfies Record<QuizMode, string>,
+  question: '出題',
+  questionTypes: {
+    hint: 'ヒント',
+    capital: '首都',
+    flag: '国旗',
+    neighbors: '隣国',
+    mix: 'ミックス',
+  } satisfies Record<QuestionTypeSetting, string>,
+  rounds: '問題数',
+  allRounds: '全部',
+  timeLimit: '制限時間',
+  noTimeLimit: 'なし',
+  seconds: (sec: number) => `${sec}秒`,
+  questionPool: '出題範囲',
+  historicalFilterUnavailable: '歴史地図では地域の絞り込みは使えません',
+  packFilterUnavailable: '地域の絞り込みは世界の国でだけ使えます',
+  difficulties: {
+    easy: '大きな国',
+    normal: '中くらいの国',
+    hard: '小国・島国',
+  } satisfies Record<Difficulty, string>,
+  startGame: 'ゲーム開始',
+  loadingMap: '地図を読み込み中...',
+  progress: '学習状況',
+
+  // --- プロフィール ---
+  profile: 'プロフィール',
+  exportProfile: 'プロフィールを書き出す',
+  importProfile: 'プロフィールを読み込む',
+  importFailed: 'プロフィールを読み込めませんでした',
+  games: 'プレイ',
+  best: '最高点',
+  accuracy: '正答率',
+  countries: '出題国',
+
+  // --- 学習状況 ---
+  mastery: {
+    unseen: '未出題',
+    weak: '苦手',
+    learning: '学習中',
+    mastered: '習得',
+  } satisfies Record<Mastery, string>,
+  countryStats: (correct: number, attempts: number, percent: number, average: string) =>
+    `${correct}/${attempts} 正解 (${percent}%) ・ 平均 ${average}`,
+  mostConfused: (name: string) => ` ・ よく間違える相手: ${name}`,
+  notAskedYet: 'まだ出題されていません',
+  tapCountryForStats: '国をタップすると成績を表示します',
+  practiceWeakest: (count: number) => `苦手な国を練習 (${count})`,
+
+  // --- 探検 ---
+  explore: '探検',
+  tapCountryToExplore: '国をタップすると詳しい情報を表示します。ズームすると国名が現れます',
+  capital: '首都',
+  area: '面積',
+  areaKm2: (area: string) => `約 ${area} km²`,
+  neighbors: '隣接する国',
+  noNeighbors: 'なし（島国など）',
+  aboutCountry: '解説',
+  noDescription: 'まだ解説がありません',
+  describeCountry: 'AI で解説を作る',
+  closeCard: '閉じる',
+
+  // --- クイズ ---
+  openMenu: 'メニューを開く',
+  score: 'スコア',
+  round: '問題',
+  timeRemaining: '残り時間',
+  resetMapView: '地図の表示を戻す',
+  worldMap: '世界地図',
+  chooseCountry: 'どの国？',
+  mapKeyboardHelp:
+    '矢印キーで隣の国へ移動し、Enter で回答します。+ と - で拡大・縮小、Shift と矢印キーで地図を動かし、0 で表示を戻します。',
+  hint: 'ヒント',
+  fetchingHint: 'ヒントを準備中...',
+  searching: 'ターゲットを探索中...',
+  correct: '正解',
+  wrong: '不正解',
+  correctMessage: '正解！',
+  timedOutMessage: (answer: string) => `時間切れ！正解の「${answer}」はここでした。`,
+  wrongMessage: (answer: string) => `違います。正解は「${answer}」でした。`,
+  wrongTypedMessage: (selected: string, answer: string) => `違います。「${selected}」ではなく「${answer}」でした。`,
+  wrongClickedMessage: (selected: string, answer: string) =>
+    `違います。そこは「${selected}」です。正解の「${answer}」はここでした。`,
+  distanceOff: (distance: string, direction: string) => `${direction}に ${distance} km ずれています`,
+  directions: {
+    north: '北',
+    northeast: '北東',
+    east: '東',
+    southeast: '南東',
+    south: '南',
+    southwest: '南西',
+    west: '西',
+    northwest: '北西',
+  } satisfies Record<CompassDirection, string>,
+  neighborBonus: '隣国ボーナス',
+  continentBonus: '同じ大陸',
+  nextChallenge: '次の問題',
+  seeResults: '結果を見る',
+  nameItPrompt: 'ハイライトされた国の名前は？',
+  silhouettePrompt: 'このシルエットの国はどこ？',
+  countryName: '国名',
+  countryNamePlaceholder: '国名を入力',
+  answer: '回答',
+  capitalQuestion: ['首都が', 'の国はどこ？'] as [string, string],
+  flag: '国旗',
+  flagQuestion: 'この国旗の国はどこ？',
+  neighborsQuestion: '次の国すべてと国境を接する国はどこ？',
+  availablePoints: (points: number) => `+${points} 点`,
+  moreHint: (penalty: number) => `次のヒント (-${penalty})`,
+
+  // --- ヒントの段 ---
+  continentStep: (continent: string, subregion: string) => `${continent}（${subregion}）の国です。`,
+  neighborsStep: (names: string[]) => `${names.join('、')}と国境を接しています。`,
+  capitalStep: (capital: string) => `首都は${capital}です。`,
+  highlightStep: (continent: string) => `${continent}を地図上で強調しました。`,
+
+  // --- 結果 ---
+  avgTime: '平均時間',
+  timedOut: '時間切れ',
+  hintsUsed: (count: number) => `ヒント+${count}`,
+  missed: '間違えた国',
+  listSeparator: '、',
+  menu: 'メニュー',
+  playAgain: 'もう一度',
+
+  // --- チャレンジ ---
+  daily: 'デイリーチャレンジ',
+  dailyDescription: (date: string) => `${date} の10問。今日は誰でも同じ問題です`,
+  startDaily: '今日の10問に挑戦',
+  streak: (count: number) => `${count}日連続`,
+  bestStreak: (count: number) => `最高 ${count}日`,
+  challengeUnavailable: '世界の国・現代の地図で遊べます',
+  createChallenge: '挑戦状のリンクを作る',
+  challenge: '挑戦状',
+  challengeSummary: (mode: string, region: string) => `${mode}・${region}・10問`,
+  wholeWorld: '全世界',
+  playChallenge: 'この挑戦状で遊ぶ',
+  shareResult: '結果を共有',
+  copy: 'コピー',
+  copied: 'コピーしました',
+
+  // --- マルチプレイ ---
+  multiplayer: 'マルチプレイ',
+  playerName: 'あなたの名前',
+  createRoom: 'ルームを作る',
+  roomCode: 'ルームコード',
+  joinRoom: '参加',
+  leaveRoom: '退出',
+  connectingRoom: '接続中...',
+  roomPlayers: (count: number, max: number) => `参加者 ${count}/${max}`,
+  roomHost: 'ホスト',
+  you: 'あなた',
+  startRoom: 'みんなで開始',
+  needMorePlayers: (min: number) => `${min}人以上で開始できます`,
+  waitingForHost: 'ホストの開始を待っています。出題範囲や制限時間はホストの設定に合わせます',
+  waitingForNext: 'ホストが次の問題に進むのを待っています',
+  roomErrors: {
+    'not-found': 'ルームが見つかりません',
+    full: 'ルームが満員です',
+    started: 'ゲームはすでに始まっています',
+    unavailable: 'マルチプレイに接続できませんでした',
+    closed: 'ホストがルームを閉じました',
+  } satisfies Record<RoomJoinError | 'unavailable' | 'closed', string>,
+  scoreboard: '順位',
+  firsts: (count: number) => `一番乗り ${count}`,
+  foundFirst: (name: string, time: string) => `${name} が一番乗り（${time}）`,
+  nobodyFound: 'まだ誰も正解していません',
+}
+
+export type Messages = typeof ja
+
+const en: Messages = {
+  tagline: 'AI Historical Geography Quiz',
+  language: 'LANGUAGE',
+
+  mapPack: 'MAP PACK',
+  mapPacks: {
+    world: 'COUNTRIES',
+    'japan-prefectures': 'JAPAN',
+    'us-states': 'US STATES',
+    eu: 'EU',
+  },
+  map: 'MAP',
+  eraModern: 'TODAY',
+  bundledDataNotice: 'Using the simplified offline map',
+  dataRefreshed: 'Map data updated to the latest version',
+  dataRefreshFailed: 'Could not update map data. Using the bundled map',
+  refreshData: 'REFRESH DATA',
+  mapLoadFailed: 'Failed to load map data',
+  historicalMapMissing: (year) => `Map data for ${year} was not found`,
+  inclusionPolicy: 'COUNTRIES',
+  inclusionPolicies: {
+    'un-members': 'UN MEMBERS',
+    states: '+ PARTLY RECOGNIZED',
+    all: '+ TERRITORIES',
+  },
+  projection: 'PROJECTION',
+  projections: {
+    equirectangular: 'PLATE',
+    mercator: 'MERCATOR',
+    'equal-earth': 'EQUAL EARTH',
+    orthographic: 'GLOBE',
+  },
+  renderer: 'RENDERER',
+  renderers: {
+    svg: 'SVG',
+    canvas: 'CANVAS',
+  },
+  insetMaps: 'INSETS',
+  insetMapsOff: 'OFF',
+  insetMapsOn: 'CARIBBEAN',
+  insets: {
+    caribbean: 'CARIBBEAN',
+    'lesser-antilles': 'LESSER ANTILLES',
+  },
+  mode: 'MODE',
+  modes: {
+    click: 'FIND',
+    type: 'NAME IT',
+    silhouette: 'SILHOUETTE',
+  },
+  question: 'QUESTION',
+  questionTypes: {
+    hint: 'HINT',
+    capital: 'CAPITAL',
+    flag: 'FLAG',
+    neighbors: 'BORDERS',
+    mix: 'MIX',
+  },
+  rounds: 'ROUNDS',
+  allRounds: 'ALL',
+  timeLimit: 'TIME LIMIT',
+  noTimeLimit: 'OFF',
+  seconds: (sec) => `${sec}s`,
+  questionPool: 'QUESTION POOL',
+  historicalFilterUnavailable: 'Region filters are not available on historical maps',
+  packFilterUnavailable: 'Region filters are only available for world countries',
+  difficulties: {
+    easy: 'Large countries',
+    normal: 'Mid-sized countries',
+    hard: 'Small & island states',
+  },
+  startGame: 'START GAME',
+  loadingMap: 'LOADING MAP...',
+  progress: 'PROGRESS',
+
+  profile: 'PROFILE',
+  exportProfile: 'Export profile',
+  importProfile: 'Import profile',
+  importFailed: 'Could not import the profile',
+  games: 'GAMES',
+  best: 'BEST',
+  accuracy: 'ACCURACY',
+  countries: 'COUNTRIES',
+
+  mastery: {
+    unseen: 'Unseen',
+    weak: 'Weak',
+    learning: 'Learning',
+    mastered: 'Mastered',
+  },
+  countryStats: (correct, attempts, percent, average) =>
+    `${correct}/${attempts} correct (${percent}%) · avg ${average}`,
+  mostConfused: (name) => ` · often confused with ${name}`,
+  notAskedYet: 'Not asked yet',
+  tapCountryForStats: 'Tap a country to see your stats',
+  practiceWeakest: (count) => `PRACTICE WEAKEST (${count})`,
+
+  explore: 'EXPLORE',
+  tapCountryToExplore: 'Tap a country to learn about it. Zoom in to see country names',
+  capital: 'CAPITAL',
+  area: 'AREA',
+  areaKm2: (area) => `approx. ${area} km²`,
+  neighbors: 'NEIGHBOURS',
+  noNeighbors: 'None (island nation or similar)',
+  aboutCountry: 'ABOUT',
+  noDescription: 'No description yet',
+  describeCountry: 'WRITE ONE WITH AI',
+  closeCard: 'Close',
+
+  openMenu: 'Open menu',
+  score: 'Score',
+  round: 'Round',
+  timeRemaining: 'Time remaining',
+  resetMapView: 'Reset map view',
+  worldMap: 'World map',
+  chooseCountry: 'Which country?',
+  mapKeyboardHelp:
+    'Use the arrow keys to move between countries and Enter to answer. Press + and - to zoom, Shift with the arrow keys to pan, and 0 to reset the view.',
+  hint: 'HINT',
+  fetchingHint: 'FETCHING CONTEXT...',
+  searching: 'Scanning for the target...',
+  correct: 'SUCCESS',
+  wrong: 'WRONG',
+  correctMessage: 'Correct!',
+  timedOutMessage: (answer) => `Time's up! ${answer} is here.`,
+  wrongMessage: (answer) => `Wrong. The answer was ${answer}.`,
+  wrongTypedMessage: (selected, answer) => `Wrong. It was ${answer}, not ${selected}.`,
+  wrongClickedMessage: (selected, answer) => `Wrong. That is ${selected}. ${answer} is here.`,
+  distanceOff: (distance, direction) => `${distance} km too far ${direction}`,
+  directions: {
+    north: 'north',
+    northeast: 'northeast',
+    east: 'east',
+    southeast: 'southeast',
+    south: 'south',
+    southwest: 'southwest',
+    west: 'west',
+    northwest: 'northwest',
+  },
+  neighborBonus: 'NEIGHBOUR BONUS',
+  continentBonus: 'SAME CONTINENT',
+  nextChallenge: 'NEXT CHALLENGE',
+  seeResults: 'SEE RESULTS',
+  nameItPrompt: 'Which country is highlighted?',
+  silhouettePrompt: 'Which country has this outline?',
+  countryName: 'Country name',
+  countryNamePlaceholder: 'Type a country name',
+  answer: 'ANSWER',
+  capitalQuestion: ['Which country has ', ' as its capital?'],
+  flag: 'Flag',
+  flagQuestion: 'Which country does this flag belong to?',
+  neighborsQuestion: 'Which country borders all of these?',
+  availablePoints: (points) => `+${points} pt`,
+  moreHint: (penalty) => `MORE HINT (-${penalty})`,
+
+  continentStep: (continent, subregion) => `It is in ${continent} (${subregion}).`,
+  neighborsStep: (names) => `It borders ${names.join(', ')}.`,
+  capitalStep: (capital) => `Its capital is ${capital}.`,
+  highlightStep: (continent) => `${continent} is now highlighted on the map.`,
+
+  avgTime: 'AVG TIME',
+  timedOut: 'Timed out',
+  hintsUsed: (count) => `+${count} HINT`,
+  missed: 'MISSED',
+  listSeparator: ', ',
+  menu: 'MENU',
+  playAgain: 'PLAY AGAIN',
+
+  daily: 'DAILY CHALLENGE',
+  dailyDescription: (date) => `10 countries for ${date}, the same for everyone today`,
+  startDaily: "PLAY TODAY'S 10",
+  streak: (count) => `${count}-DAY STREAK`,
+  bestStreak: (count) => `BEST ${count}`,
+  challengeUnavailable: 'Available with the world map in the modern era',
+  createChallenge: 'CREATE CHALLENGE LINK',
+  challenge: 'CHALLENGE',
+  challengeSummary: (mode, region) => `${mode} · ${region} · 10 countries`,
+  wholeWorld: 'Whole world',
+  playChallenge: 'PLAY THIS CHALLENGE',
+  shareResult: 'SHARE RESULT',
+  copy: 'COPY',
+  copied: 'COPIED',
+
+  multiplayer: 'MULTIPLAYER',
+  playerName: 'Your name',
+  createRoom: 'CREATE ROOM',
+  roomCode: 'Room code',
+  joinRoom: 'JOIN',
+  leaveRoom: 'LEAVE',
+  connectingRoom: 'Connecting...',
+  roomPlayers: (count, max) => `PLAYERS ${count}/${max}`,
+  roomHost: 'HOST',
+  you: 'YOU',
+  startRoom: 'START FOR EVERYONE',
+  needMorePlayers: (min) => `Needs at least ${min} players`,
+  waitingForHost: "Waiting for the host to start. The host's map pack and time limit apply",
+  waitingForNext: 'Waiting for the host to move on',
+  roomErrors: {
+    'not-found': 'Room not found',
+    full: 'The room is full',
+    started: 'The game has already started',
+    unavailable: 'Could not connect to multiplayer',
+    closed: 'The host closed the room',
+  },
+  scoreboard: 'SCOREBOARD',
+  firsts: (count) => `${count} firsts`,
+  foundFirst: (name, time) => `${name} found it first (${time})`,
+  nobodyFound: 'Nobody has found it yet',
+}
+
+export const MESSAGES: Record<Locale, Messages> = { ja, en }
@@ -0,0 +1,119 @@
+import { COUNTRY_ALIASES } from './aliases.ts'
+import { getCountryId, getEnglishName, getLocalizedName, type GeoFeature } from './geo.ts'
+
+export type NameEntry = {
+  id: string
+  names: string[]
+}
+
+export type NameMatch = {
+  id: string
+  distance: number
+}
+
+const SMALL_KANA: Record<string, string> = {
+  ァ: 'ア',
+  ィ: 'イ',
+  ゥ: 'ウ',
+  ェ: 'エ',
+  ォ: 'オ',
+  ッ: 'ツ',
+  ャ: 'ヤ',
+  ュ: 'ユ',
+  ョ: 'ヨ',
+  ヮ: 'ワ',
+  ヵ: 'カ',
+  ヶ: 'ケ',
+}
+
+// 正式名称の接尾辞。「中央アフリカ共和国」を「中央アフリカ」でも受け付けるため
+const JAPANESE_SUFFIXES = ['民主共和国', '共和国', '合衆国', '連邦', '王国', '大公国', '公国', '首長国']
+const ENGLISH_PREFIXES = ['republicof', 'kingdomof', 'stateof', 'the']
+
+// 表記ゆれの吸収: 全角半角・大小文字・ひらがな/カタカナ・小書き文字・長音・ヴ・記号と空白
+export const normalizeName = (value: string) => {
+  let text = value.normalize('NFKC').toLowerCase()
+  text = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC')
+  text = text.replace(/[ぁ-ゖ]/g, (char) => String.fromCharCode(char.charCodeAt(0) + 0x60))
+  text = text
+    .replace(/ヴァ/g, 'バ')
+    .replace(/ヴィ/g, 'ビ')
+    .replace(/ヴェ/g, 'ベ')
+    .replace(/ヴォ/g, 'ボ')
+    .replace(/ヴ/g, 'ブ')
+  text = text.replace(/[ァィゥェォッャュョヮヵヶ]/g, (char) => SMALL_KANA[char] ?? char)
+  text = text.replace(/saint/g, 'st').replace(/&/g, 'and')
+  return text.replace(/[\sー・･\-‐–—.,'’"()（）=＝]/g, '')
+}
+
+const getVariants = (name: string) => {
+  const normalized = normalizeName(name)
+  const variants = new Set([normalized])
+  for (const suffix of JAPANESE_SUFFIXES) {
+    if (normalized.length > suffix.length + 1 && normalized.endsWith(suffix)) {
+      variants.add(normalized.slice(0, -suffix.length))
+    }
+  }
+  for (const prefix of ENGLISH_PREFIXES) {
+    if (normalized.length > prefix.length + 2 && normalized.startsWith(prefix)) {
+      variants.add(normalized.slice(prefix.length))
+    }
+  }
+  return Array.from(variants).filter(Boolean)
+}
+
+// 表示言語に関係なく、日本語・英語どちらの国名でも答えられるようにする
+export const buildNameIndex = (features: GeoFeature[]): NameEntry[] =>
+  features.map((feature) => {
+    const id = getCountryId(feature.properties)
+    const sources = [
+      getLocalizedName(feature.properties, 'ja'),
+      getLocalizedName(feature.properties, 'en'),
+      getEnglishName(feature.properties),
+      feature.properties.name ?? '',
+      ...(COUNTRY_ALIASES[id] ?? []),
+    ]
+    return { id, names: Array.from(new Set(sources.flatMap(getVariants))) }
+  })
+
+// 制限付きダメラウ・レーベンシュタイン距離（隣接文字の入れ替えを1回と数える）
+export const editDistance = (a: string, b: string) => {
+  const rows = a.length + 1
+  const cols = b.length + 1
+  const dist: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  )
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      dist[i][j] = Math.min(dist[i - 1][j] + 1, dist[i][j - 1] + 1, dist[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        dist[i][j] = Math.min(dist[i][j], dist[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return dist[a.length][b.length]
+}
+
+// 許容する誤字数。かな・漢字は1文字あたりの情報量が多いので英字より厳しめ
+const getTolerance = (name: string) => {
+  if (/^[a-z0-9]+$/.test(name)) return name.length <= 3 ? 0 : name.length <= 7 ? 1 : 2
+  return name.length <= 2 ? 0 : name.length <= 6 ? 1 : 2
+}
+
+export const matchCountryName = (input: string, index: NameEntry[], preferId?: string): NameMatch | null => {
+  const query = normalizeName(input)
+  if (!query) return null
+  let best: NameMatch | null = null
+  for (const entry of index) {
+    for (const name of entry.names) {
+      const distance = editDistance(query, name)
+      if (distance > getTolerance(name)) continue
+      // 同点なら出題中の国を優先（「ドミニカ」のように複数の国に当たる入力への配慮）
+      if (!best || distance < best.distance || (distance === best.distance && entry.id === preferId)) {
+        best = { id: entry.id, distance }
+      }
+    }
+  }
+  return best
+}
@@ -0,0 +1,38 @@
+import { extractPoints, getCountryId, type GeoFeature } from './geo.ts'
+
+// 隣接判定のグリッド幅（度）。国境線を共有する国同士は同じ頂点を持つので、
+// 丸め誤差を吸収できる程度の細かさで十分。海峡を挟んだ国は隣接にならない
+const CELL_SIZE = 0.01
+const LAT_CELLS = Math.round(180 / CELL_SIZE) + 1
+
+const toCellKey = (lon: number, lat: number) =>
+  Math.round((lon + 180) / CELL_SIZE) * LAT_CELLS + Math.round((lat + 90) / CELL_SIZE)
+
+export type Adjacency = Map<string, Set<string>>
+
+// GeoJSON の形状だけから国境を接する国を求める
+export const buildAdjacency = (features: GeoFeature[]): Adjacency => {
+  const owners = new Map<number, Set<string>>()
+  const adjacency: Adjacency = new Map()
+  for (const feature of features) {
+    const id = getCountryId(feature.properties)
+    adjacency.set(id, new Set())
+    for (const [lon, lat] of extractPoints(feature.geometry)) {
+      const key = toCellKey(lon, lat)
+      const cell = owners.get(key)
+      if (cell) cell.add(id)
+      else owners.set(key, new Set([id]))
+    }
+  }
+  for (const ids of owners.values()) {
+    if (ids.size < 2) continue
+    for (const a of ids) {
+      for (const b of ids) {
+        if (a !== b) adjacency.get(a)?.add(b)
+      }
+    }
+  }
+  return adjacency
+}
+
+export const getNeighbors = (adjacency: Adjacency, countryId: string) => Array.from(adjacency.get(countryId) ?? [])
@@ -0,0 +1,29 @@
+import type { Mastery } from './profile.ts'
+
+// 色覚の違いがあっても見分けられるよう、赤と緑の組み合わせは使わず青とオレンジ系で塗り分ける（Okabe-Ito 配色）
+
+// 習熟度ヒートマップの塗り色
+export const MASTERY_COLORS: Record<Mastery, string> = {
+  unseen: '#f0f4f8',
+  weak: '#f5b86b',
+  learning: '#fbe49a',
+  mastered: '#8fc1e3',
+}
+
+// 回答後の地図の塗り。不正解は色だけに頼らず破線の縁取りでも区別する
+export const ANSWER_COLORS = {
+  correct: { fill: '#0072b2', stroke: '#003b5c' },
+  wrong: { fill: '#e69f00', stroke: '#7a4f00', dash: '4 2' },
+}
+
+// 結果カードの背景。白い文字とのコントラスト比が 4.5 以上になる濃さにする
+export const FEEDBACK_COLORS = {
+  correct: '#005b8f',
+  wrong: '#9a4a00',
+}
+
+// キーボードで選んでいる国の縁取り
+export const FOCUS_STROKE = '#0f172a'
+
+// 回答後に、選んだ国から正解の国へ引く線
+export const GUESS_LINE_STROKE = '#334155'
@@ -0,0 +1,52 @@
+import { getCountryId, getProjectedArea, type GeoFeature } from './geo.ts'
+import { getSubregion, type Continent } from './regions.ts'
+
+export type Difficulty = 'easy' | 'normal' | 'hard'
+
+// 空配列は「絞り込みなし」
+export type PoolFilter = {
+  continents: Continent[]
+  subregions: string[]
+  difficulties: Difficulty[]
+}
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard']
+
+export const DEFAULT_POOL_FILTER: PoolFilter = {
+  continents: [],
+  subregions: [],
+  difficulties: [],
+}
+
+// 投影面積の順位で三等分する。絶対値の閾値だと投影法に左右されるため順位で区切る
+export const getDifficultyTiers = (features: GeoFeature[]) => {
+  const ranked = features
+    .map((feature) => ({ id: getCountryId(feature.properties), area: getProjectedArea(feature) }))
+    .sort((a, b) => b.area - a.area)
+  const tiers = new Map<string, Difficulty>()
+  ranked.forEach(({ id }, index) => {
+    const ratio = index / ranked.length
+    tiers.set(id, ratio < 1 / 3 ? 'easy' : ratio < 2 / 3 ? 'normal' : 'hard')
+  })
+  return tiers
+}
+
+export const matchesFilter = (countryId: string, filter: PoolFilter, tiers: Map<string, Difficulty>) => {
+  const subregion = getSubregion(countryId)
+  if (filter.subregions.length > 0) {
+    if (!subregion || !filter.subregions.includes(subregion.id)) return false
+  } else if (filter.continents.length > 0) {
+    if (!subregion || !filter.continents.includes(subregion.continent)) return false
+  }
+  if (filter.difficulties.length > 0) {
+    const tier = tiers.get(countryId)
+    if (!tier || !filter.difficulties.includes(tier)) return false
+  }
+  return true
+}
+
+export const filterPool = (features: GeoFeature[], filter: PoolFilter, tiers: Map<string, Difficulty>) =>
+  features.filter((feature) => matchesFilter(getCountryId(feature.properties), filter, tiers))
+
+export const toggleValue = <T>(values: T[], value: T) =>
+  values.includes(value) ? values.filter((item) => item !== value) : [...values, value]
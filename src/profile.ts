@@ -0,0 +1,178 @@
+// プレイヤープロフィール: 国ごとの成績を localStorage に保存し、JSON で書き出し・読み込みできる。
+
+export type CountryStats = {
+  attempts: number
+  correct: number
+  totalTimeMs: number
+  // 誤答時にクリックされた国IDごとの回数
+  mistakes: Record<string, number>
+}
+
+export type Profile = {
+  version: 1
+  createdAt: number
+  updatedAt: number
+  gamesPlayed: number
+  bestScore: number
+  countries: Record<string, CountryStats>
+}
+
+export type AttemptInput = {
+  countryId: string
+  isCorrect: boolean
+  elapsedMs: number
+  selectedId: string | null
+}
+
+export type Mastery = 'unseen' | 'weak' | 'learning' | 'mastered'
+
+export type ProfileSummary = {
+  attempts: number
+  correct: number
+  accuracy: number
+  countriesSeen: number
+}
+
+const STORAGE_KEY = 'geomind.profile'
+const PROFILE_VERSION = 1
+
+export const createProfile = (now = Date.now()): Profile => ({
+  version: PROFILE_VERSION,
+  createdAt: now,
+  updatedAt: now,
+  gamesPlayed: 0,
+  bestScore: 0,
+  countries: {},
+})
+
+const createCountryStats = (): CountryStats => ({ attempts: 0, correct: 0, totalTimeMs: 0, mistakes: {} })
+
+export const recordAttempt = (profile: Profile, attempt: AttemptInput, now = Date.now()): Profile => {
+  const previous = profile.countries[attempt.countryId] ?? createCountryStats()
+  const mistakes = { ...previous.mistakes }
+  if (!attempt.isCorrect && attempt.selectedId && attempt.selectedId !== attempt.countryId) {
+    mistakes[attempt.selectedId] = (mistakes[attempt.selectedId] ?? 0) + 1
+  }
+  return {
+    ...profile,
+    updatedAt: now,
+    countries: {
+      ...profile.countries,
+      [attempt.countryId]: {
+        attempts: previous.attempts + 1,
+        correct: previous.correct + (attempt.isCorrect ? 1 : 0),
+        totalTimeMs: previous.totalTimeMs + attempt.elapsedMs,
+        mistakes,
+      },
+    },
+  }
+}
+
+export const recordGame = (profile: Profile, score: number, now = Date.now()): Profile => ({
+  ...profile,
+  updatedAt: now,
+  gamesPlayed: profile.gamesPlayed + 1,
+  bestScore: Math.max(profile.bestScore, score),
+})
+
+export const getAverageMs = (stats: CountryStats) => (stats.attempts === 0 ? 0 : stats.totalTimeMs / stats.attempts)
+
+export const getAccuracy = (stats: CountryStats) => (stats.attempts === 0 ? 0 : stats.correct / stats.attempts)
+
+export const getMostConfused = (stats: CountryStats) => {
+  let best: string | null = null
+  let bestCount = 0
+  for (const [id, count] of Object.entries(stats.mistakes)) {
+    if (count > bestCount) {
+      best = id
+      bestCount = count
+    }
+  }
+  return best
+}
+
+// 習熟度の目安: 3回以上挑戦して8割以上正解で習得、正答率5割未満は苦手
+export const getMastery = (stats: CountryStats | undefined): Mastery => {
+  if (!stats || stats.attempts === 0) return 'unseen'
+  const accuracy = getAccuracy(stats)
+  if (stats.attempts >= 3 && accuracy >= 0.8) return 'mastered'
+  if (accuracy < 0.5) return 'weak'
+  return 'learning'
+}
+
+export const summarizeProfile = (profile: Profile): ProfileSummary => {
+  const entries = Object.values(profile.countries)
+  const attempts = entries.reduce((sum, stats) => sum + stats.attempts, 0)
+  const correct = entries.reduce((sum, stats) => sum + stats.correct, 0)
+  return {
+    attempts,
+    correct,
+    accuracy: attempts === 0 ? 0 : correct / attempts,
+    countriesSeen: entries.length,
+  }
+}
+
+// 正答率が低い順、同率なら挑戦回数が多い順
+export const getWeakestCountries = (profile: Profile, limit: number) =>
+  Object.entries(profile.countries)
+    .filter(([, stats]) => stats.attempts > 0 && stats.correct < stats.attempts)
+    .sort(([, a], [, b]) => getAccuracy(a) - getAccuracy(b) || b.attempts - a.attempts)
+    .slice(0, limit)
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+const parseCountryStats = (value: unknown): CountryStats | null => {
+  if (typeof value !== 'object' || value === null) return null
+  const raw = value as Partial<CountryStats>
+  if (!isCount(raw.attempts) || !isCount(raw.correct) || !isCount(raw.totalTimeMs)) return null
+  const mistakes = Object.fromEntries(
+    Object.entries(raw.mistakes ?? {}).filter((entry): entry is [string, number] => isCount(entry[1])),
+  )
+  return { attempts: raw.attempts, correct: Math.min(raw.correct, raw.attempts), totalTimeMs: raw.totalTimeMs, mistakes }
+}
+
+export const parseProfile = (json: string): Profile => {
+  let raw: Partial<Profile>
+  try {
+    raw = JSON.parse(json) as Partial<Profile>
+  } catch {
+    throw new Error('プロフィールのJSONを読み取れませんでした')
+  }
+  if (typeof raw !== 'object' || raw === null || raw.version !== PROFILE_VERSION) {
+    throw new Error('対応していないプロフィール形式です')
+  }
+  const countries: Record<string, CountryStats> = {}
+  for (const [id, value] of Object.entries(raw.countries ?? {})) {
+    const stats = parseCountryStats(value)
+    if (stats) countries[id] = stats
+  }
+  const now = Date.now()
+  return {
+    version: PROFILE_VERSION,
+    createdAt: isCount(raw.createdAt) ? raw.createdAt : now,
+    updatedAt: isCount(raw.updatedAt) ? raw.updatedAt : now,
+    gamesPlayed: isCount(raw.gamesPlayed) ? raw.gamesPlayed : 0,
+    bestScore: isCount(raw.bestScore) ? raw.bestScore : 0,
+    countries,
+  }
+}
+
+export const exportProfile = (profile: Profile) => JSON.stringify(profile, null, 2)
+
+export const loadProfile = (): Profile => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? parseProfile(raw) : createProfile()
+  } catch (err) {
+    console.error('Profile load error:', err)
+    return createProfile()
+  }
+}
+
+export const saveProfile = (profile: Profile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile))
+  } catch (err) {
+    console.error('Profile save error:', err)
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { MAP_HEIGHT, MAP_WIDTH, type GeoFeature } from './geo.ts'
+import {
+  PROJECTION_OPTIONS,
+  createPathGenerator,
+  createProjection,
+  getFocusBounds,
+  getFocusCenter,
+  getProjectedLonLatBounds,
+  rewindGeometry,
+} from './projection.ts'
+
+const box = (west: number, south: number, east: number, north: number): number[][][] => [
+  [
+    [west, south],
+    [west, north],
+    [east, north],
+    [east, south],
+    [west, south],
+  ],
+]
+
+const feature = (coordinates: number[][][][]): GeoFeature => ({
+  type: 'Feature',
+  properties: { ISO_A3: 'TST' },
+  geometry:
+    coordinates.length === 1
+      ? { type: 'Polygon', coordinates: coordinates[0] }
+      : { type: 'MultiPolygon', coordinates },
+})
+
+describe('createProjection', () => {
+  it.each(PROJECTION_OPTIONS)('%s puts the map center in the middle of the map', (id) => {
+    const [x, y] = createProjection(id)([0, 0]) ?? [NaN, NaN]
+    expect(x).toBeCloseTo(MAP_WIDTH / 2)
+    expect(y).toBeCloseTo(MAP_HEIGHT / 2)
+  })
+
+  it('fits the equirectangular world into the map size', () => {
+    const projection = createProjection('equirectangular')
+    expect(projection([-180, 90])?.[0]).toBeCloseTo(0)
+    expect(projection([180, -90])?.[0]).toBeCloseTo(MAP_WIDTH)
+    expect(projection([180, -90])?.[1]).toBeCloseTo(MAP_HEIGHT)
+  })
+
+  it('rotates the globe so the rotation center faces the viewer', () => {
+    const [x, y] = createProjection('orthographic', [139.7, 35.7])([139.7, 35.7]) ?? [NaN, NaN]
+    expect(x).toBeCloseTo(MAP_WIDTH / 2)
+    expect(y).toBeCloseTo(MAP_HEIGHT / 2)
+  })
+
+  it('hides countries on the far side of the globe', () => {
+    const path = createPathGenerator(createProjection('orthographic', [0, 0]))
+    expect(path(feature([box(170, -5, 175, 5)]))).toBeNull()
+    expect(path(feature([box(-5, -5, 5, 5)]))).not.toBeNull()
+  })
+})
+
+describe('getFocusCenter', () => {
+  it('uses the largest polygon so remote islands do not pull the center away', () => {
+    const [lon, lat] = getFocusCenter(feature([box(0, 40, 20, 50), box(-60, -10, -59, -9)]))
+    expect(lon).toBeCloseTo(10, 0)
+    expect(lat).toBeCloseTo(45, 0)
+  })
+})
+
+describe('getFocusBounds', () => {
+  it('ignores parts split across the antimeridian', () => {
+    // 東端の大きな陸地と、日付変更線の反対側にある小さな断片
+    const projection = createProjection('equirectangular')
+    const bounds = getFocusBounds(feature([box(150, 60, 179, 70), box(-180, 64, -178, 66)]), projection)
+    expect(bounds).not.toBeNull()
+    expect(bounds!.minX).toBeGreaterThan(MAP_WIDTH / 2)
+  })
+})
+
+describe('rewindGeometry', () => {
+  it('flips counter-clockwise rings that d3 would read as the whole globe minus the country', () => {
+    const counterClockwise = [[...box(0, 0, 10, 10)[0]].reverse()]
+    const projection = createProjection('equirectangular')
+    const path = createPathGenerator(projection)
+    const raw = feature([counterClockwise])
+    const fixed = { ...raw, geometry: rewindGeometry(raw.geometry) }
+    expect(path.area(fixed)).toBeLessThan(path.area(raw))
+  })
+})
+
+describe('getProjectedLonLatBounds', () => {
+  it('projects a longitude/latitude box into map coordinates', () => {
+    const bounds = getProjectedLonLatBounds([[0, 0], [90, 45]], createProjection('equirectangular'))
+    expect(bounds?.minX).toBeCloseTo(MAP_WIDTH / 2)
+    expect(bounds?.maxX).toBeCloseTo((MAP_WIDTH * 3) / 4)
+    expect(bounds?.minY).toBeCloseTo(MAP_HEIGHT / 4)
+    expect(bounds?.maxY).toBeCloseTo(MAP_HEIGHT / 2)
+  })
+
+  it('includes the bulging edges of curved projections', () => {
+    const projection = createProjection('equal-earth')
+    const bounds = getProjectedLonLatBounds([[-60, -60], [60, 60]], projection)
+    const [equatorEastX] = projection([60, 0]) ?? [NaN]
+    expect(bounds?.maxX).toBeCloseTo(equatorEastX)
+  })
+})
@@ -0,0 +1,168 @@
+import {
+  geoArea,
+  geoCentroid,
+  geoEqualEarth,
+  geoEquirectangular,
+  geoMercator,
+  geoOrthographic,
+  geoPath,
+  type GeoProjection,
+} from 'd3-geo'
+import { MAP_HEIGHT, MAP_WIDTH, type GeoFeature, type Geometry } from './geo.ts'
+
+export type ProjectionId = 'equirectangular' | 'mercator' | 'equal-earth' | 'orthographic'
+
+// 地図の中心（経度, 緯度）。地球儀の回転に使う
+export type Rotation = [number, number]
+
+export type Bounds = { minX: number; maxX: number; minY: number; maxY: number }
+
+// 経緯度の範囲 [[西端の経度, 南端の緯度], [東端の経度, 北端の緯度]]
+export type LonLatBounds = [[number, number], [number, number]]
+
+export const PROJECTION_OPTIONS: ProjectionId[] = ['equirectangular', 'mercator', 'equal-earth', 'orthographic']
+
+const SPHERE = { type: 'Sphere' } as const
+
+// どの投影法も MAP_WIDTH×MAP_HEIGHT の座標系に収める。ズーム・パンの計算はこの座標系（viewBox）で行うため投影法に依存しない
+export const createProjection = (id: ProjectionId, rotation: Rotation = [0, 0]): GeoProjection => {
+  const center: [number, number] = [MAP_WIDTH / 2, MAP_HEIGHT / 2]
+  switch (id) {
+    case 'mercator':
+      // 横幅を正距円筒図法と揃える。高緯度は縦にはみ出すがパンで見られる
+      return geoMercator()
+        .scale(MAP_WIDTH / (2 * Math.PI))
+        .translate(center)
+        .rotate([-rotation[0], 0])
+    case 'equal-earth':
+      return geoEqualEarth()
+        .rotate([-rotation[0], 0])
+        .fitSize([MAP_WIDTH, MAP_HEIGHT], SPHERE)
+    case 'orthographic':
+      // 初期ズーム（1.5倍）で地球全体が見える大きさにする
+      return geoOrthographic()
+        .scale(MAP_HEIGHT / 3)
+        .translate(center)
+        .rotate([-rotation[0], -rotation[1]])
+        .clipAngle(90)
+    case 'equirectangular':
+    default:
+      return geoEquirectangular()
+        .scale(MAP_WIDTH / (2 * Math.PI))
+        .translate(center)
+        .rotate([-rotation[0], 0])
+  }
+}
+
+// 拡大図用の投影。経緯度の範囲を width×height（px）に収め、範囲の外は切り取る
+export const createInsetProjection = (
+  [[west, south], [east, north]]: LonLatBounds,
+  width: number,
+  height: number,
+) =>
+  geoMercator()
+    .fitExtent(
+      [
+        [0, 0],
+        [width, height],
+      ],
+      { type: 'MultiPoint', coordinates: [[west, south], [east, north]] },
+    )
+    .clipExtent([
+      [0, 0],
+      [width, height],
+    ])
+
+export const createPathGenerator = (projection: GeoProjection) => geoPath(projection)
+
+export const getSpherePath = (projection: GeoProjection) => geoPath(projection)(SPHERE) ?? ''
+
+export const getProjectedBounds = (feature: GeoFeature, projection: GeoProjection): Bounds | null => {
+  const [[minX, minY], [maxX, maxY]] = geoPath(projection).bounds(feature)
+  if (![minX, minY, maxX, maxY].every(Number.isFinite)) return null
+  return { minX, maxX, minY, maxY }
+}
+
+export const getLonLatBoundsCenter = ([[west, south], [east, north]]: LonLatBounds): Rotation => [
+  (west + east) / 2,
+  (south + north) / 2,
+]
+
+// 経緯度の範囲を投影した範囲（地図の座標系）。辺が曲がる投影法もあるので、四隅だけでなく辺の中点も含めて測る
+export const getProjectedLonLatBounds = (bounds: LonLatBounds, projection: GeoProjection): Bounds | null => {
+  const [[west, south], [east, north]] = bounds
+  const [centerLon, centerLat] = getLonLatBoundsCenter(bounds)
+  const coordinates = [west, centerLon, east].flatMap((lon) => [south, centerLat, north].map((lat) => [lon, lat]))
+  const [[minX, minY], [maxX, maxY]] = geoPath(projection).bounds({ type: 'MultiPoint', coordinates })
+  if (![minX, minY, maxX, maxY].every(Number.isFinite)) return null
+  return { minX, maxX, minY, maxY }
+}
+
+const toPolygons = (geometry: Geometry) =>
+  geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates
+
+export const getLargestPolygon = (feature: GeoFeature) => {
+  let largest: number[][][] | null = null
+  let largestArea = -1
+  for (const coordinates of toPolygons(feature.geometry)) {
+    const area = geoArea({ type: 'Polygon', coordinates })
+    if (area > largestArea) {
+      largest = coordinates
+      largestArea = area
+    }
+  }
+  return largest
+}
+
+// ズーム先の中心。飛び地や海外領土に引っ張られないよう、最大の多角形の重心を使う
+export const getFocusCenter = (feature: GeoFeature): Rotation => {
+  const largest = getLargestPolygon(feature)
+  const [lon, lat] = geoCentroid(largest ? { type: 'Polygon', coordinates: largest } : feature)
+  return [lon, lat]
+}
+
+// ズーム先の範囲。日付変更線で分割された部分（ロシアのチュクチ半島、フィジーなど）や遠く離れた領土を含めると
+// 地図の端から端までの範囲になってしまうため、最大の多角形とその近くにある多角形だけを対象にする
+export const getFocusBounds = (feature: GeoFeature, projection: GeoProjection): Bounds | null => {
+  const path = geoPath(projection)
+  const parts = toPolygons(feature.geometry)
+    .map((coordinates) => {
+      const polygon = { type: 'Polygon' as const, coordinates }
+      const [[minX, minY], [maxX, maxY]] = path.bounds(polygon)
+      return { bounds: { minX, maxX, minY, maxY }, area: path.area(polygon) }
+    })
+    .filter(({ bounds }) => Object.values(bounds).every(Number.isFinite))
+  if (parts.length === 0) return null
+  const main = parts.reduce((a, b) => (b.area > a.area ? b : a))
+  const marginX = (main.bounds.maxX - main.bounds.minX) / 2 + 5
+  const marginY = (main.bounds.maxY - main.bounds.minY) / 2 + 5
+  return parts
+    .filter(
+      ({ bounds }) =>
+        bounds.maxX >= main.bounds.minX - marginX &&
+        bounds.minX <= main.bounds.maxX + marginX &&
+        bounds.maxY >= main.bounds.minY - marginY &&
+        bounds.minY <= main.bounds.maxY + marginY,
+    )
+    .reduce(
+      (acc, { bounds }) => ({
+        minX: Math.min(acc.minX, bounds.minX),
+        maxX: Math.max(acc.maxX, bounds.maxX),
+        minY: Math.min(acc.minY, bounds.minY),
+        maxY: Math.max(acc.maxY, bounds.maxY),
+      }),
+      main.bounds,
+    )
+}
+
+// d3-geo は外周リングが時計回りであることを前提にする（RFC 7946 とは逆）。
+// 逆向きのリングは「地球全体からその国を除いた領域」と解釈されるので、面積が半球を超える多角形は向きを反転させる
+const rewindPolygon = (polygon: number[][][]) => {
+  const area = geoArea({ type: 'Polygon', coordinates: polygon })
+  return area > 2 * Math.PI ? polygon.map((ring) => [...ring].reverse()) : polygon
+}
+
+export const rewindGeometry = (geometry: Geometry): Geometry =>
+  geometry.type === 'Polygon'
+    ? { type: 'Polygon', coordinates: rewindPolygon(geometry.coordinates) }
+    : { type: 'MultiPolygon', coordinates: geometry.coordinates.map(rewindPolygon) }
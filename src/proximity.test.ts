@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { buildAdjacency } from './neighbors.ts'
+import { getAreaKm2, getBearing, getDistanceKm, measureProximity, toCompassDirection } from './proximity.ts'
+import {
+  CONTINENT_BONUS,
+  MAX_DISTANCE_POINTS,
+  NEIGHBOR_BONUS,
+  getCorrectPoints,
+  getProximityPoints,
+} from './session.ts'
+import { box } from './testFeatures.ts'
+
+describe('distance and direction', () => {
+  it('measures great-circle distances in kilometres', () => {
+    // 東京 - パリ はおよそ 9,700 km
+    expect(getDistanceKm([139.69, 35.69], [2.35, 48.86])).toBeGreaterThan(9600)
+    expect(getDistanceKm([139.69, 35.69], [2.35, 48.86])).toBeLessThan(9800)
+    // 赤道上の経度 1 度はおよそ 111 km
+    expect(getDistanceKm([0, 0], [1, 0])).toBeCloseTo(111.2, 0)
+  })
+
+  it('measures areas on the sphere', () => {
+    // 赤道上の経緯度 1 度四方はおよそ 12,364 km²
+    expect(getAreaKm2(box('EQ', 0, 0, 1, 1))).toBeCloseTo(12364, -1)
+  })
+
+  it('names the compass direction of the bearing', () => {
+    expect(toCompassDirection(getBearing([0, 0], [0, 10]))).toBe('north')
+    expect(toCompassDirection(getBearing([0, 0], [-10, 0]))).toBe('west')
+    expect(toCompassDirection(getBearing([0, 0], [10, -10]))).toBe('southeast')
+    expect(toCompassDirection(359)).toBe('north')
+  })
+})
+
+describe('measureProximity', () => {
+  // FRA と DEU は国境を接し、ESP は FRA の南西で離れている（FRA とは接しない）
+  const france = box('FRA', 0, 44, 6, 50)
+  const germany = box('DEU', 6, 44, 14, 50)
+  const spain = box('ESP', -8, 36, -2, 42)
+  const adjacency = buildAdjacency([france, germany, spain])
+
+  it('reports where the guess lies relative to the answer', () => {
+    const proximity = measureProximity(spain, france, adjacency)
+    expect(proximity.direction).toBe('southwest')
+    expect(proximity.distanceKm).toBeGreaterThan(700)
+    expect(proximity.isNeighbor).toBe(false)
+    expect(proximity.sameContinent).toBe(true)
+  })
+
+  it('recognizes neighbours', () => {
+    expect(measureProximity(germany, france, adjacency).isNeighbor).toBe(true)
+  })
+})
+
+describe('getProximityPoints', () => {
+  const near = { distanceKm: 0, direction: 'north' as const, isNeighbor: true, sameContinent: true }
+
+  it('gives fewer points the further away the guess is', () => {
+    const far = { ...near, isNeighbor: false, sameContinent: false }
+    expect(getProximityPoints({ ...far, distanceKm: 500 }, 0)).toBeGreaterThan(getProximityPoints({ ...far, distanceKm: 3000 }, 0))
+    expect(getProximityPoints({ ...far, distanceKm: 10000 }, 0)).toBe(0)
+  })
+
+  it('adds bonuses but never reaches the points for a correct answer', () => {
+    expect(getProximityPoints(near, 0)).toBe(MAX_DISTANCE_POINTS + NEIGHBOR_BONUS + CONTINENT_BONUS)
+    expect(getProximityPoints(near, 0)).toBeLessThan(getCorrectPoints(0))
+    expect(getProximityPoints(near, 10)).toBe(getCorrectPoints(10) - 1)
+  })
+})
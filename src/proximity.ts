@@ -0,0 +1,61 @@
+import { geoArea, geoDistance } from 'd3-geo'
+import { getCountryId, type GeoFeature } from './geo.ts'
+import { getNeighbors, type Adjacency } from './neighbors.ts'
+import { getFocusCenter, type Rotation } from './projection.ts'
+import { getContinent } from './regions.ts'
+
+export type CompassDirection =
+  | 'north'
+  | 'northeast'
+  | 'east'
+  | 'southeast'
+  | 'south'
+  | 'southwest'
+  | 'west'
+  | 'northwest'
+
+// 間違えた国が正解からどれだけ離れていたか。direction は正解から見た、選んだ国の方角
+export type Proximity = {
+  distanceKm: number
+  direction: CompassDirection
+  isNeighbor: boolean
+  sameContinent: boolean
+}
+
+const EARTH_RADIUS_KM = 6371
+
+const COMPASS: CompassDirection[] = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest']
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180
+
+export const getDistanceKm = (a: Rotation, b: Rotation) => geoDistance(a, b) * EARTH_RADIUS_KM
+
+// 球面上の面積（km²）。地球を球とみなし、地図データも簡略化しているのでおおよその値
+export const getAreaKm2 = (feature: GeoFeature) => geoArea(feature) * EARTH_RADIUS_KM ** 2
+
+// from から to へ向かう大圏航路の出発方位（北が 0°、時計回り）
+export const getBearing = ([lon1, lat1]: Rotation, [lon2, lat2]: Rotation) => {
+  const dLon = toRadians(lon2 - lon1)
+  const y = Math.sin(dLon) * Math.cos(toRadians(lat2))
+  const x =
+    Math.cos(toRadians(lat1)) * Math.sin(toRadians(lat2)) -
+    Math.sin(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.cos(dLon)
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360
+}
+
+export const toCompassDirection = (bearing: number) => COMPASS[Math.round(bearing / 45) % COMPASS.length]
+
+// 国の位置は飛び地や海外領土に引っ張られないよう、最大の多角形の重心で比べる
+export const measureProximity = (guess: GeoFeature, target: GeoFeature, adjacency: Adjacency): Proximity => {
+  const guessCenter = getFocusCenter(guess)
+  const targetCenter = getFocusCenter(target)
+  const guessId = getCountryId(guess.properties)
+  const targetId = getCountryId(target.properties)
+  const targetContinent = getContinent(targetId)
+  return {
+    distanceKm: getDistanceKm(targetCenter, guessCenter),
+    direction: toCompassDirection(getBearing(targetCenter, guessCenter)),
+    isNeighbor: getNeighbors(adjacency, targetId).includes(guessId),
+    sameContinent: targetContinent !== null && getContinent(guessId) === targetContinent,
+  }
+}
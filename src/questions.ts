@@ -0,0 +1,35 @@
+import { getCapital } from './capitals.ts'
+import { getAlpha2, getCountryId, type GeoFeature } from './geo.ts'
+import { getNeighbors, type Adjacency } from './neighbors.ts'
+
+// 地図で国を選ぶモードで出すお題の種類
+export type QuestionType = 'hint' | 'capital' | 'flag' | 'neighbors'
+
+export type QuestionTypeSetting = QuestionType | 'mix'
+
+export const QUESTION_TYPE_OPTIONS: QuestionTypeSetting[] = ['hint', 'capital', 'flag', 'neighbors', 'mix']
+
+// 地域指示記号（Regional Indicator Symbol）2文字で国旗の絵文字になる
+export const getFlagEmoji = (alpha2: string) =>
+  String.fromCodePoint(...alpha2.split('').map((char) => 0x1f1e6 + char.charCodeAt(0) - 65))
+
+export const getAvailableTypes = (feature: GeoFeature, adjacency: Adjacency): QuestionType[] => {
+  const id = getCountryId(feature.properties)
+  const types: QuestionType[] = ['hint']
+  if (getCapital(id)) types.push('capital')
+  if (getAlpha2(feature.properties)) types.push('flag')
+  if (getNeighbors(adjacency, id).length > 0) types.push('neighbors')
+  return types
+}
+
+// 指定した種類が出せない国（首都データが無い、島国で隣国が無いなど）はヒントにフォールバック
+export const pickQuestionType = (
+  setting: QuestionTypeSetting,
+  feature: GeoFeature,
+  adjacency: Adjacency,
+  random: () => number = Math.random,
+): QuestionType => {
+  const available = getAvailableTypes(feature, adjacency)
+  if (setting !== 'mix') return available.includes(setting) ? setting : 'hint'
+  return available[Math.floor(random() * available.length)]
+}
@@ -0,0 +1,23 @@
+// 種から決まる乱数。同じ種なら誰の端末でも同じ並びになる（マルチプレイのルームやデイリーチャレンジで全員に同じ問題を出すのに使う）
+
+// 文字列を 32 ビットの種にする（FNV-1a）
+export const hashSeed = (seed: string) => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Math.random と同じく [0, 1) の値を返す（mulberry32）
+export const createRandom = (seed: string): (() => number) => {
+  let state = hashSeed(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
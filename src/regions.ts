@@ -0,0 +1,180 @@
+import type { LocalizedText } from './i18n.ts'
+
+// 国連統計部の地域分類（M49）をもとにした大陸・小地域の対応表。
+// GeoJSON 側には地域情報が無いため、ISO 3166-1 alpha-3 で引く。
+
+export type Continent = 'africa' | 'asia' | 'europe' | 'north-america' | 'south-america' | 'oceania'
+
+export type Subregion = {
+  id: string
+  continent: Continent
+  label: LocalizedText
+  countries: string[]
+}
+
+export const CONTINENTS: Array<{ id: Continent; label: LocalizedText }> = [
+  { id: 'africa', label: { ja: 'アフリカ', en: 'Africa' } },
+  { id: 'asia', label: { ja: 'アジア', en: 'Asia' } },
+  { id: 'europe', label: { ja: 'ヨーロッパ', en: 'Europe' } },
+  { id: 'north-america', label: { ja: '北アメリカ', en: 'North America' } },
+  { id: 'south-america', label: { ja: '南アメリカ', en: 'South America' } },
+  { id: 'oceania', label: { ja: 'オセアニア', en: 'Oceania' } },
+]
+
+export const SUBREGIONS: Subregion[] = [
+  {
+    id: 'northern-africa',
+    continent: 'africa',
+    label: { ja: '北アフリカ', en: 'Northern Africa' },
+    countries: ['DZA', 'EGY', 'LBY', 'MAR', 'SDN', 'TUN', 'ESH'],
+  },
+  {
+    id: 'eastern-africa',
+    continent: 'africa',
+    label: { ja: '東アフリカ', en: 'Eastern Africa' },
+    countries: [
+      'BDI', 'COM', 'DJI', 'ERI', 'ETH', 'KEN', 'MDG', 'MWI', 'MUS', 'MOZ', 'RWA', 'SYC', 'SOM', 'SSD',
+      'TZA', 'UGA', 'ZMB', 'ZWE', 'MYT', 'REU', 'IOT',
+    ],
+  },
+  {
+    id: 'middle-africa',
+    continent: 'africa',
+    label: { ja: '中部アフリカ', en: 'Middle Africa' },
+    countries: ['AGO', 'CMR', 'CAF', 'TCD', 'COG', 'COD', 'GNQ', 'GAB', 'STP'],
+  },
+  {
+    id: 'southern-africa',
+    continent: 'africa',
+    label: { ja: '南部アフリカ', en: 'Southern Africa' },
+    countries: ['BWA', 'SWZ', 'LSO', 'NAM', 'ZAF'],
+  },
+  {
+    id: 'western-africa',
+    continent: 'africa',
+    label: { ja: '西アフリカ', en: 'Western Africa' },
+    countries: [
+      'BEN', 'BFA', 'CPV', 'CIV', 'GMB', 'GHA', 'GIN', 'GNB', 'LBR', 'MLI', 'MRT', 'NER', 'NGA', 'SEN',
+      'SLE', 'TGO', 'SHN',
+    ],
+  },
+  {
+    id: 'central-asia',
+    continent: 'asia',
+    label: { ja: '中央アジア', en: 'Central Asia' },
+    countries: ['KAZ', 'KGZ', 'TJK', 'TKM', 'UZB'],
+  },
+  {
+    id: 'eastern-asia',
+    continent: 'asia',
+    label: { ja: '東アジア', en: 'Eastern Asia' },
+    countries: ['CHN', 'HKG', 'MAC', 'PRK', 'JPN', 'MNG', 'KOR', 'TWN'],
+  },
+  {
+    id: 'south-eastern-asia',
+    continent: 'asia',
+    label: { ja: '東南アジア', en: 'South-eastern Asia' },
+    countries: ['BRN', 'KHM', 'IDN', 'LAO', 'MYS', 'MMR', 'PHL', 'SGP', 'THA', 'TLS', 'VNM'],
+  },
+  {
+    id: 'southern-asia',
+    continent: 'asia',
+    label: { ja: '南アジア', en: 'Southern Asia' },
+    countries: ['AFG', 'BGD', 'BTN', 'IND', 'IRN', 'MDV', 'NPL', 'PAK', 'LKA'],
+  },
+  {
+    id: 'western-asia',
+    continent: 'asia',
+    label: { ja: '西アジア', en: 'Western Asia' },
+    countries: [
+      'ARM', 'AZE', 'BHR', 'CYP', 'GEO', 'IRQ', 'ISR', 'JOR', 'KWT', 'LBN', 'OMN', 'QAT', 'SAU', 'PSE',
+      'SYR', 'TUR', 'ARE', 'YEM',
+    ],
+  },
+  {
+    id: 'eastern-europe',
+    continent: 'europe',
+    label: { ja: '東ヨーロッパ', en: 'Eastern Europe' },
+    countries: ['BLR', 'BGR', 'CZE', 'HUN', 'POL', 'MDA', 'ROU', 'RUS', 'SVK', 'UKR'],
+  },
+  {
+    id: 'northern-europe',
+    continent: 'europe',
+    label: { ja: '北ヨーロッパ', en: 'Northern Europe' },
+    countries: ['DNK', 'EST', 'FIN', 'ISL', 'IRL', 'LVA', 'LTU', 'NOR', 'SWE', 'GBR', 'FRO', 'ALA', 'IMN', 'GGY', 'JEY'],
+  },
+  {
+    id: 'southern-europe',
+    continent: 'europe',
+    label: { ja: '南ヨーロッパ', en: 'Southern Europe' },
+    countries: [
+      'ALB', 'AND', 'BIH', 'HRV', 'GRC', 'ITA', 'MLT', 'MNE', 'MKD', 'PRT', 'SMR', 'SRB', 'SVN', 'ESP',
+      'VAT', 'XKX', 'GIB',
+    ],
+  },
+  {
+    id: 'western-europe',
+    continent: 'europe',
+    label: { ja: '西ヨーロッパ', en: 'Western Europe' },
+    countries: ['AUT', 'BEL', 'FRA', 'DEU', 'LIE', 'LUX', 'MCO', 'NLD', 'CHE'],
+  },
+  {
+    id: 'northern-america',
+    continent: 'north-america',
+    label: { ja: '北米', en: 'Northern America' },
+    countries: ['CAN', 'USA', 'GRL', 'BMU', 'SPM'],
+  },
+  {
+    id: 'central-america',
+    continent: 'north-america',
+    label: { ja: '中央アメリカ', en: 'Central America' },
+    countries: ['BLZ', 'CRI', 'SLV', 'GTM', 'HND', 'MEX', 'NIC', 'PAN'],
+  },
+  {
+    id: 'caribbean',
+    continent: 'north-america',
+    label: { ja: 'カリブ海', en: 'Caribbean' },
+    countries: [
+      'ATG', 'BHS', 'BRB', 'CUB', 'DMA', 'DOM', 'GRD', 'HTI', 'JAM', 'KNA', 'LCA', 'VCT', 'TTO', 'PRI',
+      'AIA', 'ABW', 'CUW', 'SXM', 'CYM', 'VGB', 'VIR', 'TCA', 'MSR', 'BLM', 'MAF',
+    ],
+  },
+  {
+    id: 'south-america',
+    continent: 'south-america',
+    label: { ja: '南アメリカ', en: 'South America' },
+    countries: ['ARG', 'BOL', 'BRA', 'CHL', 'COL', 'ECU', 'GUY', 'PRY', 'PER', 'SUR', 'URY', 'VEN', 'FLK', 'GUF'],
+  },
+  {
+    id: 'australia-new-zealand',
+    continent: 'oceania',
+    label: { ja: 'オーストラリア・NZ', en: 'Australia & NZ' },
+    countries: ['AUS', 'NZL', 'NFK'],
+  },
+  {
+    id: 'melanesia',
+    continent: 'oceania',
+    label: { ja: 'メラネシア', en: 'Melanesia' },
+    countries: ['FJI', 'PNG', 'SLB', 'VUT', 'NCL'],
+  },
+  {
+    id: 'micronesia',
+    continent: 'oceania',
+    label: { ja: 'ミクロネシア', en: 'Micronesia' },
+    countries: ['KIR', 'MHL', 'FSM', 'NRU', 'PLW', 'GUM', 'MNP'],
+  },
+  {
+    id: 'polynesia',
+    continent: 'oceania',
+    label: { ja: 'ポリネシア', en: 'Polynesia' },
+    countries: ['WSM', 'TON', 'TUV', 'ASM', 'COK', 'NIU', 'PYF', 'WLF', 'PCN', 'TKL'],
+  },
+]
+
+const subregionByCountry = new Map(
+  SUBREGIONS.flatMap((subregion) => subregion.countries.map((country) => [country, subregion] as const)),
+)
+
+export const getSubregion = (countryId: string) => subregionByCountry.get(countryId) ?? null
+
+export const getContinent = (countryId: string) => getSubregion(countryId)?.continent ?? null
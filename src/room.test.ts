@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest'
+import { createRandom } from './random.ts'
+import {
+  MAX_ROOM_PLAYERS,
+  MAX_ROOM_ROUNDS,
+  buildScoreboard,
+  canStartRoom,
+  createRoom,
+  generateRoomCode,
+  getJoinError,
+  getRoundWinner,
+  isLastRoomRound,
+  isRoomCode,
+  normalizeRoomCode,
+  parseRoom,
+  pickRoomQuestions,
+  type Room,
+} from './room.ts'
+
+const withPlayers = (count: number): Room => {
+  const room = createRoom('ABCDE', 'p0', 'Host', 0)
+  for (let i = 1; i < count; i++) room.players[`p${i}`] = { name: `Player ${i}`, joinedAt: i }
+  return room
+}
+
+const playing = (): Room => ({
+  ...withPlayers(3),
+  status: 'playing',
+  settings: { packId: 'world', era: 'modern', questionType: 'hint', timeLimitSec: null },
+  questionIds: ['JPN', 'FRA', 'BRA'],
+  round: 1,
+  roundStarts: { 0: 1000, 1: 5000 },
+  answers: {
+    0: {
+      p0: { countryId: 'JPN', isCorrect: true, answeredAt: 3000 },
+      p1: { countryId: 'JPN', isCorrect: true, answeredAt: 2500 },
+      p2: { countryId: 'KOR', isCorrect: false, answeredAt: 1500 },
+    },
+    1: {
+      p2: { countryId: 'FRA', isCorrect: true, answeredAt: 6200 },
+    },
+  },
+})
+
+describe('room codes', () => {
+  it('generates codes from the unambiguous alphabet', () => {
+    const random = createRandom('codes')
+    for (let i = 0; i < 50; i++) {
+      const code = generateRoomCode(random)
+      expect(isRoomCode(code)).toBe(true)
+      expect(code).not.toMatch(/[01OIL]/)
+    }
+  })
+
+  it('normalizes typed codes', () => {
+    expect(normalizeRoomCode(' ab-c2d ')).toBe('ABC2D')
+    expect(isRoomCode('ABC2D')).toBe(true)
+    expect(isRoomCode('ABC0D')).toBe(false)
+    expect(isRoomCode('ABCD')).toBe(false)
+  })
+})
+
+describe('joining and starting', () => {
+  it('rejects missing, full and running rooms', () => {
+    expect(getJoinError(null, 'p9')).toBe('not-found')
+    expect(getJoinError(withPlayers(MAX_ROOM_PLAYERS), 'p9')).toBe('full')
+    expect(getJoinError(playing(), 'p9')).toBe('started')
+    expect(getJoinError(withPlayers(2), 'p9')).toBeNull()
+  })
+
+  it('lets a player who dropped out rejoin', () => {
+    expect(getJoinError(playing(), 'p1')).toBeNull()
+  })
+
+  it('needs at least two players and no game in progress', () => {
+    expect(canStartRoom(withPlayers(1))).toBe(false)
+    expect(canStartRoom(withPlayers(2))).toBe(true)
+    expect(canStartRoom(playing())).toBe(false)
+    expect(canStartRoom({ ...playing(), status: 'finished' })).toBe(true)
+  })
+
+  it('picks the same questions from the same seed, capped per room', () => {
+    const pool = Array.from({ length: 50 }, (_, i) => `C${i}`)
+    const first = pickRoomQuestions(pool, 10, createRandom('seed'))
+    expect(first).toEqual(pickRoomQuestions(pool, 10, createRandom('seed')))
+    expect(new Set(first).size).toBe(10)
+    expect(pickRoomQuestions(pool, 50, createRandom('seed'))).toHaveLength(MAX_ROOM_ROUNDS)
+  })
+
+  it('knows when the last question is shown', () => {
+    expect(isLastRoomRound(playing())).toBe(false)
+    expect(isLastRoomRound({ ...playing(), round: 2 })).toBe(true)
+  })
+})
+
+describe('scoreboard', () => {
+  it('finds the earliest correct answer of a round', () => {
+    expect(getRoundWinner(playing(), 0)).toEqual({ playerId: 'p1', elapsedMs: 1500 })
+    expect(getRoundWinner(playing(), 1)).toEqual({ playerId: 'p2', elapsedMs: 1200 })
+    expect(getRoundWinner(playing(), 2)).toBeNull()
+  })
+
+  it('ranks players by score, then by first finds', () => {
+    const rows = buildScoreboard(playing())
+    expect(rows.map((row) => row.playerId)).toEqual(['p1', 'p2', 'p0'])
+    expect(rows[0]).toMatchObject({ score: 15, correct: 1, firsts: 1, answered: false })
+    expect(rows[1]).toMatchObject({ score: 15, correct: 1, firsts: 1, answered: true })
+    expect(rows[2]).toMatchObject({ score: 10, correct: 1, firsts: 0 })
+  })
+})
+
+describe('parseRoom', () => {
+  it('returns null for a missing room', () => {
+    expect(parseRoom('ABCDE', null)).toBeNull()
+  })
+
+  it('restores values the database drops or turns into arrays', () => {
+    const room = parseRoom('ABCDE', {
+      hostId: 'p0',
+      status: 'playing',
+      settings: { packId: 'world', era: 'modern', questionType: 'hint' },
+      questionIds: ['JPN', 'FRA'],
+      round: 1,
+      roundStarts: [1000, 5000],
+      players: { p0: { name: 'Host', joinedAt: 0 } },
+      answers: [{ p0: { isCorrect: true, answeredAt: 2000 } }],
+    })
+    expect(room?.settings?.timeLimitSec).toBeNull()
+    expect(room?.roundStarts).toEqual({ 0: 1000, 1: 5000 })
+    expect(room?.answers[0]?.p0).toEqual({ countryId: null, isCorrect: true, answeredAt: 2000 })
+  })
+
+  it('fills in a freshly created lobby', () => {
+    expect(parseRoom('ABCDE', { hostId: 'p0', status: 'lobby', round: 0 })).toEqual({
+      code: 'ABCDE',
+      hostId: 'p0',
+      status: 'lobby',
+      settings: null,
+      questionIds: [],
+      round: 0,
+      roundStarts: {},
+      players: {},
+      answers: {},
+    })
+  })
+})
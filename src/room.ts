@@ -0,0 +1,237 @@
+// マルチプレイのルーム。Firebase Realtime Database の rooms/<コード> に置く状態と、そこから順位表を組み立てる計算
+import { shuffle } from './deck.ts'
+import type { MapEra } from './geoData.ts'
+import type { MapPackId } from './mapPacks.ts'
+import type { QuestionTypeSetting } from './questions.ts'
+
+// lobby: 参加者の募集中 / playing: 出題中 / finished: 全問終了
+export type RoomStatus = 'lobby' | 'playing' | 'finished'
+
+// 出題の設定。ホストが開始したときに書き込み、参加者も同じ設定で遊ぶ
+export type RoomSettings = {
+  packId: MapPackId
+  era: MapEra
+  questionType: QuestionTypeSetting
+  timeLimitSec: number | null
+}
+
+export type RoomPlayer = {
+  name: string
+  joinedAt: number
+}
+
+// answeredAt はサーバーの時刻。端末の時計のずれに左右されずに早い者を決める
+export type RoomAnswer = {
+  countryId: string | null
+  isCorrect: boolean
+  answeredAt: number
+}
+
+export type Room = {
+  code: string
+  hostId: string
+  status: RoomStatus
+  settings: RoomSettings | null
+  questionIds: string[]
+  round: number
+  // 問題の番号 → その問題を出した時刻（サーバーの時刻）
+  roundStarts: Record<number, number>
+  players: Record<string, RoomPlayer>
+  // 問題の番号 → プレイヤー ID → 回答
+  answers: Record<number, Record<string, RoomAnswer>>
+}
+
+// 各問題で最初に正解したプレイヤー
+export type RoundWinner = {
+  playerId: string
+  elapsedMs: number
+}
+
+export type ScoreboardRow = {
+  playerId: string
+  name: string
+  score: number
+  correct: number
+  // 最初に正解した問題の数
+  firsts: number
+  // 今の問題に回答済みか
+  answered: boolean
+}
+
+export type RoomJoinError = 'not-found' | 'full' | 'started'
+
+export const MIN_ROOM_PLAYERS = 2
+// database.rules.json でも、この人数を超える参加者の書き込みを拒む
+export const MAX_ROOM_PLAYERS = 8
+export const MAX_ROOM_ROUNDS = 20
+// database.rules.json の検証と揃える
+export const MAX_PLAYER_NAME_LENGTH = 20
+export const ROOM_POINTS_PER_CORRECT = 10
+export const ROOM_FIRST_BONUS = 5
+
+// 読み間違えやすい文字（0/O, 1/I/L）を除く
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+export const ROOM_CODE_LENGTH = 5
+
+export const generateRoomCode = (random: () => number = Math.random) =>
+  Array.from({ length: ROOM_CODE_LENGTH }, () =>
+    ROOM_CODE_ALPHABET.charAt(Math.floor(random() * ROOM_CODE_ALPHABET.length)),
+  ).join('')
+
+export const normalizeRoomCode = (input: string) => input.trim().toUpperCase().replace(/[^A-Z0-9]/g, '')
+
+export const isRoomCode = (code: string) =>
+  code.length === ROOM_CODE_LENGTH && [...code].every((char) => ROOM_CODE_ALPHABET.includes(char))
+
+export const createRoom = (code: string, hostId: string, hostName: string, now: number): Room => ({
+  code,
+  hostId,
+  status: 'lobby',
+  settings: null,
+  questionIds: [],
+  round: 0,
+  roundStarts: {},
+  players: { [hostId]: { name: hostName, joinedAt: now } },
+  answers: {},
+})
+
+// 全員に同じ順で出題する問題の列。ホストの出題範囲から選ぶ
+export const pickRoomQuestions = (poolIds: string[], rounds: number, random: () => number = Math.random) =>
+  shuffle(poolIds, random).slice(0, Math.min(rounds, MAX_ROOM_ROUNDS))
+
+export const getJoinError = (room: Room | null, playerId: string): RoomJoinError | null => {
+  if (!room) return 'not-found'
+  // 接続が切れて戻ってきた参加者は、開始後でも入り直せる
+  if (room.players[playerId]) return null
+  // 終わったルームには次のゲームに向けて入れる
+  if (room.status === 'playing') return 'started'
+  if (Object.keys(room.players).length >= MAX_ROOM_PLAYERS) return 'full'
+  return null
+}
+
+// 全問終わったら同じメンバーでもう一度始められる
+export const canStartRoom = (room: Room) =>
+  room.status !== 'playing' && Object.keys(room.players).length >= MIN_ROOM_PLAYERS
+
+export const getRoomQuestionId = (room: Room) =>
+  room.status === 'playing' ? (room.questionIds[room.round] ?? null) : null
+
+export const isLastRoomRound = (room: Room) => room.round >= room.questionIds.length - 1
+
+export const getRoundWinner = (room: Room, round: number): RoundWinner | null => {
+  const startedAt = room.roundStarts[round] ?? null
+  const winner = Object.entries(room.answers[round] ?? {})
+    .filter(([, answer]) => answer.isCorrect)
+    .sort(([, a], [, b]) => a.answeredAt - b.answeredAt)[0]
+  if (!winner) return null
+  const [playerId, answer] = winner
+  return { playerId, elapsedMs: startedAt === null ? 0 : Math.max(0, answer.answeredAt - startedAt) }
+}
+
+// 今いるプレイヤーの順位表。点数、最初に正解した数、参加した順に並べる
+export const buildScoreboard = (room: Room): ScoreboardRow[] => {
+  const rounds = Object.keys(room.answers).map(Number)
+  const firsts = new Map<string, number>()
+  for (const round of rounds) {
+    const winner = getRoundWinner(room, round)
+    if (winner) firsts.set(winner.playerId, (firsts.get(winner.playerId) ?? 0) + 1)
+  }
+  return Object.entries(room.players)
+    .map(([playerId, player]) => {
+      const correct = rounds.filter((round) => room.answers[round]?.[playerId]?.isCorrect).length
+      const firstCount = firsts.get(playerId) ?? 0
+      return {
+        playerId,
+        name: player.name,
+        score: correct * ROOM_POINTS_PER_CORRECT + firstCount * ROOM_FIRST_BONUS,
+        correct,
+        firsts: firstCount,
+        answered: Boolean(room.answers[room.round]?.[playerId]),
+      }
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.firsts - a.firsts ||
+        room.players[a.playerId].joinedAt - room.players[b.playerId].joinedAt,
+    )
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null
+
+const toNumber = (value: unknown, fallback: number) => (typeof value === 'number' ? value : fallback)
+
+// null の値（制限時間なし）は保存されずに消えるので、無い項目は既定値に戻す
+const parseSettings = (value: unknown): RoomSettings | null => {
+  if (!isObject(value) || typeof value.packId !== 'string') return null
+  return {
+    packId: value.packId as MapPackId,
+    era: typeof value.era === 'number' ? (value.era as MapEra) : 'modern',
+    questionType: typeof value.questionType === 'string' ? (value.questionType as QuestionTypeSetting) : 'hint',
+    timeLimitSec: typeof value.timeLimitSec === 'number' ? value.timeLimitSec : null,
+  }
+}
+
+// Realtime Database は空のオブジェクトを保存せず、数字のキーが並ぶオブジェクトは配列で返すので、読み込んだ値を Room の形に揃える
+export const parseRoom = (code: string, value: unknown): Room | null => {
+  if (!isObject(value) || typeof value.hostId !== 'string') return null
+  const status: RoomStatus = value.status === 'playing' || value.status === 'finished' ? value.status : 'lobby'
+  const players: Record<string, RoomPlayer> = {}
+  for (const [id, player] of Object.entries(isObject(value.players) ? value.players : {})) {
+    if (isObject(player) && typeof player.name === 'string') {
+      players[id] = { name: player.name, joinedAt: toNumber(player.joinedAt, 0) }
+    }
+  }
+  const answers: Record<number, Record<string, RoomAnswer>> = {}
+  for (const [round, byPlayer] of Object.entries(isObject(value.answers) ? value.answers : {})) {
+    if (!isObject(byPlayer)) continue
+    answers[Number(round)] = Object.fromEntries(
+      Object.entries(byPlayer)
+        .filter((entry): entry is [string, Record<string, unknown>] => isObject(entry[1]))
+        .map(([id, answer]) => [
+          id,
+          {
+            countryId: typeof answer.countryId === 'string' ? answer.countryId : null,
+            isCorrect: answer.isCorrect === true,
+            answeredAt: toNumber(answer.answeredAt, 0),
+          },
+        ]),
+    )
+  }
+  return {
+    code,
+    hostId: value.hostId,
+    status,
+    settings: parseSettings(value.settings),
+    questionIds: Array.isArray(value.questionIds)
+      ? value.questionIds.filter((id): id is string => typeof id === 'string')
+      : [],
+    round: toNumber(value.round, 0),
+    roundStarts: Object.fromEntries(
+      Object.entries(isObject(value.roundStarts) ? value.roundStarts : {})
+        .filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+        .map(([round, startedAt]) => [Number(round), startedAt]),
+    ),
+    players,
+    answers,
+  }
+}
+
+const PLAYER_NAME_KEY = 'geomind.playerName'
+
+export const loadPlayerName = () => {
+  try {
+    return localStorage.getItem(PLAYER_NAME_KEY) ?? ''
+  } catch (err) {
+    console.error('Player name load error:', err)
+    return ''
+  }
+}
+
+export const savePlayerName = (name: string) => {
+  try {
+    localStorage.setItem(PLAYER_NAME_KEY, name)
+  } catch (err) {
+    console.error('Player name save error:', err)
+  }
+}
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { connectRoomClient } from './roomService.ts'
+import type { Room } from './room.ts'
+
+// Realtime Database の代わりに、接続が切れたときに走る処理と書き込みを記録する
+const db = vi.hoisted(() => ({
+  data: {} as Record<string, unknown>,
+  queued: new Set<string>(),
+  removed: [] as string[],
+}))
+
+vi.mock('firebase/app', () => ({
+  getApps: () => [],
+  getApp: () => ({}),
+  initializeApp: () => ({}),
+}))
+
+vi.mock('firebase/auth', () => ({
+  getAuth: () => ({}),
+  connectAuthEmulator: () => {},
+  signInAnonymously: async () => ({ user: { uid: 'host' } }),
+  signInWithCustomToken: async () => ({ user: { uid: 'host' } }),
+}))
+
+vi.mock('firebase/database', () => {
+  type Ref = { path: string }
+  const remove = async ({ path }: Ref) => {
+    db.removed.push(path)
+    for (const key of Object.keys(db.data)) if (key === path || key.startsWith(`${path}/`)) delete db.data[key]
+  }
+  return {
+    getDatabase: () => ({}),
+    connectDatabaseEmulator: () => {},
+    ref: (_db: unknown, path: string): Ref => ({ path }),
+    get: async ({ path }: Ref) => ({ val: () => db.data[path] ?? null }),
+    set: async ({ path }: Ref, value: unknown) => {
+      db.data[path] = value
+    },
+    update: async () => {},
+    remove,
+    runTransaction: async ({ path }: Ref, apply: (current: unknown) => unknown) => {
+      const next = apply(db.data[path] ?? null)
+      if (next !== undefined) db.data[path] = next
+      return { committed: next !== undefined }
+    },
+    onValue: () => () => {},
+    serverTimestamp: () => 0,
+    // cancel はその場所と子の場所に登録した処理をまとめて取り消す
+    onDisconnect: ({ path }: Ref) => ({
+      remove: async () => {
+        db.queued.add(path)
+      },
+      cancel: async () => {
+        for (const queued of db.queued) if (queued === path || queued.startsWith(`${path}/`)) db.queued.delete(queued)
+      },
+    }),
+  }
+})
+
+// 接続が切れたときにサーバーが登録済みの処理を実行する
+const disconnect = async () => {
+  const { getDatabase, ref, remove } = await import('firebase/database')
+  for (const path of db.queued) await remove(ref(getDatabase(), path))
+  db.queued.clear()
+}
+
+const hostedRoom = (code: string): Room => ({
+  code,
+  hostId: 'host',
+  status: 'playing',
+  settings: null,
+  questionIds: [],
+  round: 0,
+  roundStarts: {},
+  players: {},
+  answers: {},
+})
+
+describe('room presence', () => {
+  beforeEach(() => {
+    db.data = {}
+    db.queued.clear()
+    db.removed = []
+  })
+
+  it('closes the room when the host loses the connection', async () => {
+    const client = await connectRoomClient({ options: {}, emulatorHost: null, authToken: null })
+    const code = await client.createRoom('Host')
+    expect([...db.queued].sort()).toEqual([`rooms/${code}`, `rooms/${code}/players/host`])
+    await disconnect()
+    expect(db.removed).toContain(`rooms/${code}`)
+    expect(db.data[`rooms/${code}`]).toBeUndefined()
+  })
+
+  it('only removes the player when a guest loses the connection', async () => {
+    const client = await connectRoomClient({ options: {}, emulatorHost: null, authToken: null })
+    db.data['rooms/ABCDE'] = { hostId: 'someone-else', status: 'lobby', players: { 'someone-else': { name: 'A' } } }
+    expect(await client.joinRoom('ABCDE', 'Guest')).toBeNull()
+    expect([...db.queued]).toEqual(['rooms/ABCDE/players/host'])
+  })
+
+  it('cancels the disconnect handlers when the host leaves on purpose', async () => {
+    const client = await connectRoomClient({ options: {}, emulatorHost: null, authToken: null })
+    const code = await client.createRoom('Host')
+    await client.leaveRoom(hostedRoom(code))
+    expect(db.queued.size).toBe(0)
+    expect(db.removed).toEqual([`rooms/${code}`])
+  })
+})
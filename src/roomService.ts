@@ -0,0 +1,138 @@
+import { getApp, getApps, initializeApp } from 'firebase/app'
+import { connectAuthEmulator, getAuth, signInAnonymously, signInWithCustomToken } from 'firebase/auth'
+import {
+  connectDatabaseEmulator,
+  get,
+  getDatabase,
+  onDisconnect,
+  onValue,
+  ref,
+  remove,
+  runTransaction,
+  serverTimestamp,
+  set,
+  update,
+  type Database,
+} from 'firebase/database'
+import { AUTH_EMULATOR_PORT, DATABASE_EMULATOR_PORT, type FirebaseSettings } from './firebaseConfig.ts'
+import {
+  createRoom,
+  generateRoomCode,
+  getJoinError,
+  isLastRoomRound,
+  parseRoom,
+  type Room,
+  type RoomJoinError,
+  type RoomSettings,
+} from './room.ts'
+
+// ルームの読み書き。firebase の SDK は大きいので、マルチプレイを使うときだけ App から動的に読み込む
+export type RoomClient = {
+  playerId: string
+  createRoom: (name: string) => Promise<string>
+  // 入れなかったときは理由を返す
+  joinRoom: (code: string, name: string) => Promise<RoomJoinError | null>
+  // ルームが消えたら null を渡す
+  subscribe: (code: string, onChange: (room: Room | null) => void) => () => void
+  startRoom: (code: string, settings: RoomSettings, questionIds: string[]) => Promise<void>
+  submitAnswer: (code: string, round: number, answer: { countryId: string | null; isCorrect: boolean }) => Promise<void>
+  // 次の問題へ進める。最後の問題なら終了にする（ホストだけ）
+  advanceRoom: (room: Room) => Promise<void>
+  // ホストが抜けたらルームごと消す
+  leaveRoom: (room: Room) => Promise<void>
+}
+
+// 生成したコードが使用中だったときに作り直す回数
+const MAX_CODE_ATTEMPTS = 5
+
+const createRoomClient = (db: Database, playerId: string): RoomClient => {
+  const roomRef = (code: string, ...path: Array<string | number>) => ref(db, ['rooms', code, ...path].join('/'))
+
+  // 接続が切れたら参加者から外す（タブを閉じた人を待ち続けないように）。
+  // ホストが切れると誰も問題を進められないので、ルームごと消す（参加者には「ホストが閉じた」と出る）
+  const watchPresence = async (code: string, isHost: boolean) => {
+    await onDisconnect(roomRef(code, 'players', playerId)).remove()
+    if (isHost) await onDisconnect(roomRef(code)).remove()
+  }
+
+  return {
+    playerId,
+    createRoom: async (name) => {
+      for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+        const code = generateRoomCode()
+        const { hostId, status, round, players } = createRoom(code, playerId, name, Date.now())
+        const result = await runTransaction(roomRef(code), (current) =>
+          current === null ? { hostId, status, round, players } : undefined,
+        )
+        if (!result.committed) continue
+        await watchPresence(code, true)
+        return code
+      }
+      throw new Error('ルームを作成できませんでした')
+    },
+    joinRoom: async (code, name) => {
+      const room = parseRoom(code, (await get(roomRef(code))).val())
+      const error = getJoinError(room, playerId)
+      if (error) return error
+      await set(roomRef(code, 'players', playerId), { name, joinedAt: serverTimestamp() })
+      await watchPresence(code, room?.hostId === playerId)
+      return null
+    },
+    subscribe: (code, onChange) =>
+      onValue(
+        roomRef(code),
+        (snapshot) => onChange(parseRoom(code, snapshot.val())),
+        (err) => console.error('Room subscription error:', err),
+      ),
+    startRoom: (code, settings, questionIds) =>
+      update(roomRef(code), {
+        status: 'playing',
+        settings,
+        questionIds,
+        round: 0,
+        roundStarts: { 0: serverTimestamp() },
+        answers: null,
+      }),
+    submitAnswer: (code, round, { countryId, isCorrect }) =>
+      set(roomRef(code, 'answers', round, playerId), { countryId, isCorrect, answeredAt: serverTimestamp() }),
+    advanceRoom: (room) =>
+      isLastRoomRound(room)
+        ? update(roomRef(room.code), { status: 'finished' })
+        : update(roomRef(room.code), {
+            round: room.round + 1,
+            [`roundStarts/${room.round + 1}`]: serverTimestamp(),
+          }),
+    leaveRoom: async (room) => {
+      const isHost = room.hostId === playerId
+      await onDisconnect(roomRef(room.code, 'players', playerId)).cancel()
+      if (isHost) await onDisconnect(roomRef(room.code)).cancel()
+      await remove(isHost ? roomRef(room.code) : roomRef(room.code, 'players', playerId))
+    },
+  }
+}
+
+let clientPromise: Promise<RoomClient> | null = null
+
+const connect = async ({ options, emulatorHost, authToken }: FirebaseSettings) => {
+  // サインインに失敗してやり直すときは、初期化済みのアプリとエミュレーターの接続を使い回す
+  const isFirstConnect = getApps().length === 0
+  const app = isFirstConnect ? initializeApp(options) : getApp()
+  const auth = getAuth(app)
+  const db = getDatabase(app)
+  if (emulatorHost && isFirstConnect) {
+    connectAuthEmulator(auth, `http://${emulatorHost}:${AUTH_EMULATOR_PORT}`, { disableWarnings: true })
+    connectDatabaseEmulator(db, emulatorHost, DATABASE_EMULATOR_PORT)
+  }
+  // 名前だけで遊べるよう匿名でサインインする
+  const { user } = authToken ? await signInWithCustomToken(auth, authToken) : await signInAnonymously(auth)
+  return createRoomClient(db, user.uid)
+}
+
+// Firebase アプリは1回だけ初期化する。失敗したら次の呼び出しでやり直す
+export const connectRoomClient = (settings: FirebaseSettings) => {
+  clientPromise ??= connect(settings).catch((err: unknown) => {
+    clientPromise = null
+    throw err
+  })
+  return clientPromise
+}
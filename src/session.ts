@@ -0,0 +1,158 @@
+import type { Proximity } from './proximity.ts'
+import type { QuestionTypeSetting } from './questions.ts'
+
+export type RoundCount = 10 | 20 | 'all'
+
+// click: ヒントを読んで地図上の国を選ぶ / type: ハイライトされた国の名前を答える /
+// silhouette: 国の輪郭だけを見て 4 つの国名から選ぶ
+export type QuizMode = 'click' | 'type' | 'silhouette'
+
+export type SessionConfig = {
+  mode: QuizMode
+  // click モードで出すお題の種類
+  questionType: QuestionTypeSetting
+  rounds: RoundCount
+  // null = 制限時間なし
+  timeLimitSec: number | null
+}
+
+export type Feedback = {
+  isCorrect: boolean
+  message: string
+  points: number
+  // 別の国を選んで間違えたときの、正解との距離と方角
+  proximity: Proximity | null
+}
+
+export type AnswerRecord = {
+  countryId: string
+  countryName: string
+  selectedId: string | null
+  selectedName: string | null
+  isCorrect: boolean
+  timedOut: boolean
+  elapsedMs: number
+  // 最初のヒント以外に開いたヒントの数
+  hintsUsed: number
+  points: number
+  // 別の国を選んで間違えたときの正解との距離。正解・時間切れなどは null
+  distanceKm: number | null
+}
+
+export type Session = {
+  config: SessionConfig
+  totalRounds: number
+  answers: AnswerRecord[]
+  score: number
+  feedback: Feedback | null
+  // ヒント表示後に計測開始。未開始の間は null
+  questionStartedAt: number | null
+}
+
+export type SessionSummary = {
+  total: number
+  correct: number
+  accuracy: number
+  averageMs: number
+  missed: AnswerRecord[]
+}
+
+export const MODE_OPTIONS: QuizMode[] = ['click', 'type', 'silhouette']
+export const ROUND_OPTIONS: RoundCount[] = [10, 20, 'all']
+export const TIME_LIMIT_OPTIONS: Array<number | null> = [null, 10, 20, 30]
+export const POINTS_PER_CORRECT = 10
+export const HINT_PENALTY = 2
+export const MIN_CORRECT_POINTS = 2
+// 不正解でも近い国を選べば部分点。距離が 0 km で最大、DISTANCE_ZERO_KM 以上離れると 0 点
+export const MAX_DISTANCE_POINTS = 5
+export const DISTANCE_ZERO_KM = 4000
+export const NEIGHBOR_BONUS = 2
+export const CONTINENT_BONUS = 1
+
+export const DEFAULT_SESSION_CONFIG: SessionConfig = {
+  mode: 'click',
+  questionType: 'hint',
+  rounds: 10,
+  timeLimitSec: null,
+}
+
+// 最初のヒントは無料。追加のヒントを開くたびに減点するが、正解すれば最低点は保証する
+export const getCorrectPoints = (hintsUsed: number) =>
+  Math.max(MIN_CORRECT_POINTS, POINTS_PER_CORRECT - HINT_PENALTY * hintsUsed)
+
+// 不正解の部分点。同じヒントの数で正解したときの点は超えないようにする
+export const getProximityPoints = (proximity: Proximity, hintsUsed: number) => {
+  const distancePoints = Math.round(MAX_DISTANCE_POINTS * Math.max(0, 1 - proximity.distanceKm / DISTANCE_ZERO_KM))
+  const bonus = (proximity.isNeighbor ? NEIGHBOR_BONUS : 0) + (proximity.sameContinent ? CONTINENT_BONUS : 0)
+  return Math.max(0, Math.min(distancePoints + bonus, getCorrectPoints(hintsUsed) - 1))
+}
+
+export const resolveTotalRounds = (rounds: RoundCount, poolSize: number) =>
+  rounds === 'all' ? poolSize : Math.min(rounds, poolSize)
+
+export const createSession = (config: SessionConfig, poolSize: number): Session => ({
+  config,
+  totalRounds: resolveTotalRounds(config.rounds, poolSize),
+  answers: [],
+  score: 0,
+  feedback: null,
+  questionStartedAt: null,
+})
+
+export const startQuestionTimer = (session: Session, now: number): Session =>
+  session.questionStartedAt === null ? { ...session, questionStartedAt: now } : session
+
+export const advanceQuestion = (session: Session): Session => ({
+  ...session,
+  feedback: null,
+  questionStartedAt: null,
+})
+
+export const getElapsedMs = (session: Session, now: number) =>
+  session.questionStartedAt === null ? 0 : Math.max(0, now - session.questionStartedAt)
+
+export const getRemainingMs = (session: Session, now: number) => {
+  if (session.config.timeLimitSec === null) return null
+  return Math.max(0, session.config.timeLimitSec * 1000 - getElapsedMs(session, now))
+}
+
+export const recordAnswer = (
+  session: Session,
+  answer: Omit<AnswerRecord, 'points' | 'distanceKm'>,
+  message: string,
+  proximity: Proximity | null = null,
+): Session => {
+  // 同じ問題への二重回答（タイムアウトとクリックの競合など）は無視
+  if (session.feedback) return session
+  const points = answer.isCorrect
+    ? getCorrectPoints(answer.hintsUsed)
+    : proximity
+      ? getProximityPoints(proximity, answer.hintsUsed)
+      : 0
+  return {
+    ...session,
+    answers: [
+      ...session.answers,
+      { ...answer, points, distanceKm: answer.isCorrect ? null : (proximity?.distanceKm ?? null) },
+    ],
+    score: session.score + points,
+    feedback: { isCorrect: answer.isCorrect, message, points, proximity: answer.isCorrect ? null : proximity },
+  }
+}
+
+export const isSessionComplete = (session: Session) => session.answers.length >= session.totalRounds
+
+export const summarizeSession = (session: Session): SessionSummary => {
+  const total = session.answers.length
+  const correct = session.answers.filter((answer) => answer.isCorrect).length
+  const totalMs = session.answers.reduce((sum, answer) => sum + answer.elapsedMs, 0)
+  return {
+    total,
+    correct,
+    accuracy: total === 0 ? 0 : correct / total,
+    averageMs: total === 0 ? 0 : totalMs / total,
+    missed: session.answers.filter((answer) => !answer.isCorrect),
+  }
+}
+
+export const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`
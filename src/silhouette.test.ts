@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { buildAdjacency } from './neighbors.ts'
+import { createRandom } from './random.ts'
+import {
+  SILHOUETTE_CHOICES,
+  fitSilhouette,
+  getShapeDistance,
+  getShapeSignature,
+  pickSilhouetteChoices,
+} from './silhouette.ts'
+import { box } from './testFeatures.ts'
+
+// 日本・韓国・モンゴルは東アジア、ペルー・ブラジル・チリは南アメリカ
+const JAPAN = box('JPN', 130, 30, 140, 40)
+const KOREA = box('KOR', 140, 30, 145, 40)
+const CHILE = box('CHL', -75, -50, -70, 0)
+const NORWAY = box('NOR', 5, 60, 10, 70)
+const MONGOLIA = box('MNG', 90, 40, 110, 50)
+const BRAZIL = box('BRA', -60, -30, -40, -5)
+const PERU = box('PER', -100, -20, -90, -10)
+const FEATURES = [JAPAN, KOREA, CHILE, NORWAY, MONGOLIA, BRAZIL, PERU]
+
+describe('shape signature', () => {
+  it('tells long thin countries from compact ones', () => {
+    const chile = getShapeSignature(CHILE)
+    expect(chile.aspect).toBeLessThan(0)
+    expect(getShapeSignature(MONGOLIA).aspect).toBeGreaterThan(0)
+    expect(getShapeDistance(chile, getShapeSignature(NORWAY))).toBeLessThan(
+      getShapeDistance(chile, getShapeSignature(JAPAN)),
+    )
+  })
+})
+
+describe('pickSilhouetteChoices', () => {
+  const adjacency = buildAdjacency(FEATURES)
+
+  it('mixes the answer with distinct wrong choices', () => {
+    const choices = pickSilhouetteChoices(JAPAN, FEATURES, adjacency, createRandom('mix'))
+    expect(choices).toHaveLength(SILHOUETTE_CHOICES)
+    expect(new Set(choices).size).toBe(SILHOUETTE_CHOICES)
+    expect(choices).toContain('JPN')
+  })
+
+  it('prefers neighbours and countries from the same region', () => {
+    // JPN と KOR は国境を接し、MNG は同じ東アジア
+    const japan = pickSilhouetteChoices(JAPAN, FEATURES, adjacency, createRandom('plausible'))
+    expect(japan).toContain('KOR')
+    expect(japan).toContain('MNG')
+    // 隣国のない PER でも、同じ南アメリカの国を必ず混ぜる
+    const peru = pickSilhouetteChoices(PERU, FEATURES, adjacency, createRandom('plausible'))
+    expect(peru.some((id) => id === 'BRA' || id === 'CHL')).toBe(true)
+  })
+
+  it('gives everyone the same choices for the same seed', () => {
+    expect(pickSilhouetteChoices(CHILE, FEATURES, adjacency, createRandom('seed'))).toEqual(
+      pickSilhouetteChoices(CHILE, [...FEATURES].reverse(), adjacency, createRandom('seed')),
+    )
+  })
+
+  it('returns fewer choices when the pool is small', () => {
+    expect(pickSilhouetteChoices(JAPAN, [JAPAN, KOREA], adjacency).sort()).toEqual(['JPN', 'KOR'])
+  })
+})
+
+describe('fitSilhouette', () => {
+  it('centres the outline horizontally and scales its longer side to the box', () => {
+    const { k, x, y } = fitSilhouette({ minX: 100, maxX: 140, minY: 50, maxY: 60 }, { width: 800, height: 600 })
+    expect(k).toBeCloseTo((600 * 0.55) / 40)
+    expect(120 * k + x).toBeCloseTo(400)
+    expect(55 * k + y).toBeLessThan(300)
+  })
+})
@@ -0,0 +1,124 @@
+// シルエットモード: 国の輪郭だけを見せ、4 つの国名から選ばせる。
+// 外れの選択肢は隣国・形の似た国・同じ地域の国から選び、見た目だけでは絞り込めないようにする
+import type { Viewport } from './camera.ts'
+import { shuffle } from './deck.ts'
+import { getCountryId, type GeoFeature } from './geo.ts'
+import { getNeighbors, type Adjacency } from './neighbors.ts'
+import { getLargestPolygon, type Bounds } from './projection.ts'
+import { getContinent, getSubregion } from './regions.ts'
+
+export const SILHOUETTE_CHOICES = 4
+// 形の似た国として選択肢の候補にする数
+const SIMILAR_SHAPE_COUNT = 5
+// シルエットを収める枠の大きさ（表示領域の短い辺に対する割合）と、枠の中心の高さ（下の回答欄を避ける）
+const SILHOUETTE_BOX_RATIO = 0.55
+const SILHOUETTE_CENTER_Y = 0.38
+
+// 最大の多角形の形の特徴。aspect は横長なら正・縦長なら負（対数）、compactness は円で 1、細長いほど 0 に近い
+export type ShapeSignature = {
+  aspect: number
+  compactness: number
+  // 多角形（島など）の数の対数
+  parts: number
+}
+
+type ViewTransform = { k: number; x: number; y: number }
+
+export const getShapeSignature = (feature: GeoFeature): ShapeSignature => {
+  const polygon = getLargestPolygon(feature)
+  const parts = Math.log(feature.geometry.type === 'MultiPolygon' ? feature.geometry.coordinates.length : 1)
+  const ring = polygon?.[0] ?? []
+  if (ring.length < 3) return { aspect: 0, compactness: 0, parts }
+  // 経度方向は緯度に応じて縮めてから測る
+  const lats = ring.map(([, lat]) => lat)
+  const scaleX = Math.cos((((Math.min(...lats) + Math.max(...lats)) / 2) * Math.PI) / 180)
+  const points = ring.map(([lon, lat]) => [lon * scaleX, lat])
+  let area = 0
+  let perimeter = 0
+  let minX = Infinity
+  let maxX = -Infinity
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [x1, y1] = points[j]
+    const [x2, y2] = points[i]
+    area += x1 * y2 - x2 * y1
+    perimeter += Math.hypot(x2 - x1, y2 - y1)
+    minX = Math.min(minX, x2)
+    maxX = Math.max(maxX, x2)
+  }
+  const width = maxX - minX
+  const height = Math.max(...lats) - Math.min(...lats)
+  return {
+    aspect: width > 0 && height > 0 ? Math.log(width / height) : 0,
+    compactness: perimeter > 0 ? (4 * Math.PI * Math.abs(area / 2)) / perimeter ** 2 : 0,
+    parts,
+  }
+}
+
+export const getShapeDistance = (a: ShapeSignature, b: ShapeSignature) =>
+  Math.hypot(a.aspect - b.aspect, (a.compactness - b.compactness) * 2, (a.parts - b.parts) / 2)
+
+// 正解の国と外れ 3 つを混ぜた選択肢の ID。外れは隣国・形の似た国・同じ地域の国から順に 1 つずつ取り、
+// 足りなければ残りの候補から補う
+export const pickSilhouetteChoices = (
+  target: GeoFeature,
+  candidates: GeoFeature[],
+  adjacency: Adjacency,
+  random: () => number = Math.random,
+): string[] => {
+  const targetId = getCountryId(target.properties)
+  const others = new Map(
+    candidates.flatMap((feature) => {
+      const id = getCountryId(feature.properties)
+      return id === targetId ? [] : [[id, feature] as const]
+    }),
+  )
+  const ids = [...others.keys()].sort()
+
+  const targetShape = getShapeSignature(target)
+  const similar = ids
+    .map((id) => ({ id, distance: getShapeDistance(targetShape, getShapeSignature(others.get(id)!)) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, SIMILAR_SHAPE_COUNT)
+    .map(({ id }) => id)
+  const subregion = getSubregion(targetId)?.id
+  const continent = getContinent(targetId)
+  const sameRegion = subregion ? ids.filter((id) => getSubregion(id)?.id === subregion) : []
+  const sameContinent = continent ? ids.filter((id) => getContinent(id) === continent) : []
+  const buckets = [
+    getNeighbors(adjacency, targetId).filter((id) => others.has(id)).sort(),
+    similar,
+    sameRegion.length > 0 ? sameRegion : sameContinent,
+  ].map((bucket) => shuffle(bucket, random))
+
+  const wrong: string[] = []
+  const take = (bucket: string[]) => {
+    const id = bucket.find((candidate) => !wrong.includes(candidate))
+    if (id) wrong.push(id)
+    return Boolean(id)
+  }
+  let progressed = true
+  while (wrong.length < SILHOUETTE_CHOICES - 1 && progressed) {
+    progressed = false
+    for (const bucket of buckets) {
+      if (wrong.length < SILHOUETTE_CHOICES - 1 && take(bucket)) progressed = true
+    }
+  }
+  for (const id of shuffle(ids, random)) {
+    if (wrong.length >= SILHOUETTE_CHOICES - 1) break
+    if (!wrong.includes(id)) wrong.push(id)
+  }
+  return shuffle([targetId, ...wrong], random)
+}
+
+// 地図の座標系でのシルエットの範囲を、表示領域の中央付近の枠に収める変換（地図の座標 → 画面上の px）
+export const fitSilhouette = (bounds: Bounds, viewport: Viewport): ViewTransform => {
+  const box = Math.min(viewport.width, viewport.height) * SILHOUETTE_BOX_RATIO
+  const width = bounds.maxX - bounds.minX
+  const height = bounds.maxY - bounds.minY
+  const k = box / Math.max(width, height, 1e-6)
+  return {
+    k,
+    x: viewport.width / 2 - ((bounds.minX + bounds.maxX) / 2) * k,
+    y: viewport.height * SILHOUETTE_CENTER_Y - ((bounds.minY + bounds.maxY) / 2) * k,
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { buildRTree, pointInRings, searchRTree } from './spatialIndex.ts'
+
+const square = (x: number, y: number, size: number) => [x, y, x + size, y, x + size, y + size, x, y + size]
+
+describe('R-tree', () => {
+  // 10×10 の格子に 100 個の小さな範囲を並べ、何段かの節に分かれるようにする
+  const entries = Array.from({ length: 100 }, (_, i) => {
+    const x = (i % 10) * 10
+    const y = Math.floor(i / 10) * 10
+    return { bounds: { minX: x, minY: y, maxX: x + 5, maxY: y + 5 }, value: i }
+  })
+  const tree = buildRTree(entries, 4)
+
+  it('finds the entries under a point', () => {
+    expect(searchRTree(tree, { minX: 32, minY: 71, maxX: 32, maxY: 71 })).toEqual([73])
+    expect(searchRTree(tree, { minX: 7, minY: 7, maxX: 7, maxY: 7 })).toEqual([])
+  })
+
+  it('finds every entry that overlaps a range', () => {
+    const found = searchRTree(tree, { minX: 0, minY: 0, maxX: 15, maxY: 15 }).sort((a, b) => a - b)
+    expect(found).toEqual([0, 1, 10, 11])
+  })
+
+  it('matches a linear scan', () => {
+    const range = { minX: 23, minY: 41, maxX: 68, maxY: 77 }
+    const expected = entries
+      .filter(({ bounds }) => bounds.minX <= range.maxX && bounds.maxX >= range.minX && bounds.minY <= range.maxY && bounds.maxY >= range.minY)
+      .map(({ value }) => value)
+    expect(searchRTree(tree, range).sort((a, b) => a - b)).toEqual(expected)
+  })
+
+  it('handles an empty index', () => {
+    expect(searchRTree(buildRTree([]), { minX: 0, minY: 0, maxX: 1, maxY: 1 })).toEqual([])
+  })
+})
+
+describe('pointInRings', () => {
+  it('tests points against a polygon', () => {
+    expect(pointInRings([5, 5], [square(0, 0, 10)])).toBe(true)
+    expect(pointInRings([15, 5], [square(0, 0, 10)])).toBe(false)
+  })
+
+  it('treats inner rings as holes', () => {
+    const rings = [square(0, 0, 10), square(3, 3, 4)]
+    expect(pointInRings([5, 5], rings)).toBe(false)
+    expect(pointInRings([1, 1], rings)).toBe(true)
+  })
+})
@@ -0,0 +1,96 @@
+import type { Bounds } from './projection.ts'
+
+// 範囲（地図の座標系）と、それに対応する値（国の番号など）
+export type IndexEntry<T> = {
+  bounds: Bounds
+  value: T
+}
+
+// 葉は entries、それ以外は children を持つ
+type RTreeNode<T> = {
+  bounds: Bounds
+  children: RTreeNode<T>[]
+  entries: IndexEntry<T>[]
+}
+
+export type RTree<T> = RTreeNode<T> | null
+
+// 1つの節に入れる子の数
+const NODE_SIZE = 9
+
+const centerX = ({ minX, maxX }: Bounds) => (minX + maxX) / 2
+const centerY = ({ minY, maxY }: Bounds) => (minY + maxY) / 2
+
+const unionBounds = (list: Bounds[]): Bounds =>
+  list.reduce((acc, bounds) => ({
+    minX: Math.min(acc.minX, bounds.minX),
+    minY: Math.min(acc.minY, bounds.minY),
+    maxX: Math.max(acc.maxX, bounds.maxX),
+    maxY: Math.max(acc.maxY, bounds.maxY),
+  }))
+
+export const intersects = (a: Bounds, b: Bounds) =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY
+
+// Sort-Tile-Recursive: x で縦の帯に分け、帯の中を y で並べて nodeSize 個ずつ束ねる
+const groupByTiles = <I>(items: I[], getBounds: (item: I) => Bounds, nodeSize: number) => {
+  const sliceCount = Math.ceil(Math.sqrt(Math.ceil(items.length / nodeSize)))
+  const sliceSize = sliceCount * nodeSize
+  const byX = [...items].sort((a, b) => centerX(getBounds(a)) - centerX(getBounds(b)))
+  const groups: I[][] = []
+  for (let i = 0; i < byX.length; i += sliceSize) {
+    const slice = byX.slice(i, i + sliceSize).sort((a, b) => centerY(getBounds(a)) - centerY(getBounds(b)))
+    for (let j = 0; j < slice.length; j += nodeSize) groups.push(slice.slice(j, j + nodeSize))
+  }
+  return groups
+}
+
+// 地図のデータは読み込んだあと変わらないので、挿入・削除は持たず一度にまとめて組み立てる
+export const buildRTree = <T>(entries: IndexEntry<T>[], nodeSize = NODE_SIZE): RTree<T> => {
+  if (entries.length === 0) return null
+  let level: RTreeNode<T>[] = groupByTiles(entries, (entry) => entry.bounds, nodeSize).map((group) => ({
+    bounds: unionBounds(group.map((entry) => entry.bounds)),
+    children: [],
+    entries: group,
+  }))
+  while (level.length > 1) {
+    level = groupByTiles(level, (node) => node.bounds, nodeSize).map((group) => ({
+      bounds: unionBounds(group.map((node) => node.bounds)),
+      children: group,
+      entries: [],
+    }))
+  }
+  return level[0]
+}
+
+// 範囲が重なる値を返す。点で探すときは minX = maxX, minY = maxY にする
+export const searchRTree = <T>(tree: RTree<T>, bounds: Bounds): T[] => {
+  const result: T[] = []
+  const stack = tree && intersects(tree.bounds, bounds) ? [tree] : []
+  while (stack.length > 0) {
+    const node = stack.pop()!
+    for (const entry of node.entries) {
+      if (intersects(entry.bounds, bounds)) result.push(entry.value)
+    }
+    for (const child of node.children) {
+      if (intersects(child.bounds, bounds)) stack.push(child)
+    }
+  }
+  return result
+}
+
+// 点が多角形の内側にあるか（偶奇規則）。ring は [x0, y0, x1, y1, ...] の平坦な配列で、穴も同じ規則で除かれる
+export const pointInRings = ([px, py]: [number, number], rings: number[][]) => {
+  let inside = false
+  for (const ring of rings) {
+    const n = ring.length
+    for (let i = 0, j = n - 2; i < n; j = i, i += 2) {
+      const xi = ring[i]
+      const yi = ring[i + 1]
+      const xj = ring[j]
+      const yj = ring[j + 1]
+      if (yi > py !== yj > py && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) inside = !inside
+    }
+  }
+  return inside
+}
@@ -0,0 +1,213 @@
+// 国の下の行政区画（都道府県・州）の ID と名前。元データの名前をキーにして、ISO 3166-2 のコードと日英の名前に対応させる。
+// 表に無い地物（ワシントンD.C.・プエルトリコなど）は出題しない
+export type SubdivisionName = {
+  id: string
+  en: string
+  ja: string
+}
+
+// dataofjapan/land の nam_ja（都道府県名）をキーにする
+export const JAPAN_PREFECTURES: Record<string, SubdivisionName> = {
+  北海道: { id: 'JP-01', en: 'Hokkaido', ja: '北海道' },
+  青森県: { id: 'JP-02', en: 'Aomori', ja: '青森県' },
+  岩手県: { id: 'JP-03', en: 'Iwate', ja: '岩手県' },
+  宮城県: { id: 'JP-04', en: 'Miyagi', ja: '宮城県' },
+  秋田県: { id: 'JP-05', en: 'Akita', ja: '秋田県' },
+  山形県: { id: 'JP-06', en: 'Yamagata', ja: '山形県' },
+  福島県: { id: 'JP-07', en: 'Fukushima', ja: '福島県' },
+  茨城県: { id: 'JP-08', en: 'Ibaraki', ja: '茨城県' },
+  栃木県: { id: 'JP-09', en: 'Tochigi', ja: '栃木県' },
+  群馬県: { id: 'JP-10', en: 'Gunma', ja: '群馬県' },
+  埼玉県: { id: 'JP-11', en: 'Saitama', ja: '埼玉県' },
+  千葉県: { id: 'JP-12', en: 'Chiba', ja: '千葉県' },
+  東京都: { id: 'JP-13', en: 'Tokyo', ja: '東京都' },
+  神奈川県: { id: 'JP-14', en: 'Kanagawa', ja: '神奈川県' },
+  新潟県: { id: 'JP-15', en: 'Niigata', ja: '新潟県' },
+  富山県: { id: 'JP-16', en: 'Toyama', ja: '富山県' },
+  石川県: { id: 'JP-17', en: 'Ishikawa', ja: '石川県' },
+  福井県: { id: 'JP-18', en: 'Fukui', ja: '福井県' },
+  山梨県: { id: 'JP-19', en: 'Yamanashi', ja: '山梨県' },
+  長野県: { id: 'JP-20', en: 'Nagano', ja: '長野県' },
+  岐阜県: { id: 'JP-21', en: 'Gifu', ja: '岐阜県' },
+  静岡県: { id: 'JP-22', en: 'Shizuoka', ja: '静岡県' },
+  愛知県: { id: 'JP-23', en: 'Aichi', ja: '愛知県' },
+  三重県: { id: 'JP-24', en: 'Mie', ja: '三重県' },
+  滋賀県: { id: 'JP-25', en: 'Shiga', ja: '滋賀県' },
+  京都府: { id: 'JP-26', en: 'Kyoto', ja: '京都府' },
+  大阪府: { id: 'JP-27', en: 'Osaka', ja: '大阪府' },
+  兵庫県: { id: 'JP-28', en: 'Hyogo', ja: '兵庫県' },
+  奈良県: { id: 'JP-29', en: 'Nara', ja: '奈良県' },
+  和歌山県: { id: 'JP-30', en: 'Wakayama', ja: '和歌山県' },
+  鳥取県: { id: 'JP-31', en: 'Tottori', ja: '鳥取県' },
+  島根県: { id: 'JP-32', en: 'Shimane', ja: '島根県' },
+  岡山県: { id: 'JP-33', en: 'Okayama', ja: '岡山県' },
+  広島県: { id: 'JP-34', en: 'Hiroshima', ja: '広島県' },
+  山口県: { id: 'JP-35', en: 'Yamaguchi', ja: '山口県' },
+  徳島県: { id: 'JP-36', en: 'Tokushima', ja: '徳島県' },
+  香川県: { id: 'JP-37', en: 'Kagawa', ja: '香川県' },
+  愛媛県: { id: 'JP-38', en: 'Ehime', ja: '愛媛県' },
+  高知県: { id: 'JP-39', en: 'Kochi', ja: '高知県' },
+  福岡県: { id: 'JP-40', en: 'Fukuoka', ja: '福岡県' },
+  佐賀県: { id: 'JP-41', en: 'Saga', ja: '佐賀県' },
+  長崎県: { id: 'JP-42', en: 'Nagasaki', ja: '長崎県' },
+  熊本県: { id: 'JP-43', en: 'Kumamoto', ja: '熊本県' },
+  大分県: { id: 'JP-44', en: 'Oita', ja: '大分県' },
+  宮崎県: { id: 'JP-45', en: 'Miyazaki', ja: '宮崎県' },
+  鹿児島県: { id: 'JP-46', en: 'Kagoshima', ja: '鹿児島県' },
+  沖縄県: { id: 'JP-47', en: 'Okinawa', ja: '沖縄県' },
+}
+
+// PublicaMundi/MappingAPI の us-states の name（英語の州名）をキーにする
+export const US_STATES: Record<string, SubdivisionName> = {
+  Alabama: { id: 'US-AL', en: 'Alabama', ja: 'アラバマ州' },
+  Alaska: { id: 'US-AK', en: 'Alaska', ja: 'アラスカ州' },
+  Arizona: { id: 'US-AZ', en: 'Arizona', ja: 'アリゾナ州' },
+  Arkansas: { id: 'US-AR', en: 'Arkansas', ja: 'アーカンソー州' },
+  California: { id: 'US-CA', en: 'California', ja: 'カリフォルニア州' },
+  Colorado: { id: 'US-CO', en: 'Colorado', ja: 'コロラド州' },
+  Connecticut: { id: 'US-CT', en: 'Connecticut', ja: 'コネチカット州' },
+  Delaware: { id: 'US-DE', en: 'Delaware', ja: 'デラウェア州' },
+  Florida: { id: 'US-FL', en: 'Florida', ja: 'フロリダ州' },
+  Georgia: { id: 'US-GA', en: 'Georgia', ja: 'ジョージア州' },
+  Hawaii: { id: 'US-HI', en: 'Hawaii', ja: 'ハワイ州' },
+  Idaho: { id: 'US-ID', en: 'Idaho', ja: 'アイダホ州' },
+  Illinois: { id: 'US-IL', en: 'Illinois', ja: 'イリノイ州' },
+  Indiana: { id: 'US-IN', en: 'Indiana', ja: 'インディアナ州' },
+  Iowa: { id: 'US-IA', en: 'Iowa', ja: 'アイオワ州' },
+  Kansas: { id: 'US-KS', en: 'Kansas', ja: 'カンザス州' },
+  Kentucky: { id: 'US-KY', en: 'Kentucky', ja: 'ケンタッキー州' },
+  Louisiana: { id: 'US-LA', en: 'Louisiana', ja: 'ルイジアナ州' },
+  Maine: { id: 'US-ME', en: 'Maine', ja: 'メイン州' },
+  Maryland: { id: 'US-MD', en: 'Maryland', ja: 'メリーランド州' },
+  Massachusetts: { id: 'US-MA', en: 'Massachusetts', ja: 'マサチューセッツ州' },
+  Michigan: { id: 'US-MI', en: 'Michigan', ja: 'ミシガン州' },
+  Minnesota: { id: 'US-MN', en: 'Minnesota', ja: 'ミネソタ州' },
+  Mississippi: { id: 'US-MS', en: 'Mississippi', ja: 'ミシシッピ州' },
+  Missouri: { id: 'US-MO', en: 'Missouri', ja: 'ミズーリ州' },
+  Montana: { id: 'US-MT', en: 'Montana', ja: 'モンタナ州' },
+  Nebraska: { id: 'US-NE', en: 'Nebraska', ja: 'ネブラスカ州' },
+  Nevada: { id: 'US-NV', en: 'Nevada', ja: 'ネバダ州' },
+  'New Hampshire': { id: 'US-NH', en: 'New Hampshire', ja: 'ニューハンプシャー州' },
+  'New Jersey': { id: 'US-NJ', en: 'New Jersey', ja: 'ニュージャージー州' },
+  'New Mexico': { id: 'US-NM', en: 'New Mexico', ja: 'ニューメキシコ州' },
+  'New York': { id: 'US-NY', en: 'New York', ja: 'ニューヨーク州' },
+  'North Carolina': { id: 'US-NC', en: 'North Carolina', ja: 'ノースカロライナ州' },
+  'North Dakota': { id: 'US-ND', en: 'North Dakota', ja: 'ノースダコタ州' },
+  Ohio: { id: 'US-OH', en: 'Ohio', ja: 'オハイオ州' },
+  Oklahoma: { id: 'US-OK', en: 'Oklahoma', ja: 'オクラホマ州' },
+  Oregon: { id: 'US-OR', en: 'Oregon', ja: 'オレゴン州' },
+  Pennsylvania: { id: 'US-PA', en: 'Pennsylvania', ja: 'ペンシルベニア州' },
+  'Rhode Island': { id: 'US-RI', en: 'Rhode Island', ja: 'ロードアイランド州' },
+  'South Carolina': { id: 'US-SC', en: 'South Carolina', ja: 'サウスカロライナ州' },
+  'South Dakota': { id: 'US-SD', en: 'South Dakota', ja: 'サウスダコタ州' },
+  Tennessee: { id: 'US-TN', en: 'Tennessee', ja: 'テネシー州' },
+  Texas: { id: 'US-TX', en: 'Texas', ja: 'テキサス州' },
+  Utah: { id: 'US-UT', en: 'Utah', ja: 'ユタ州' },
+  Vermont: { id: 'US-VT', en: 'Vermont', ja: 'バーモント州' },
+  Virginia: { id: 'US-VA', en: 'Virginia', ja: 'バージニア州' },
+  Washington: { id: 'US-WA', en: 'Washington', ja: 'ワシントン州' },
+  'West Virginia': { id: 'US-WV', en: 'West Virginia', ja: 'ウェストバージニア州' },
+  Wisconsin: { id: 'US-WI', en: 'Wisconsin', ja: 'ウィスコンシン州' },
+  Wyoming: { id: 'US-WY', en: 'Wyoming', ja: 'ワイオミング州' },
+}
+
+// 都道府県庁・州都の所在地（ISO 3166-2 のコード → 日英の名前）。AI ヒントに出てはいけない語に使う
+export const SUBDIVISION_CAPITALS: Record<string, { en: string; ja: string }> = {
+  'JP-01': { en: 'Sapporo', ja: '札幌' },
+  'JP-02': { en: 'Aomori', ja: '青森' },
+  'JP-03': { en: 'Morioka', ja: '盛岡' },
+  'JP-04': { en: 'Sendai', ja: '仙台' },
+  'JP-05': { en: 'Akita', ja: '秋田' },
+  'JP-06': { en: 'Yamagata', ja: '山形' },
+  'JP-07': { en: 'Fukushima', ja: '福島' },
+  'JP-08': { en: 'Mito', ja: '水戸' },
+  'JP-09': { en: 'Utsunomiya', ja: '宇都宮' },
+  'JP-10': { en: 'Maebashi', ja: '前橋' },
+  'JP-11': { en: 'Saitama', ja: 'さいたま' },
+  'JP-12': { en: 'Chiba', ja: '千葉' },
+  'JP-13': { en: 'Tokyo', ja: '東京' },
+  'JP-14': { en: 'Yokohama', ja: '横浜' },
+  'JP-15': { en: 'Niigata', ja: '新潟' },
+  'JP-16': { en: 'Toyama', ja: '富山' },
+  'JP-17': { en: 'Kanazawa', ja: '金沢' },
+  'JP-18': { en: 'Fukui', ja: '福井' },
+  'JP-19': { en: 'Kofu', ja: '甲府' },
+  'JP-20': { en: 'Nagano', ja: '長野' },
+  'JP-21': { en: 'Gifu', ja: '岐阜' },
+  'JP-22': { en: 'Shizuoka', ja: '静岡' },
+  'JP-23': { en: 'Nagoya', ja: '名古屋' },
+  'JP-24': { en: 'Tsu', ja: '津' },
+  'JP-25': { en: 'Otsu', ja: '大津' },
+  'JP-26': { en: 'Kyoto', ja: '京都' },
+  'JP-27': { en: 'Osaka', ja: '大阪' },
+  'JP-28': { en: 'Kobe', ja: '神戸' },
+  'JP-29': { en: 'Nara', ja: '奈良' },
+  'JP-30': { en: 'Wakayama', ja: '和歌山' },
+  'JP-31': { en: 'Tottori', ja: '鳥取' },
+  'JP-32': { en: 'Matsue', ja: '松江' },
+  'JP-33': { en: 'Okayama', ja: '岡山' },
+  'JP-34': { en: 'Hiroshima', ja: '広島' },
+  'JP-35': { en: 'Yamaguchi', ja: '山口' },
+  'JP-36': { en: 'Tokushima', ja: '徳島' },
+  'JP-37': { en: 'Takamatsu', ja: '高松' },
+  'JP-38': { en: 'Matsuyama', ja: '松山' },
+  'JP-39': { en: 'Kochi', ja: '高知' },
+  'JP-40': { en: 'Fukuoka', ja: '福岡' },
+  'JP-41': { en: 'Saga', ja: '佐賀' },
+  'JP-42': { en: 'Nagasaki', ja: '長崎' },
+  'JP-43': { en: 'Kumamoto', ja: '熊本' },
+  'JP-44': { en: 'Oita', ja: '大分' },
+  'JP-45': { en: 'Miyazaki', ja: '宮崎' },
+  'JP-46': { en: 'Kagoshima', ja: '鹿児島' },
+  'JP-47': { en: 'Naha', ja: '那覇' },
+  'US-AL': { en: 'Montgomery', ja: 'モンゴメリー' },
+  'US-AK': { en: 'Juneau', ja: 'ジュノー' },
+  'US-AZ': { en: 'Phoenix', ja: 'フェニックス' },
+  'US-AR': { en: 'Little Rock', ja: 'リトルロック' },
+  'US-CA': { en: 'Sacramento', ja: 'サクラメント' },
+  'US-CO': { en: 'Denver', ja: 'デンバー' },
+  'US-CT': { en: 'Hartford', ja: 'ハートフォード' },
+  'US-DE': { en: 'Dover', ja: 'ドーバー' },
+  'US-FL': { en: 'Tallahassee', ja: 'タラハシー' },
+  'US-GA': { en: 'Atlanta', ja: 'アトランタ' },
+  'US-HI': { en: 'Honolulu', ja: 'ホノルル' },
+  'US-ID': { en: 'Boise', ja: 'ボイシ' },
+  'US-IL': { en: 'Springfield', ja: 'スプリングフィールド' },
+  'US-IN': { en: 'Indianapolis', ja: 'インディアナポリス' },
+  'US-IA': { en: 'Des Moines', ja: 'デモイン' },
+  'US-KS': { en: 'Topeka', ja: 'トピカ' },
+  'US-KY': { en: 'Frankfort', ja: 'フランクフォート' },
+  'US-LA': { en: 'Baton Rouge', ja: 'バトンルージュ' },
+  'US-ME': { en: 'Augusta', ja: 'オーガスタ' },
+  'US-MD': { en: 'Annapolis', ja: 'アナポリス' },
+  'US-MA': { en: 'Boston', ja: 'ボストン' },
+  'US-MI': { en: 'Lansing', ja: 'ランシング' },
+  'US-MN': { en: 'Saint Paul', ja: 'セントポール' },
+  'US-MS': { en: 'Jackson', ja: 'ジャクソン' },
+  'US-MO': { en: 'Jefferson City', ja: 'ジェファーソンシティ' },
+  'US-MT': { en: 'Helena', ja: 'ヘレナ' },
+  'US-NE': { en: 'Lincoln', ja: 'リンカーン' },
+  'US-NV': { en: 'Carson City', ja: 'カーソンシティ' },
+  'US-NH': { en: 'Concord', ja: 'コンコード' },
+  'US-NJ': { en: 'Trenton', ja: 'トレントン' },
+  'US-NM': { en: 'Santa Fe', ja: 'サンタフェ' },
+  'US-NY': { en: 'Albany', ja: 'オールバニ' },
+  'US-NC': { en: 'Raleigh', ja: 'ローリー' },
+  'US-ND': { en: 'Bismarck', ja: 'ビスマーク' },
+  'US-OH': { en: 'Columbus', ja: 'コロンバス' },
+  'US-OK': { en: 'Oklahoma City', ja: 'オクラホマシティ' },
+  'US-OR': { en: 'Salem', ja: 'セーラム' },
+  'US-PA': { en: 'Harrisburg', ja: 'ハリスバーグ' },
+  'US-RI': { en: 'Providence', ja: 'プロビデンス' },
+  'US-SC': { en: 'Columbia', ja: 'コロンビア' },
+  'US-SD': { en: 'Pierre', ja: 'ピア' },
+  'US-TN': { en: 'Nashville', ja: 'ナッシュビル' },
+  'US-TX': { en: 'Austin', ja: 'オースティン' },
+  'US-UT': { en: 'Salt Lake City', ja: 'ソルトレイクシティ' },
+  'US-VT': { en: 'Montpelier', ja: 'モントピリア' },
+  'US-VA': { en: 'Richmond', ja: 'リッチモンド' },
+  'US-WA': { en: 'Olympia', ja: 'オリンピア' },
+  'US-WV': { en: 'Charleston', ja: 'チャールストン' },
+  'US-WI': { en: 'Madison', ja: 'マディソン' },
+  'US-WY': { en: 'Cheyenne', ja: 'シャイアン' },
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { TINY_COUNTRY_PX, findTapCandidates, isTinyOnScreen } from './tapTargets.ts'
+
+describe('tap targets', () => {
+  it('treats countries as tiny by their size on screen', () => {
+    expect(isTinyOnScreen(2, 2)).toBe(true)
+    expect(isTinyOnScreen(2, TINY_COUNTRY_PX)).toBe(false)
+  })
+
+  it('returns every country within the radius, nearest first', () => {
+    const targets = [
+      { id: 'VAT', center: [10, 10] as [number, number] },
+      { id: 'SMR', center: [13, 10] as [number, number] },
+      { id: 'MLT', center: [40, 40] as [number, number] },
+    ]
+    expect(findTapCandidates(targets, [12, 10], 5)).toEqual(['SMR', 'VAT'])
+    expect(findTapCandidates(targets, [40, 41], 5)).toEqual(['MLT'])
+    expect(findTapCandidates(targets, [25, 25], 5)).toEqual([])
+  })
+})
@@ -0,0 +1,21 @@
+// 小さな国を押しやすくするための当たり判定。国の中心（地図の座標系）を中心に、画面上で一定の大きさの円を置く
+export type TapTarget = {
+  id: string
+  center: [number, number]
+}
+
+// 画面上の大きさ（縦横の長い方, px）がこれより小さい国に当たり判定の円を付ける
+export const TINY_COUNTRY_PX = 10
+// 円の半径（px）。直径が指先で押せる大きさ（24px 以上）になるようにする
+export const TAP_RADIUS_PX = 14
+
+// extent は地図の座標系での大きさ、k は地図の座標 1 あたりの画面上の px（getViewTransform の k）
+export const isTinyOnScreen = (extent: number, k: number) => extent * k < TINY_COUNTRY_PX
+
+// 点（地図の座標系）から radius 以内にある国を近い順に返す
+export const findTapCandidates = (targets: TapTarget[], [x, y]: [number, number], radius: number) =>
+  targets
+    .map(({ id, center }) => ({ id, distance: Math.hypot(center[0] - x, center[1] - y) }))
+    .filter(({ distance }) => distance <= radius)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ id }) => id)
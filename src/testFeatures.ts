@@ -0,0 +1,19 @@
+import type { GeoFeature } from './geo.ts'
+
+// テスト用の、経緯度の範囲をそのまま四角形にした国
+export const box = (id: string, west: number, south: number, east: number, north: number): GeoFeature => ({
+  type: 'Feature',
+  properties: { ISO_A3: id },
+  geometry: {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [west, south],
+        [west, north],
+        [east, north],
+        [east, south],
+        [west, south],
+      ],
+    ],
+  },
+})
@@ -5,7 +5,19 @@ declare const __app_id: string | undefined
 declare const __initial_auth_token: string | undefined
 
 interface ImportMetaEnv {
+  readonly VITE_HINT_PROVIDER?: string
   readonly VITE_GEMINI_API_KEY?: string
+  readonly VITE_GEMINI_MODEL?: string
+  readonly VITE_HINT_PROXY_URL?: string
+  readonly VITE_HINT_PROXY_MODEL?: string
+  readonly VITE_OPENAI_BASE_URL?: string
+  readonly VITE_OPENAI_MODEL?: string
+  readonly VITE_OPENAI_API_KEY?: string
+  readonly VITE_FIREBASE_API_KEY?: string
+  readonly VITE_FIREBASE_AUTH_DOMAIN?: string
+  readonly VITE_FIREBASE_PROJECT_ID?: string
+  readonly VITE_FIREBASE_DATABASE_URL?: string
+  readonly VITE_FIREBASE_EMULATOR_HOST?: string
 }
 
 interface ImportMeta {
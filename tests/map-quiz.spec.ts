@@ -1,7 +1,8 @@
 import { expect, test } from '@playwright/test'
+import { topology } from 'topojson-server'
 
-const GEO_DATA_URL =
-  'https://raw.githubusercontent.com/datasets/geo-countries/master/data/countries.geojson'
+// アプリは public/data/ に同梱した TopoJSON を読むので、配布元（GEO_DATA_URL）への通信は発生しない
+const BUNDLED_GEO_DATA_PATH = '**/data/countries.topo.json'
 
 const geoFixture = {
   type: 'FeatureCollection',
@@ -29,16 +30,16 @@ const geoFixture = {
 }
 
 const hintFixture = {
-  main_hint: 'テスト用のヒントです。',
   summary: 'テストヒント',
+  hints: ['テスト用のヒントです。', 'もう少し具体的なヒントです。', '決め手になるヒントです。'],
 }
 
 test.beforeEach(async ({ page }) => {
-  await page.route(GEO_DATA_URL, (route) =>
+  await page.route(BUNDLED_GEO_DATA_PATH, (route) =>
     route.fulfill({
       status: 200,
       contentType: 'application/json',
-      body: JSON.stringify(geoFixture),
+      body: JSON.stringify(topology({ countries: geoFixture })),
     }),
   )
   await page.route(/generativelanguage\.googleapis\.com\/v1beta\/models\/.*:generateContent\?key=/, (route) =>
@@ -64,13 +65,182 @@ test('start game and answer correctly', async ({ page }) => {
   await expect(page.getByRole('heading', { name: /geomind/i })).toBeVisible()
   await page.getByRole('button', { name: /start game/i }).click()
 
-  await expect(page.getByText(/region data analysis/i)).toBeVisible()
-  await expect(page.getByText(/Pinch\/Scroll to Zoom/i)).toBeVisible()
-
-  const paths = page.locator('svg[viewBox="0 0 800 400"] path')
-  await expect(paths).toHaveCount(1)
-  await paths.first().click()
+  // 国の他に地球の輪郭（sphere）のパスも描くので、国の ID で探す
+  const japan = page.locator('path[data-country-id="JPN"]')
+  await expect(japan).toHaveCount(1)
+  await japan.click()
 
   await expect(page.getByText('SUCCESS')).toBeVisible()
+  await expect(page.getByText('Correct!')).toBeVisible()
+})
+
+test('switching the language to Japanese localizes the quiz and persists', async ({ page }) => {
+  await page.goto('/')
+
+  await page.getByRole('button', { name: '日本語' }).click()
+  await expect(page.locator('html')).toHaveAttribute('lang', 'ja')
+  await page.getByRole('button', { name: 'ゲーム開始' }).click()
+  await page.locator('svg path[data-country-id="JPN"]').click()
   await expect(page.getByText('正解！')).toBeVisible()
+
+  await page.reload()
+  await expect(page.getByRole('button', { name: 'ゲーム開始' })).toBeVisible()
+})
+
+test('finishing the last round shows the results screen', async ({ page }) => {
+  await page.goto('/')
+
+  await page.getByRole('button', { name: /start game/i }).click()
+  await page.locator('path[data-country-id="JPN"]').click()
+
+  await page.getByRole('button', { name: /see results/i }).click()
+  await expect(page.getByText('ACCURACY')).toBeVisible()
+  await expect(page.getByText('100%')).toBeVisible()
+  await expect(page.getByRole('button', { name: /play again/i })).toBeVisible()
+})
+
+test('opening more hints lowers the points for a correct answer', async ({ page }) => {
+  await page.goto('/')
+
+  await page.getByRole('button', { name: /start game/i }).click()
+  await page.getByRole('button', { name: /more hint/i }).click()
+  await expect(page.getByText('+8 pt')).toBeVisible()
+  await page.locator('path[data-country-id="JPN"]').click()
+
+  await expect(page.getByText('SUCCESS')).toBeVisible()
+  await expect(page.getByLabel('Score')).toHaveText('8')
+})
+
+test('name-it mode accepts a typed country name', async ({ page }) => {
+  await page.goto('/')
+
+  await page.getByRole('button', { name: /name it/i }).click()
+  await page.getByRole('button', { name: /start game/i }).click()
+
+  await page.getByRole('combobox', { name: /country name/i }).fill('にっぽん')
+  await page.getByRole('button', { name: /answer/i }).click()
+
+  await expect(page.getByText('SUCCESS')).toBeVisible()
+})
+
+test('a country can be answered with the keyboard alone', async ({ page }) => {
+  await page.goto('/')
+
+  await page.getByRole('button', { name: /start game/i }).focus()
+  await page.keyboard.press('Enter')
+
+  await page.getByRole('button', { name: 'Japan' }).focus()
+  await page.keyboard.press('Enter')
+
+  await expect(page.locator('#hint-panel-body')).toContainText('Correct!')
+  await expect(page.getByRole('button', { name: /see results|next challenge/i })).toBeFocused()
+})
+
+test('arrow keys move between countries and +/-/0 zoom the map', async ({ page }) => {
+  const box = (west: number, east: number): number[][][] => [
+    [
+      [west, 50],
+      [east, 50],
+      [east, 30],
+      [west, 30],
+      [west, 50],
+    ],
+  ]
+  const twoCountries = {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: { ADMIN: 'France', ISO_A3: 'FRA' },
+        geometry: { type: 'Polygon', coordinates: box(0, 8) },
+      },
+      {
+        type: 'Feature',
+        properties: { ADMIN: 'Japan', ISO_A3: 'JPN' },
+        geometry: { type: 'Polygon', coordinates: box(130, 145) },
+      },
+    ],
+  }
+  await page.route(BUNDLED_GEO_DATA_PATH, (route) =>
+    route.fulfill({
+      status: 200,
+      contentType: 'application/json',
+      body: JSON.stringify(topology({ countries: twoCountries })),
+    }),
+  )
+  await page.goto('/')
+  await page.getByRole('button', { name: /start game/i }).click()
+
+  await page.getByRole('button', { name: 'France' }).focus()
+  await page.keyboard.press('ArrowRight')
+  await expect(page.getByRole('button', { name: 'Japan' })).toBeFocused()
+  await page.keyboard.press('ArrowLeft')
+  await expect(page.getByRole('button', { name: 'France' })).toBeFocused()
+
+  const map = page.getByRole('group', { name: 'World map' })
+  const initialViewBox = await map.getAttribute('viewBox')
+  await page.keyboard.press('+')
+  await expect(map).not.toHaveAttribute('viewBox', initialViewBox ?? '')
+  await page.keyboard.press('0')
+  await expect(map).toHaveAttribute('viewBox', initialViewBox ?? '')
+
+  await page.keyboard.press('Enter')
+  await expect(page.locator('#hint-panel-body')).toContainText(/SUCCESS|WRONG/)
+})
+
+test('map data loads from the bundled asset without remote requests', async ({ page }) => {
+  const remoteRequests: string[] = []
+  page.on('request', (request) => {
+    if (request.url().includes('raw.githubusercontent.com')) remoteRequests.push(request.url())
+  })
+  await page.goto('/')
+
+  await expect(page.getByRole('button', { name: /start game/i })).toBeEnabled()
+  expect(remoteRequests).toEqual([])
+})
+
+test('tapping between neighbouring microstates asks which one was meant', async ({ page }) => {
+  // 初期表示では数 px にしかならない、隣り合った2つの小国
+  const islet = (west: number): number[][][] => [
+    [
+      [west, 0.5],
+      [west + 0.5, 0.5],
+      [west + 0.5, 0],
+      [west, 0],
+      [west, 0.5],
+    ],
+  ]
+  const microstates = {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: { ADMIN: 'Aland', ISO_A3: 'AAA' },
+        geometry: { type: 'Polygon', coordinates: islet(10) },
+      },
+      {
+        type: 'Feature',
+        properties: { ADMIN: 'Borland', ISO_A3: 'BBB' },
+        geometry: { type: 'Polygon', coordinates: islet(11) },
+      },
+    ],
+  }
+  await page.route(BUNDLED_GEO_DATA_PATH, (route) =>
+    route.fulfill({
+      status: 200,
+      contentType: 'application/json',
+      body: JSON.stringify(topology({ countries: microstates })),
+    }),
+  )
+  await page.goto('/')
+  await page.getByRole('button', { name: /start game/i }).click()
+
+  // 当たり判定の円が国の上に重なるので、位置だけを指定して押す
+  await page.locator('path[data-country-id="AAA"]').click({ force: true })
+  const chooser = page.getByRole('dialog', { name: 'Which country?' })
+  await expect(chooser.getByRole('button')).toHaveText(['Aland', 'Borland'])
+  await chooser.getByRole('button', { name: 'Borland' }).click()
+
+  await expect(chooser).toBeHidden()
+  await expect(page.locator('#hint-panel-body')).toContainText(/SUCCESS|WRONG/)
 })
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { VitePWA } from 'vite-plugin-pwa'
@@ -10,6 +11,11 @@ export default defineConfig({
     VitePWA({
       registerType: 'autoUpdate',
       includeAssets: ['favicon.ico'],
+      workbox: {
+        // 同梱の地図データ（scripts/build-geodata.mjs の出力）もプリキャッシュしてオフラインで遊べるようにする
+        globPatterns: ['**/*.{js,css,html}', 'data/*.json'],
+        maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
+      },
       manifest: {
         name: 'GeoMind',
         short_name: 'GeoMind',
@@ -29,4 +35,8 @@ export default defineConfig({
       },
     }),
   ],
+  // 単体テスト（vitest）。e2e は tests/ の Playwright が受け持つ
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
 })